@@ -5,4 +5,77 @@ dotenv.config();
 export const ENV = {
   PORT: process.env.PORT || 4000,
   NODE_ENV: process.env.NODE_ENV || "development",
+  // State used for NDIS time bands / public holidays when a participant has none on file
+  DEFAULT_STATE: process.env.DEFAULT_STATE || "NSW",
+  // Optional shared inbox copied on admin notifications
+  ADMIN_EMAIL: process.env.ADMIN_EMAIL || "",
+  // Background jobs (disable on all but one instance when scaling out)
+  JOBS_ENABLED: process.env.JOBS_ENABLED !== "false",
+  AUTO_CLOCK_OUT_GRACE_MINUTES: Number(process.env.AUTO_CLOCK_OUT_GRACE_MINUTES) || 30,
+  AUTO_CLOCK_OUT_INTERVAL_MINUTES: Number(process.env.AUTO_CLOCK_OUT_INTERVAL_MINUTES) || 5,
+  // Cancellations inside this many hours of the start are "short notice"
+  CANCELLATION_SHORT_NOTICE_HOURS: Number(process.env.CANCELLATION_SHORT_NOTICE_HOURS) || 48,
+  // Share of the booked price billed for a short-notice cancellation (0 disables the fee)
+  CANCELLATION_FEE_PERCENT: Number(process.env.CANCELLATION_FEE_PERCENT ?? 100),
+  // Trainer shift offers: hours to accept, and whether a decline/expiry goes to the next ranked trainer
+  OFFER_EXPIRY_HOURS: Number(process.env.OFFER_EXPIRY_HOURS) || 24,
+  OFFER_AUTO_REASSIGN: process.env.OFFER_AUTO_REASSIGN === "true",
+  OFFER_EXPIRY_INTERVAL_MINUTES: Number(process.env.OFFER_EXPIRY_INTERVAL_MINUTES) || 5,
+  // ABA direct-entry payroll file (our APCA details + account used for tracing returns)
+  ABA_BANK_CODE: process.env.ABA_BANK_CODE || "",
+  ABA_USER_NAME: process.env.ABA_USER_NAME || "",
+  ABA_USER_ID: process.env.ABA_USER_ID || "",
+  ABA_DESCRIPTION: process.env.ABA_DESCRIPTION || "PAYROLL",
+  ABA_TRACE_BSB: process.env.ABA_TRACE_BSB || "",
+  ABA_TRACE_ACCOUNT: process.env.ABA_TRACE_ACCOUNT || "",
+  ABA_REMITTER_NAME: process.env.ABA_REMITTER_NAME || "CareLink",
+  // Add a balancing debit from the trace account (most banks need it; set "false" if yours rejects it)
+  ABA_SELF_BALANCING: process.env.ABA_SELF_BALANCING !== "false",
+  // NDIA bulk payment requests
+  NDIS_REGISTRATION_NUMBER: process.env.NDIS_REGISTRATION_NUMBER || "",
+  PROVIDER_ABN: process.env.PROVIDER_ABN || "",
+  // Participant invoices
+  PROVIDER_NAME: process.env.PROVIDER_NAME || "CareLink",
+  INVOICE_PREFIX: process.env.INVOICE_PREFIX || "INV-",
+  INVOICE_DUE_DAYS: Number(process.env.INVOICE_DUE_DAYS) || 14,
+  GST_RATE_PERCENT: Number(process.env.GST_RATE_PERCENT ?? 10),
+  // P2 = GST-free NDIS supports; set P1 if invoices should carry GST by default
+  INVOICE_DEFAULT_GST_CODE: process.env.INVOICE_DEFAULT_GST_CODE === "P1" ? "P1" : "P2",
+  // Trainer compliance: documents that must be current to be assigned / clock in, and reminder lead times
+  COMPLIANCE_MANDATORY_DOCUMENTS: (process.env.COMPLIANCE_MANDATORY_DOCUMENTS || "ndisCheck,wwcc")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean),
+  COMPLIANCE_REMINDER_DAYS: (process.env.COMPLIANCE_REMINDER_DAYS || "60,30,7")
+    .split(",")
+    .map(Number)
+    .filter((n) => n > 0),
+  COMPLIANCE_REMINDER_INTERVAL_MINUTES: Number(process.env.COMPLIANCE_REMINDER_INTERVAL_MINUTES) || 360,
+  // Private uploads: key for signed download links (falls back to JWT_SECRET) and link lifetime
+  FILE_URL_SECRET: process.env.FILE_URL_SECRET || process.env.JWT_SECRET || "super-secret-key",
+  FILE_URL_TTL_SECONDS: Number(process.env.FILE_URL_TTL_SECONDS) || 300,
+  // Upload storage: "local" (UPLOAD_DIR on this disk) or "s3" (any S3-compatible service, e.g. MinIO)
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER === "s3" ? "s3" : "local",
+  UPLOAD_DIR: process.env.UPLOAD_DIR || "",
+  S3_BUCKET: process.env.S3_BUCKET || "",
+  S3_REGION: process.env.S3_REGION || "ap-southeast-2",
+  S3_ENDPOINT: process.env.S3_ENDPOINT || "", // blank = AWS; e.g. http://localhost:9000 for MinIO
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || "",
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || "",
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === "true", // MinIO needs path-style URLs
+  S3_PREFIX: process.env.S3_PREFIX || "", // optional key prefix inside the bucket
+  // Uploads: size limit and malware scanning ("clamav" = clamd INSTREAM, "stub" = local stand-in, "none");
+  // production defaults to clamav, development to the stub
+  UPLOAD_MAX_MB: Number(process.env.UPLOAD_MAX_MB) || 10,
+  MALWARE_SCANNER:
+    process.env.MALWARE_SCANNER || (process.env.NODE_ENV === "production" ? "clamav" : "stub"),
+  CLAMAV_HOST: process.env.CLAMAV_HOST || "127.0.0.1",
+  CLAMAV_PORT: Number(process.env.CLAMAV_PORT) || 3310,
+  CLAMAV_TIMEOUT_MS: Number(process.env.CLAMAV_TIMEOUT_MS) || 30000,
+  // Emailed password links: "create login" invites and "forgot password" resets
+  SET_PASSWORD_TOKEN_TTL_HOURS: Number(process.env.SET_PASSWORD_TOKEN_TTL_HOURS) || 72,
+  RESET_PASSWORD_TOKEN_TTL_MINUTES: Number(process.env.RESET_PASSWORD_TOKEN_TTL_MINUTES) || 60,
+  // Login sessions: short-lived access JWTs, refresh tokens rotated on every use
+  ACCESS_TOKEN_TTL_MINUTES: Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15,
+  REFRESH_TOKEN_TTL_DAYS: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
 };
@@ -0,0 +1,59 @@
+// src/controllers/agreementTemplate.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import { AppError, NotFoundError } from "../utils/errors";
+import { AGREEMENT_AUDIENCES, AgreementAudience } from "../models/agreementTemplate.model";
+import * as AgreementTemplateService from "../services/agreementTemplate.service";
+
+/**
+ * GET /api/agreement-templates/current/:audience
+ * Public: onboarding shows these terms and sends back their version
+ */
+export const getCurrentTemplate = async (req: AuthRequest, res: Response) => {
+  const audience = String(req.params.audience).toUpperCase() as AgreementAudience;
+  if (!AGREEMENT_AUDIENCES.includes(audience)) throw new AppError("Invalid audience", 400);
+
+  const template = await AgreementTemplateService.getCurrentTemplate(audience);
+  if (!template) throw new NotFoundError("AgreementTemplate", "No agreement has been published yet");
+  return success(res, template, "Current agreement fetched");
+};
+
+/**
+ * POST /api/agreement-templates
+ * Body: { audience, version, title, body, effectiveFrom, active? }
+ */
+export const createTemplate = async (req: AuthRequest, res: Response) => {
+  const template = await AgreementTemplateService.createTemplate(req.body, req.user!.userId);
+  return success(res, template, "Agreement template created", 201);
+};
+
+/**
+ * GET /api/agreement-templates
+ * Query: ?audience=&page=&limit=
+ */
+export const listTemplates = async (req: AuthRequest, res: Response) => {
+  const { audience, page, limit } = req.query;
+
+  const result = await AgreementTemplateService.listTemplates({
+    audience: audience as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "Agreement templates fetched");
+};
+
+export const getTemplate = async (req: AuthRequest, res: Response) => {
+  const template = await AgreementTemplateService.getTemplateById(req.params.id);
+  return success(res, template, "Agreement template fetched");
+};
+
+export const updateTemplate = async (req: AuthRequest, res: Response) => {
+  const template = await AgreementTemplateService.updateTemplate(
+    req.params.id,
+    req.body,
+    req.user!.userId
+  );
+  return success(res, template, "Agreement template updated");
+};
@@ -1,22 +1,71 @@
 import { Request, Response } from "express";
 import * as AuthService from "../services/auth.service";
+import * as SessionService from "../services/session.service";
 import { success } from "../utils/response";
 import { AppError, AuthError } from "../utils/errors";
 import { AuthRequest } from "../middleware/auth";
 
+// Body validated by setPasswordSchema
 export const setPassword = async (req: Request, res: Response) => {
-  const { email, password } = req.body;
-
-  if (!email || !password) {
-    throw new AppError("email and password are required", 400);
-  }
+  const { token, password } = req.body;
 
-  const result = await AuthService.setPasswordForUser(email, password);
+  const result = await AuthService.setPasswordForUser(token, password);
 
   return success(res, result, "Password set successfully, login created");
 };
 
+export const forgotPassword = async (req: Request, res: Response) => {
+  await AuthService.requestPasswordReset(req.body.email, { ip: req.ip });
+
+  return success(
+    res,
+    {},
+    "If an account exists for that email, a password reset link has been sent"
+  );
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  const result = await AuthService.resetPassword(token, password);
+
+  return success(res, result, "Password has been reset, please log in again");
+};
+
+
 
+const ACCESS_COOKIE = "carelink_access_token";
+const REFRESH_COOKIE = "carelink_refresh_token";
+const REFRESH_COOKIE_PATH = "/api/auth"; // only sent to refresh / logout
+
+const sessionContext = (req: Request) => ({
+  ip: req.ip ?? null,
+  userAgent: req.get("user-agent") ?? null,
+});
+
+const setSessionCookies = (
+  res: Response,
+  tokens: { token: string; tokenExpiresAt: Date; refreshToken: string; refreshTokenExpiresAt: Date }
+) => {
+  const isProduction = process.env.NODE_ENV === "production";
+  res.cookie(ACCESS_COOKIE, tokens.token, {
+    httpOnly: true,
+    secure: isProduction,
+    expires: tokens.tokenExpiresAt,
+  });
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure: isProduction,
+    path: REFRESH_COOKIE_PATH,
+    expires: tokens.refreshTokenExpiresAt,
+  });
+};
+
+const clearSessionCookies = (res: Response) => {
+  const isProduction = process.env.NODE_ENV === "production";
+  res.clearCookie(ACCESS_COOKIE, { httpOnly: true, secure: isProduction });
+  res.clearCookie(REFRESH_COOKIE, { httpOnly: true, secure: isProduction, path: REFRESH_COOKIE_PATH });
+};
 
 export const login = async (req: Request, res: Response) => {
   const { email, password } = req.body;
@@ -25,16 +74,28 @@ export const login = async (req: Request, res: Response) => {
     throw new AppError("Email and password are required", 400);
   }
 
-  const result = await AuthService.loginUser(email, password);
+  const result = await AuthService.loginUser(email, password, sessionContext(req));
 
-  // If using cookies:
-  const isProduction = process.env.NODE_ENV === "production";
-  res.cookie("carelink_access_token", result.token, {
-    httpOnly: true,
-    secure: isProduction
-  });
+  // The refresh token only ever travels in its httpOnly, path-scoped cookie
+  setSessionCookies(res, result);
+  const { refreshToken: _refreshToken, ...body } = result;
 
-  return success(res, result, "Login successful");
+  return success(res, body, "Login successful");
+};
+
+// New access token from the refresh cookie; the refresh token rotates
+export const refresh = async (req: Request, res: Response) => {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+
+  if (!refreshToken) {
+    throw new AuthError("Refresh token is required");
+  }
+
+  const result = await SessionService.refreshSession(refreshToken, sessionContext(req));
+  setSessionCookies(res, result);
+  const { refreshToken: _refreshToken, ...body } = result;
+
+  return success(res, body, "Session refreshed");
 };
 
 
@@ -48,14 +109,31 @@ export const getMe = async (req: AuthRequest, res: Response) => {
 };
 
 
-export const logout = async (req: Request, res: Response) => {
-
-  // Clear cookie if token stored there
-  const isProduction = process.env.NODE_ENV === "production";
-  res.clearCookie("carelink_access_token", {
-    httpOnly: true,
-    secure: isProduction
-  });
+export const logout = async (req: AuthRequest, res: Response) => {
+  // End this session server-side, then clear the cookies
+  if (req.user?.sessionId) {
+    await SessionService.revokeSession(req.user.sessionId, "LOGOUT");
+  }
+  clearSessionCookies(res);
 
   return success(res, {}, "Logged out successfully");
 };
+
+export const logoutAll = async (req: AuthRequest, res: Response) => {
+  const revoked = await SessionService.revokeAllSessions(req.user!.userId, "LOGOUT_ALL");
+  clearSessionCookies(res);
+
+  return success(res, { revoked }, "Logged out of all sessions");
+};
+
+export const listSessions = async (req: AuthRequest, res: Response) => {
+  const sessions = await SessionService.listSessions(req.user!.userId, req.user!.sessionId);
+  return success(res, sessions, "Sessions fetched successfully");
+};
+
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+  const result = await SessionService.revokeOwnSession(req.user!.userId, String(req.params.sessionId));
+  if (req.params.sessionId === req.user!.sessionId) clearSessionCookies(res);
+
+  return success(res, result, "Session revoked");
+};
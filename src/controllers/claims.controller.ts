@@ -0,0 +1,63 @@
+// src/controllers/claims.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as ClaimsService from "../services/claims.service";
+
+/**
+ * POST /api/claims/generate
+ * Body: { from, to, participantId? }
+ */
+export const generateClaims = async (req: AuthRequest, res: Response) => {
+  const result = await ClaimsService.generateClaims(req.body, req.user!.userId);
+  return success(res, result, "Claim lines generated", 201);
+};
+
+/**
+ * GET /api/claims
+ * Query: ?status=&participantId=&batchRef=&page=&limit=
+ */
+export const listClaims = async (req: AuthRequest, res: Response) => {
+  const { status, participantId, batchRef, page, limit } = req.query;
+
+  const result = await ClaimsService.listClaimLines({
+    status: status as string | undefined,
+    participantId: participantId as string | undefined,
+    batchRef: batchRef as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "Claim lines fetched");
+};
+
+/**
+ * POST /api/claims/submit
+ * Body: { claimLineIds[] } → bulk payment request CSV download
+ */
+export const submitClaims = async (req: AuthRequest, res: Response) => {
+  const { batchRef, filename, mime, buffer } = await ClaimsService.submitClaims(
+    req.body.claimLineIds,
+    req.user!.userId
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  res.setHeader("X-Claim-Batch", batchRef);
+  res.send(buffer);
+};
+
+export const exportBatch = async (req: AuthRequest, res: Response) => {
+  const { filename, mime, buffer } = await ClaimsService.exportClaimBatch(req.params.batchRef);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  res.send(buffer);
+};
+
+/**
+ * PATCH /api/claims/:id/status
+ * Body: { status: PAID|REJECTED|DRAFT, reason?, paidAmountCents? }
+ */
+export const updateClaimStatus = async (req: AuthRequest, res: Response) => {
+  const line = await ClaimsService.updateClaimStatus(req.params.id, req.body, req.user!.userId);
+  return success(res, line, "Claim line updated");
+};
@@ -0,0 +1,96 @@
+// src/controllers/compliance.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import { AppError } from "../utils/errors";
+import * as ComplianceService from "../services/compliance.service";
+import { DocumentReviewStatus } from "../models/trainer.model";
+
+const USER_STATUSES = ["PENDING", "ACTIVE", "BLOCKED", "DELETED"];
+
+const dashboardParams = (query: AuthRequest["query"]): ComplianceService.ComplianceDashboardParams => {
+  const { days, issue, status, mandatoryOnly, q } = query as Record<string, string | undefined>;
+
+  if (issue && !ComplianceService.COMPLIANCE_ISSUES.includes(issue as any)) {
+    throw new AppError(`issue must be one of ${ComplianceService.COMPLIANCE_ISSUES.join(", ")}`, 400);
+  }
+  if (status && !USER_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of ${USER_STATUSES.join(", ")}`, 400);
+  }
+
+  return {
+    days: days !== undefined ? Number(days) : undefined,
+    issue: issue as ComplianceService.ComplianceIssue | undefined,
+    userStatus: status,
+    mandatoryOnly: mandatoryOnly === "true",
+    q,
+  };
+};
+
+/**
+ * GET /api/compliance/dashboard
+ * Query: ?days=30&issue=&status=&mandatoryOnly=&q=
+ */
+export const getComplianceDashboard = async (req: AuthRequest, res: Response) => {
+  const data = await ComplianceService.getComplianceDashboard(dashboardParams(req.query));
+  return success(res, data, "Compliance dashboard");
+};
+
+/**
+ * GET /api/compliance/dashboard/export  (same query as the dashboard)
+ */
+export const exportComplianceDashboard = async (req: AuthRequest, res: Response) => {
+  const { filename, mime, buffer } = await ComplianceService.exportComplianceDashboardCsv(
+    dashboardParams(req.query)
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  res.send(buffer);
+};
+
+/**
+ * GET /api/compliance/trainers/:trainerId
+ */
+export const getTrainerCompliance = async (req: AuthRequest, res: Response) => {
+  const result = await ComplianceService.getTrainerCompliance(req.params.trainerId);
+  return success(res, result, "Trainer compliance fetched");
+};
+
+/**
+ * GET /api/trainer/me/compliance
+ */
+export const getMyCompliance = async (req: AuthRequest, res: Response) => {
+  const result = await ComplianceService.getMyCompliance(req.user!.userId);
+  return success(res, result, "Compliance status fetched");
+};
+
+/**
+ * GET /api/compliance/documents
+ * Query: ?status=SUBMITTED|VERIFIED|REJECTED&trainerId=
+ */
+export const listDocumentsForReview = async (req: AuthRequest, res: Response) => {
+  const { status, trainerId } = req.query as Record<string, string | undefined>;
+  if (status && !["SUBMITTED", "VERIFIED", "REJECTED"].includes(status)) {
+    throw new AppError("status must be one of SUBMITTED, VERIFIED, REJECTED", 400);
+  }
+
+  const data = await ComplianceService.listDocumentsForReview({
+    status: status as DocumentReviewStatus | undefined,
+    trainerId,
+  });
+  return success(res, data, "Documents fetched");
+};
+
+/**
+ * PATCH /api/compliance/trainers/:trainerId/documents/:key
+ * Body: { status: "VERIFIED" | "REJECTED", reason? }
+ */
+export const reviewTrainerDocument = async (req: AuthRequest, res: Response) => {
+  const result = await ComplianceService.reviewTrainerDocument(
+    req.params.trainerId,
+    req.params.key,
+    req.body,
+    req.user!.userId
+  );
+  return success(res, result, result.status === "VERIFIED" ? "Document verified" : "Document rejected");
+};
@@ -0,0 +1,66 @@
+// src/controllers/file.controller.ts
+import { Request, Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import { AppError } from "../utils/errors";
+import * as FileService from "../services/file.service";
+
+/** Who is asking, for the access log (also used by the agreement PDF downloads) */
+export const accessContext = (req: AuthRequest): FileService.FileAccessContext => ({
+  viewer: req.user ? { userId: req.user.userId, role: req.user.role } : null,
+  ip: req.ip,
+  userAgent: req.get("user-agent") ?? null,
+});
+
+const sendFile = (res: Response, file: { filename: string; mime: string; buffer: Buffer }) => {
+  res.setHeader("Content-Disposition", `inline; filename="${file.filename}"`);
+  res.setHeader("Content-Type", file.mime);
+  res.setHeader("Cache-Control", "private, no-store");
+  res.send(file.buffer);
+};
+
+/**
+ * GET /api/files?path=/uploads/documents/...
+ */
+export const downloadFile = async (req: AuthRequest, res: Response) => {
+  const storedPath = req.query.path;
+  if (typeof storedPath !== "string") throw new AppError("path is required", 400);
+
+  sendFile(res, await FileService.getPrivateFile(storedPath, accessContext(req)));
+};
+
+/**
+ * POST /api/files/signed-url
+ * Body: { path }
+ */
+export const createSignedUrl = async (req: AuthRequest, res: Response) => {
+  const result = await FileService.createSignedFileUrl(req.body.path, accessContext(req));
+  return success(res, result, "Signed link created");
+};
+
+/**
+ * GET /api/files/signed?path=&expires=&uid=&sig=
+ */
+export const downloadSignedFile = async (req: Request, res: Response) => {
+  const file = await FileService.getSignedFile(
+    req.query as Record<string, string | undefined>,
+    accessContext(req)
+  );
+  sendFile(res, file);
+};
+
+/**
+ * GET /api/files/access-logs?path=&userId=&page=&limit=
+ */
+export const listAccessLogs = async (req: AuthRequest, res: Response) => {
+  const { path, userId, page, limit } = req.query;
+
+  const result = await FileService.listFileAccessLogs({
+    path: path as string | undefined,
+    userId: userId as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "File access logs fetched");
+};
@@ -0,0 +1,77 @@
+// src/controllers/invoice.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as InvoiceService from "../services/invoice.service";
+
+const actorOf = (req: AuthRequest) => ({ id: req.user!.userId, role: req.user!.role });
+
+/**
+ * POST /api/invoices/generate
+ * Body: { periodStart, periodEnd, participantId? }
+ */
+export const generateInvoices = async (req: AuthRequest, res: Response) => {
+  const result = await InvoiceService.generateInvoices(req.body, req.user!.userId);
+  return success(res, result, "Invoices generated", 201);
+};
+
+/**
+ * GET /api/invoices
+ * Query: ?status=&participantId=&page=&limit=
+ */
+export const listInvoices = async (req: AuthRequest, res: Response) => {
+  const { status, participantId, page, limit } = req.query;
+
+  const result = await InvoiceService.listInvoices(
+    {
+      status: status as string | undefined,
+      participantId: participantId as string | undefined,
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    },
+    actorOf(req)
+  );
+
+  return success(res, result, "Invoices fetched");
+};
+
+export const getInvoice = async (req: AuthRequest, res: Response) => {
+  const invoice = await InvoiceService.getInvoiceById(req.params.id, actorOf(req));
+  return success(res, invoice, "Invoice fetched");
+};
+
+export const downloadInvoicePdf = async (req: AuthRequest, res: Response) => {
+  const { filename, mime, buffer } = await InvoiceService.renderInvoicePdf(req.params.id, actorOf(req));
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  res.send(buffer);
+};
+
+export const updateInvoice = async (req: AuthRequest, res: Response) => {
+  const invoice = await InvoiceService.updateInvoice(req.params.id, req.body, req.user!.userId);
+  return success(res, invoice, "Invoice updated");
+};
+
+export const issueInvoice = async (req: AuthRequest, res: Response) => {
+  const { invoice, emailed } = await InvoiceService.issueInvoice(req.params.id, req.user!.userId);
+  return success(
+    res,
+    { invoice, emailed },
+    emailed ? "Invoice issued and emailed" : "Invoice issued (email not sent)"
+  );
+};
+
+export const resendInvoice = async (req: AuthRequest, res: Response) => {
+  const invoice = await InvoiceService.resendInvoice(req.params.id);
+  return success(res, invoice, "Invoice emailed");
+};
+
+export const markInvoicePaid = async (req: AuthRequest, res: Response) => {
+  const invoice = await InvoiceService.markInvoicePaid(req.params.id, req.body.paidAt, req.user!.userId);
+  return success(res, invoice, "Invoice marked paid");
+};
+
+export const voidInvoice = async (req: AuthRequest, res: Response) => {
+  const invoice = await InvoiceService.voidInvoice(req.params.id, req.body.reason, req.user!.userId);
+  return success(res, invoice, "Invoice voided");
+};
@@ -0,0 +1,40 @@
+// src/controllers/ndisPlan.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as NdisPlanService from "../services/ndisPlan.service";
+
+/**
+ * POST /api/ndis-plans
+ * Body: { participantId, planNumber?, startDate, endDate, budgets[{ category, name?, allocatedCents }], notes? }
+ */
+export const createPlan = async (req: AuthRequest, res: Response) => {
+  const plan = await NdisPlanService.createPlan(req.body, req.user!.userId);
+  return success(res, plan, "NDIS plan created", 201);
+};
+
+/**
+ * GET /api/ndis-plans
+ * Query: ?participantId=&page=&limit=
+ */
+export const listPlans = async (req: AuthRequest, res: Response) => {
+  const { participantId, page, limit } = req.query;
+
+  const result = await NdisPlanService.listPlans({
+    participantId: participantId as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "NDIS plans fetched");
+};
+
+export const getPlan = async (req: AuthRequest, res: Response) => {
+  const plan = await NdisPlanService.getPlanById(req.params.id);
+  return success(res, plan, "NDIS plan fetched");
+};
+
+export const updatePlan = async (req: AuthRequest, res: Response) => {
+  const plan = await NdisPlanService.updatePlan(req.params.id, req.body, req.user!.userId);
+  return success(res, plan, "NDIS plan updated");
+};
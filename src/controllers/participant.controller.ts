@@ -1,5 +1,7 @@
 import { Response } from "express";
 import * as ParticipantService from "../services/participant.service";
+import * as AgreementService from "../services/agreement.service";
+import { accessContext } from "./file.controller";
 import { AppError, ValidationError } from "../utils/errors";
 import { success } from "../utils/response";
 
@@ -55,3 +57,33 @@ export const getAllParticipantsController = async (
 
   return success(res, result, "Trainers fetched successfully");
 };
+
+export const downloadMyAgreement = async (req: any, res: Response) => {
+  const { filename, mime, buffer, contentHash } = await AgreementService.getSignedAgreementPdf(
+    req.user.userId,
+    "PARTICIPANT",
+    accessContext(req)
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  if (contentHash) res.setHeader("X-Content-SHA256", contentHash);
+  res.send(buffer);
+};
+
+export const downloadParticipantAgreement = async (req: any, res: Response) => {
+  const { filename, mime, buffer, contentHash } = await AgreementService.getSignedAgreementPdf(
+    req.params.userId,
+    "PARTICIPANT",
+    accessContext(req)
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  if (contentHash) res.setHeader("X-Content-SHA256", contentHash);
+  res.send(buffer);
+};
+
+// PUT /api/participant/me/agreement — re-accept after the agreement version changes
+export const acceptAgreement = async (req: any, res: Response) => {
+  const agreement = await ParticipantService.acceptParticipantAgreement(req.user.userId, req.body);
+  return success(res, agreement, "Agreement accepted");
+};
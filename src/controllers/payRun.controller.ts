@@ -0,0 +1,62 @@
+// src/controllers/payRun.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as PayRunService from "../services/payRun.service";
+
+/**
+ * POST /api/pay-runs
+ * Body: { periodStart, periodEnd, timesheetIds?[], notes? }
+ */
+export const createPayRun = async (req: AuthRequest, res: Response) => {
+  const run = await PayRunService.createPayRun(req.body, req.user!.userId);
+  return success(res, run, "Pay run created", 201);
+};
+
+/**
+ * GET /api/pay-runs
+ * Query: ?status=&page=&limit=
+ */
+export const listPayRuns = async (req: AuthRequest, res: Response) => {
+  const { status, page, limit } = req.query;
+
+  const result = await PayRunService.listPayRuns({
+    status: status as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "Pay runs fetched");
+};
+
+export const getPayRun = async (req: AuthRequest, res: Response) => {
+  const run = await PayRunService.getPayRunById(req.params.id);
+  return success(res, run, "Pay run fetched");
+};
+
+export const updatePayRun = async (req: AuthRequest, res: Response) => {
+  const run = await PayRunService.updatePayRun(req.params.id, req.body, req.user!.userId);
+  return success(res, run, "Pay run updated");
+};
+
+export const deletePayRun = async (req: AuthRequest, res: Response) => {
+  const result = await PayRunService.deletePayRun(req.params.id);
+  return success(res, result, "Pay run deleted");
+};
+
+export const finalisePayRun = async (req: AuthRequest, res: Response) => {
+  const run = await PayRunService.finalisePayRun(req.params.id, req.user!.userId);
+  return success(res, run, "Pay run finalised");
+};
+
+/**
+ * GET /api/pay-runs/:id/export?format=csv|xero|myob|aba
+ */
+export const exportPayRun = async (req: AuthRequest, res: Response) => {
+  const format = String(req.query.format || "csv") as PayRunService.PayRunExportFormat;
+
+  const { filename, mime, buffer } = await PayRunService.exportPayRun(req.params.id, format);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  res.send(buffer);
+};
@@ -0,0 +1,32 @@
+// src/controllers/publicHoliday.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as PublicHolidayService from "../services/publicHoliday.service";
+
+/**
+ * GET /api/public-holidays
+ * Query: ?state=&year=
+ */
+export const listPublicHolidays = async (req: AuthRequest, res: Response) => {
+  const { state, year } = req.query;
+  const data = await PublicHolidayService.listPublicHolidays({
+    state: state as string | undefined,
+    year: year ? Number(year) : undefined,
+  });
+  return success(res, data, "Public holidays fetched");
+};
+
+/**
+ * POST /api/public-holidays
+ * Body: { date: "YYYY-MM-DD", state, name }
+ */
+export const createPublicHoliday = async (req: AuthRequest, res: Response) => {
+  const created = await PublicHolidayService.createPublicHoliday(req.body);
+  return success(res, created, "Public holiday added", 201);
+};
+
+export const deletePublicHoliday = async (req: AuthRequest, res: Response) => {
+  const deleted = await PublicHolidayService.deletePublicHoliday(req.params.id);
+  return success(res, deleted, "Public holiday removed");
+};
@@ -0,0 +1,49 @@
+// src/controllers/rateCard.controller.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { success } from "../utils/response";
+import * as RateCardService from "../services/rateCard.service";
+
+/**
+ * POST /api/rate-cards
+ * Body: { serviceCode, hourlyRateCents, kmRateCents?, effectiveFrom, effectiveTo?, trainerId?, participantId? }
+ */
+export const createRateCard = async (req: AuthRequest, res: Response) => {
+  const card = await RateCardService.createRateCard(req.body, req.user!.userId);
+  return success(res, card, "Rate card created", 201);
+};
+
+/**
+ * GET /api/rate-cards
+ * Query: ?serviceCode=&trainerId=&participantId=&active=&at=&page=&limit=
+ */
+export const listRateCards = async (req: AuthRequest, res: Response) => {
+  const { serviceCode, trainerId, participantId, active, at, page, limit } = req.query;
+
+  const result = await RateCardService.listRateCards({
+    serviceCode: serviceCode as string | undefined,
+    trainerId: trainerId as string | undefined,
+    participantId: participantId as string | undefined,
+    active: active === undefined ? undefined : active === "true",
+    at: at as string | undefined,
+    page: page ? Number(page) : undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return success(res, result, "Rate cards fetched");
+};
+
+export const getRateCard = async (req: AuthRequest, res: Response) => {
+  const card = await RateCardService.getRateCardById(req.params.id);
+  return success(res, card, "Rate card fetched");
+};
+
+export const updateRateCard = async (req: AuthRequest, res: Response) => {
+  const card = await RateCardService.updateRateCard(req.params.id, req.body, req.user!.userId);
+  return success(res, card, "Rate card updated");
+};
+
+export const deactivateRateCard = async (req: AuthRequest, res: Response) => {
+  const card = await RateCardService.deactivateRateCard(req.params.id, req.user!.userId);
+  return success(res, card, "Rate card deactivated");
+};
@@ -3,12 +3,15 @@ import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import { success } from "../utils/response";
 import * as ShiftRequestService from "../services/shiftRequest.service";
+import * as ShiftSeriesService from "../services/shiftSeries.service";
+import * as TrainerMatchingService from "../services/trainerMatching.service";
+import * as ShiftOfferService from "../services/shiftOffer.service";
 import { AppError } from "../utils/errors";
 
 /**
  * POST /api/shift-requests
  * Participant creates a new shift request
- * Body: { participantId, service, start, end, notes?, preferredTrainerIds?[] }
+ * Body: { participantId, service, start, end, notes?, preferredTrainerIds?[], allowConflicts? (admin) }
  */
 export const createShiftRequest = async (req: AuthRequest, res: Response) => {
   if (!req.user) {
@@ -26,6 +29,7 @@ export const createShiftRequest = async (req: AuthRequest, res: Response) => {
       end: req.body.end,
       notes: req.body.notes,
       preferredTrainerIds: req.body.preferredTrainerIds,
+      allowConflicts: req.body.allowConflicts === true || req.body.allowConflicts === "true",
     },
     req.user.role
   );
@@ -64,23 +68,32 @@ export const adminList = async (req: AuthRequest, res: Response) => {
 
 /**
  * POST /api/admin/shift-requests/approve
- * Body: { requestId, trainerId }
+ * Body: { requestId, trainerId, allowConflicts? }
+ * 409 with `errors.conflicts` when the trainer is already booked, unless allowConflicts is set.
+ * NDIS plan problems (ended plan, budget exceeded) come back in `data.budgetWarnings`.
  */
 export const approveAndAssign = async (req: AuthRequest, res: Response) => {
   if (req.user?.role !== "ADMIN") {
     throw new AppError("Forbidden", 403);
   }
 
-  const { requestId, trainerId } = req.body;
+  const { requestId, trainerId, allowConflicts } = req.body;
   const adminUserId = req.user.userId;
 
   const updated = await ShiftRequestService.approveAndAssign({
     requestId,
     trainerId,
     adminUserId,
+    allowConflicts: allowConflicts === true || allowConflicts === "true",
   });
 
-  return success(res, updated, "Shift request approved and assigned");
+  return success(
+    res,
+    updated,
+    updated.budgetWarnings?.length
+      ? "Shift request approved and offered to trainer (check plan budget warnings)"
+      : "Shift request approved and offered to trainer"
+  );
 };
 
 /**
@@ -100,6 +113,171 @@ export const decline = async (req: AuthRequest, res: Response) => {
   return success(res, updated, "Shift request declined");
 };
 
+/**
+ * GET /api/shifts/admin/:requestId/candidates
+ * Ranked trainer suggestions with a score breakdown
+ * Query: ?limit=
+ */
+export const adminCandidates = async (req: AuthRequest, res: Response) => {
+  if (req.user?.role !== "ADMIN") {
+    throw new AppError("Forbidden", 403);
+  }
+
+  const limit = req.query.limit ? Number(req.query.limit) : undefined;
+  const candidates = await TrainerMatchingService.getTrainerCandidates(req.params.requestId, {
+    limit: limit && limit > 0 ? Math.min(limit, 50) : undefined,
+  });
+
+  return success(res, candidates, "Trainer candidates fetched");
+};
+
+/**
+ * POST /api/shifts/participant/cancel
+ * Participant cancels their own PENDING_ADMIN/OFFERED/APPROVED request
+ * Body: { requestId, reason }
+ */
+export const cancelAsParticipant = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+  if (req.user.role !== "PARTICIPANT") throw new AppError("Forbidden", 403);
+
+  const { requestId, reason } = req.body;
+
+  const updated = await ShiftRequestService.cancelShiftRequest({
+    requestId,
+    reason,
+    actor: { id: req.user.userId, role: req.user.role },
+  });
+
+  return success(res, updated, "Shift request cancelled");
+};
+
+/**
+ * POST /api/shifts/admin/cancel
+ * Body: { requestId, reason, chargeFee? }
+ */
+export const cancelAsAdmin = async (req: AuthRequest, res: Response) => {
+  if (req.user?.role !== "ADMIN") {
+    throw new AppError("Forbidden", 403);
+  }
+
+  const { requestId, reason, chargeFee } = req.body;
+
+  const updated = await ShiftRequestService.cancelShiftRequest({
+    requestId,
+    reason,
+    chargeFee: chargeFee === true || chargeFee === "true",
+    actor: { id: req.user.userId, role: req.user.role },
+  });
+
+  return success(res, updated, "Shift request cancelled");
+};
+
+
+/**
+ * POST /api/shifts/series
+ * Participant (or admin on behalf of a participant) creates a recurring request
+ * Body: { participantId? (admin only), service, start, end, notes?, preferredTrainerIds?[],
+ *         recurrence: { frequency: WEEKLY|FORTNIGHTLY, weekdays?[], until?, count? } }
+ */
+export const createShiftSeries = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+
+  const participantId =
+    req.user.role === "ADMIN" && req.body.participantId ? req.body.participantId : req.user.userId;
+
+  const result = await ShiftSeriesService.createShiftSeries(
+    {
+      participantId,
+      requestedBy: req.user.userId,
+      service: req.body.service,
+      start: req.body.start,
+      end: req.body.end,
+      notes: req.body.notes,
+      preferredTrainerIds: req.body.preferredTrainerIds,
+      recurrence: req.body.recurrence,
+      allowConflicts: req.body.allowConflicts === true || req.body.allowConflicts === "true",
+    },
+    req.user.role
+  );
+
+  return success(res, result, "Recurring shift request submitted", 201);
+};
+
+/**
+ * GET /api/shifts/series/:seriesId
+ */
+export const getShiftSeries = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+
+  const result = await ShiftSeriesService.getShiftSeries(req.params.seriesId, {
+    id: req.user.userId,
+    role: req.user.role,
+  });
+
+  return success(res, result, "Shift series fetched");
+};
+
+/**
+ * POST /api/shifts/admin/series/:seriesId/approve
+ * Body: { trainerId, allowConflicts? }
+ */
+export const approveShiftSeries = async (req: AuthRequest, res: Response) => {
+  if (req.user?.role !== "ADMIN") {
+    throw new AppError("Forbidden", 403);
+  }
+
+  const result = await ShiftSeriesService.approveShiftSeries({
+    seriesId: req.params.seriesId,
+    trainerId: req.body.trainerId,
+    adminUserId: req.user.userId,
+    allowConflicts: req.body.allowConflicts === true || req.body.allowConflicts === "true",
+  });
+
+  return success(res, result, "Shift series approved and offered to trainer");
+};
+
+/**
+ * PATCH /api/shifts/series/:seriesId/occurrences/:requestId
+ * Body: { scope: THIS|FOLLOWING, start?, end?, service?, notes?, allowConflicts? (admin) }
+ * 409 with `errors.conflicts` when the new time overlaps, unless an admin sets allowConflicts.
+ */
+export const updateSeriesOccurrence = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+
+  const { scope, start, end, service, notes } = req.body;
+
+  const result = await ShiftSeriesService.updateSeriesOccurrence({
+    seriesId: req.params.seriesId,
+    requestId: req.params.requestId,
+    scope,
+    actor: { id: req.user.userId, role: req.user.role },
+    changes: { start, end, service, notes },
+    allowConflicts: req.body.allowConflicts === true || req.body.allowConflicts === "true",
+  });
+
+  return success(res, result, "Shift series updated");
+};
+
+/**
+ * POST /api/shifts/series/:seriesId/occurrences/:requestId/cancel
+ * Body: { scope: THIS|FOLLOWING, reason, chargeFee? (admin only) }
+ */
+export const cancelSeriesOccurrence = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+
+  const { scope, reason, chargeFee } = req.body;
+
+  const result = await ShiftSeriesService.cancelSeriesOccurrence({
+    seriesId: req.params.seriesId,
+    requestId: req.params.requestId,
+    scope,
+    reason,
+    chargeFee: req.user.role === "ADMIN" && (chargeFee === true || chargeFee === "true"),
+    actor: { id: req.user.userId, role: req.user.role },
+  });
+
+  return success(res, result, "Shift series cancelled");
+};
 
 // NEW: GET /api/shift-requests/participant/mine
 // List shift requests for the logged-in participant (by userId)
@@ -151,6 +329,40 @@ export const listTrainerMine = async (req: AuthRequest, res: Response) => {
   return success(res, result, "Trainer shift requests");
 };
 
+/**
+ * POST /api/shifts/trainer/offers/accept
+ * Trainer accepts a shift offered to them
+ * Body: { requestId }
+ */
+export const acceptShiftOffer = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+  if (req.user.role !== "TRAINER") throw new AppError("Forbidden", 403);
+
+  const updated = await ShiftOfferService.acceptShiftOffer({
+    requestId: req.body.requestId,
+    trainerUserId: req.user.userId,
+  });
+
+  return success(res, updated, "Shift offer accepted");
+};
+
+/**
+ * POST /api/shifts/trainer/offers/decline
+ * Body: { requestId, reason? }
+ */
+export const declineShiftOffer = async (req: AuthRequest, res: Response) => {
+  if (!req.user) throw new AppError("Unauthorized", 401);
+  if (req.user.role !== "TRAINER") throw new AppError("Forbidden", 403);
+
+  const updated = await ShiftOfferService.declineShiftOffer({
+    requestId: req.body.requestId,
+    trainerUserId: req.user.userId,
+    reason: req.body.reason,
+  });
+
+  return success(res, updated, "Shift offer declined");
+};
+
 // NEW: GET /api/shift-requests/mine
 // Smart router: participant → listForParticipant, trainer → listForTrainer
 export const listMine = async (req: AuthRequest, res: Response) => {
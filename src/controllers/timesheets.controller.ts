@@ -26,23 +26,33 @@ export const getTimesheetById = async (req: any, res: Response) => {
 
 export const submitTimesheet = async (req: any, res: Response) => {
   const { id } = req.params;
-  const ts = await TimesheetSvc.submitTimesheet({ id, trainerUserId: req.user.userId });
+  const actor = { id: req.user.userId, role: req.user.role };
+  const ts = await TimesheetSvc.submitTimesheet({ id, actor });
   res.json({ success: true, message: "Timesheet submitted", data: ts });
 };
 
 export const approveTimesheet = async (req: any, res: Response) => {
   const { id } = req.params;
-  const ts = await TimesheetSvc.approveTimesheet({ id, adminUserId: req.user.userId });
+  const actor = { id: req.user.userId, role: req.user.role };
+  const ts = await TimesheetSvc.approveTimesheet({ id, actor });
   res.json({ success: true, message: "Timesheet approved", data: ts });
 };
 
 export const reopenTimesheet = async (req: any, res: Response) => {
   const { id } = req.params;
   const { reason } = req.body ?? {};
-  const ts = await TimesheetSvc.reopenTimesheet({ id, adminUserId: req.user.userId, reason });
+  const actor = { id: req.user.userId, role: req.user.role };
+  const ts = await TimesheetSvc.reopenTimesheet({ id, actor, reason });
   res.json({ success: true, message: "Timesheet reopened", data: ts });
 };
 
+export const getTimesheetHistory = async (req: any, res: Response) => {
+  const { id } = req.params;
+  const viewer = { id: req.user.userId, role: req.user.role };
+  const result = await TimesheetSvc.getTimesheetHistory({ id, viewer });
+  res.json({ success: true, data: result });
+};
+
 export const exportTimesheet = async (req: any, res: Response) => {
   const { id } = req.params;
   const { format = "csv" } = req.query;
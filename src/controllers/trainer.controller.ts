@@ -8,44 +8,21 @@ import {
   trainerStep5Schema, // 🔹 import
 } from "../validators/trainer.validators";
 import * as TrainerService from "../services/trainer.service";
+import * as AgreementService from "../services/agreement.service";
+import { accessContext } from "./file.controller";
 import { ValidationError, AppError } from "../utils/errors";
 import { success } from "../utils/response";
-
-// config
-const MAX_SIZE_MB = 10;
-const ACCEPTED_TYPES = ["image/jpeg", "image/png", "application/pdf"];
+import { deleteUpload } from "../utils/storage";
+import { IncomingUpload, storeScannedUploads } from "../services/upload.service";
 
 import { z } from "zod";
 
 export const upsertTrainer = async (req: any, res: Response) => {
-  // ✅ Validate uploaded docs if present
-  if (req.files && Object.keys(req.files).length > 0) {
-    req.body.documents = {};
-
-    for (const [key, files] of Object.entries(req.files)) {
-      const file = (files as Express.Multer.File[])[0];
-
-      if (!ACCEPTED_TYPES.includes(file.mimetype)) {
-        throw new AppError(
-          `Invalid file type for ${key}. Only JPG, PNG, PDF allowed.`,
-          400
-        );
-      }
-
-      if (file.size > MAX_SIZE_MB * 1024 * 1024) {
-        throw new AppError(
-          `File too large for ${key}. Max ${MAX_SIZE_MB} MB allowed.`,
-          400
-        );
-      }
-
-      req.body.documents[key] = {
-        filePath: `/uploads/documents/${file.filename}`,
-        originalName: file.originalname,
-        expiry: req.body[`${key}Expiry`] || null,
-      };
-    }
-  }
+  // Uploaded docs are checked, scanned and stored once the rest of the payload is valid
+  const uploads = Object.values((req.files || {}) as Record<string, IncomingUpload[]>).map(
+    (files) => files[0]
+  );
+  delete req.body.documents; // document entries only ever come from uploaded files
 
   // 🔹 Parse JSON fields if they come as strings from FormData
   try {
@@ -81,7 +58,6 @@ export const upsertTrainer = async (req: any, res: Response) => {
       travelAreas: req.body.travelAreas,
       specialisations: req.body.specialisations,
       availability: req.body.availability,
-      documents: req.body.documents, // allow doc uploads from profile
       signup: "completed",
     };
 
@@ -94,7 +70,6 @@ export const upsertTrainer = async (req: any, res: Response) => {
       travelAreas: z.array(z.string().trim().min(1)).optional(),
       specialisations: z.array(z.string().trim().min(1)).optional(),
       availability: z.record(z.string(), z.array(Slot)).optional(),
-      documents: z.record(z.any()).optional(),
       signup: z.literal("completed"),
     });
 
@@ -130,12 +105,35 @@ export const upsertTrainer = async (req: any, res: Response) => {
     payload = parsed.data;
   }
 
-  const result = await TrainerService.upsertTrainerProfile(
-    req.user?.userId || req.body?.userId || null,
-    payload,
-    // Optional: pass a flag so service avoids bumping onboardingStep in "completed" mode
-    // { ignoreStep: isSignupCompleted }
-  );
+  const userId = req.user?.userId || req.body?.userId || null;
+
+  const stored = await storeScannedUploads("documents", uploads, { userId });
+  if (stored.length > 0) {
+    payload.documents = {};
+    for (const file of stored) {
+      payload.documents[file.field] = {
+        filePath: file.filePath,
+        originalName: file.originalName,
+        expiry: req.body[`${file.field}Expiry`] || null,
+        status: "SUBMITTED", // awaits admin review
+        submittedAt: new Date(),
+      };
+    }
+  }
+
+  let result;
+  try {
+    result = await TrainerService.upsertTrainerProfile(
+      userId,
+      payload,
+      // Optional: pass a flag so service avoids bumping onboardingStep in "completed" mode
+      // { ignoreStep: isSignupCompleted }
+    );
+  } catch (err) {
+    // Don't leave files behind for a rejected update
+    await Promise.allSettled(stored.map((file) => deleteUpload(file.filePath)));
+    throw err;
+  }
 
   return success(
     res,
@@ -156,6 +154,11 @@ export const getTrainer = async (req: any, res: Response) => {
   return success(res, trainer, "Trainer profile fetched successfully");
 };
 
+export const updateBankDetails = async (req: any, res: Response) => {
+  const trainer = await TrainerService.updateBankDetails(req.user.userId, req.body);
+  return success(res, trainer, "Bank details updated successfully");
+};
+
 export const getAllTrainers = async (
   req: Request,
   res: Response
@@ -183,3 +186,33 @@ export const updateTrainerStatus = async (req: Request, res: Response) => {
 
   return success(res, user, "Trainer status updated successfully");
 };
+
+export const downloadMyAgreement = async (req: any, res: Response) => {
+  const { filename, mime, buffer, contentHash } = await AgreementService.getSignedAgreementPdf(
+    req.user.userId,
+    "TRAINER",
+    accessContext(req)
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  if (contentHash) res.setHeader("X-Content-SHA256", contentHash);
+  res.send(buffer);
+};
+
+export const downloadTrainerAgreement = async (req: any, res: Response) => {
+  const { filename, mime, buffer, contentHash } = await AgreementService.getSignedAgreementPdf(
+    req.params.userId,
+    "TRAINER",
+    accessContext(req)
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Content-Type", mime);
+  if (contentHash) res.setHeader("X-Content-SHA256", contentHash);
+  res.send(buffer);
+};
+
+// PUT /api/trainer/me/agreement — re-accept after the agreement version changes
+export const acceptAgreement = async (req: any, res: Response) => {
+  const agreement = await TrainerService.acceptTrainerAgreement(req.user.userId, req.body);
+  return success(res, agreement, "Agreement accepted");
+};
@@ -7,8 +7,8 @@ import healthRouter from "./routes/health";
 import { errorHandler } from "./middleware/errorHandler";
 import routes from './routes'
 import { connectDB } from "./utils/mongoose";
-import path from "path";
 import cookieParser from "cookie-parser";
+import { startJobs } from "./jobs";
 
 
 
@@ -51,11 +51,13 @@ app.get("/", (_, res) => {
   res.send("CareLink API is running 🚀");
 });
 
-// serve static uploads
-app.use("/uploads", express.static(path.join(__dirname, "../uploads")));
+// Uploads are private: served only through /api/files (owner/admin or a signed link)
 
 connectDB();
 
+// Background jobs (auto clock-out, ...)
+startJobs();
+
 // Centralized routes
 app.use("/api", routes);
 
@@ -73,4 +75,9 @@ app.use(errorHandler);
 // Start server
 app.listen(ENV.PORT, () => {
   console.log(`⚡️ Server running in ${ENV.NODE_ENV} on http://localhost:${ENV.PORT}`);
+  if (ENV.NODE_ENV === "production" && ENV.MALWARE_SCANNER !== "clamav") {
+    console.warn(
+      `⚠️ MALWARE_SCANNER is "${ENV.MALWARE_SCANNER}" in production: uploads are not scanned by ClamAV`
+    );
+  }
 });
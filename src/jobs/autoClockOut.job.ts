@@ -0,0 +1,135 @@
+// src/jobs/autoClockOut.job.ts
+import { format } from "date-fns";
+import { ENV } from "../config/env";
+import { Shift } from "../models/shift.model";
+import { Trainer } from "../models/trainer.model";
+import { Participant } from "../models/participant.model";
+import { autoClockOutShift } from "../services/shiftRequest.service";
+import { notifyAdmins } from "../services/notification.service";
+import { escapeHtml, sendEmail } from "../utils/email";
+import { ConflictError } from "../utils/errors";
+
+// Failed shifts are retried after interval × 2^(attempts - 1), capped at a day
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Complete IN_PROGRESS shifts whose plannedClockOut + grace period has passed.
+ * Shifts that fail are backed off (and admins told on the first failure) so they can't
+ * starve newer overdue shifts out of the batch. A ConflictError (e.g. the week is already
+ * PAID) won't clear by itself, so those shifts are held for an admin instead of retried.
+ */
+export const runAutoClockOut = async () => {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - ENV.AUTO_CLOCK_OUT_GRACE_MINUTES * 60000);
+
+  const overdue = await Shift.find({
+    status: "IN_PROGRESS",
+    plannedClockOut: { $lte: cutoff },
+    autoCloseHeldAt: null,
+    $or: [{ autoCloseNextAttemptAt: null }, { autoCloseNextAttemptAt: { $lte: now } }],
+  })
+    .select("_id autoCloseAttempts")
+    .sort({ plannedClockOut: 1 })
+    .limit(100)
+    .lean();
+
+  for (const { _id, autoCloseAttempts } of overdue) {
+    try {
+      const result = await autoClockOutShift(_id);
+      if (result) await notifyAutoClosed(result.shift);
+    } catch (err: any) {
+      console.error(`❌ Auto clock-out failed for shift ${_id}:`, err);
+      await recordAutoCloseFailure(_id, (autoCloseAttempts ?? 0) + 1, err);
+    }
+  }
+};
+
+const recordAutoCloseFailure = async (shiftId: any, attempts: number, err: any) => {
+  const backoffMs = Math.min(
+    ENV.AUTO_CLOCK_OUT_INTERVAL_MINUTES * 60000 * 2 ** (attempts - 1),
+    MAX_BACKOFF_MS
+  );
+  const message = String(err?.message || err);
+  const held = err instanceof ConflictError;
+
+  try {
+    await Shift.updateOne(
+      { _id: shiftId, status: "IN_PROGRESS" },
+      {
+        $set: {
+          autoCloseAttempts: attempts,
+          autoCloseLastError: message,
+          autoCloseNextAttemptAt: held ? null : new Date(Date.now() + backoffMs),
+          autoCloseHeldAt: held ? new Date() : null,
+        },
+      }
+    );
+  } catch (e) {
+    console.error(`❌ Failed to record auto clock-out failure for shift ${shiftId}:`, e);
+  }
+
+  if (attempts === 1 || held) {
+    await notifyAdmins(
+      "Shift Auto Clock-Out Failed ⚠️",
+      `
+        <p>An overdue shift could not be clocked out automatically and needs attention.</p>
+        <p><b>Shift ID:</b> ${shiftId}</p>
+        <p><b>Error:</b> ${escapeHtml(message)}</p>
+        <p>${
+          held
+            ? "Retrying will not fix this, so it will <b>not</b> be retried. Please close the shift manually."
+            : "It will be retried with increasing delays."
+        }</p>
+      `
+    );
+  }
+};
+
+const notifyAutoClosed = async (shift: any) => {
+  const [trainer, participant] = await Promise.all([
+    Trainer.findById(shift.trainerId)
+      .select("fullName userId")
+      .populate({ path: "userId", select: "email", model: "User" })
+      .lean(),
+    Participant.findOne({ userId: shift.participantId }).select("fullName").lean(),
+  ]);
+
+  const trainerEmail = (trainer as any)?.userId?.email as string | undefined;
+  const when = shift.scheduledStart
+    ? format(new Date(shift.scheduledStart), "EEEE, MMM d yyyy hh:mm a")
+    : "N/A";
+
+  const shiftInfo = `
+    <p><b>Service:</b> ${shift.service || "N/A"}</p>
+    <p><b>Scheduled:</b> ${when}</p>
+    <p><b>Participant:</b> ${participant?.fullName || "N/A"}</p>
+  `;
+
+  if (trainerEmail) {
+    try {
+      await sendEmail(
+        trainerEmail,
+        "Your Shift Was Clocked Out Automatically ⏰",
+        `
+          <p>Hello ${trainer?.fullName || "Trainer"},</p>
+          <p>You did not clock out of the shift below, so it was <b>closed automatically</b> at the scheduled finish time.</p>
+          ${shiftInfo}
+          <p>Please add your shift notes and kilometres from your CareLink dashboard, or contact your admin if the times are wrong.</p>
+          <p>Best regards,<br/>CareLink Team</p>
+        `
+      );
+    } catch (err) {
+      console.error("❌ Failed to send auto clock-out email:", err);
+    }
+  }
+
+  await notifyAdmins(
+    "Shift Auto-Closed ⏰",
+    `
+      <p>A shift was <b>auto-closed</b> because the trainer did not clock out.</p>
+      <p><b>Trainer:</b> ${trainer?.fullName || "N/A"} ${trainerEmail ? `(${trainerEmail})` : ""}</p>
+      ${shiftInfo}
+      <p><b>Shift ID:</b> ${shift._id}</p>
+    `
+  );
+};
@@ -0,0 +1,66 @@
+// src/jobs/complianceReminder.job.ts
+import { User } from "../models/user.model";
+import { findDueReminders, markReminderSent, DueReminder } from "../services/compliance.service";
+import { notifyAdmins } from "../services/notification.service";
+import { escapeHtml, sendEmail } from "../utils/email";
+
+/**
+ * Email trainers and admins as compliance documents approach expiry (60/30/7 days by default)
+ * and once when they lapse.
+ */
+export const runComplianceReminders = async () => {
+  const due = await findDueReminders();
+
+  for (const reminder of due) {
+    try {
+      await notifyReminder(reminder);
+      await markReminderSent(reminder);
+    } catch (err) {
+      console.error(
+        `❌ Compliance reminder failed for trainer ${reminder.trainerId} (${reminder.document.key}):`,
+        err
+      );
+    }
+  }
+};
+
+const notifyReminder = async ({ userId, trainerId, fullName, document, daysBefore }: DueReminder) => {
+  const user = await User.findById(userId).select("email").lean();
+  const lapsed = daysBefore === 0;
+  const when = lapsed
+    ? `expired on <b>${document.expiry}</b>`
+    : `expires on <b>${document.expiry}</b> (in ${document.daysRemaining} day${
+        document.daysRemaining === 1 ? "" : "s"
+      })`;
+  const blocking = document.mandatory
+    ? "<p>This check is mandatory: without a current copy you cannot be assigned shifts or clock in.</p>"
+    : "";
+
+  if (user?.email) {
+    try {
+      await sendEmail(
+        user.email,
+        lapsed ? `Your ${document.label} Has Expired ⚠️` : `Your ${document.label} Expires Soon 📅`,
+        `
+          <p>Hello ${escapeHtml(fullName || "Trainer")},</p>
+          <p>Your <b>${document.label}</b> ${when}.</p>
+          ${blocking}
+          <p>Please upload the renewed document from your CareLink profile.</p>
+          <p>Best regards,<br/>CareLink Team</p>
+        `
+      );
+    } catch (err) {
+      console.error("❌ Failed to send compliance reminder email:", err);
+    }
+  }
+
+  await notifyAdmins(
+    lapsed ? "Trainer Compliance Lapsed ⚠️" : "Trainer Document Expiring 📅",
+    `
+      <p><b>Trainer:</b> ${escapeHtml(fullName || "N/A")} ${user?.email ? `(${escapeHtml(user.email)})` : ""}</p>
+      <p><b>Document:</b> ${document.label}${document.mandatory ? " (mandatory)" : ""}</p>
+      <p>The document ${when}.</p>
+      <p><b>Trainer ID:</b> ${trainerId}</p>
+    `
+  );
+};
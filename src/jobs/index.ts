@@ -0,0 +1,16 @@
+// src/jobs/index.ts
+import { ENV } from "../config/env";
+import { registerJob, startJobs } from "./scheduler";
+import { runAutoClockOut } from "./autoClockOut.job";
+import { runOfferExpiry } from "./offerExpiry.job";
+import { runComplianceReminders } from "./complianceReminder.job";
+
+registerJob("auto-clock-out", ENV.AUTO_CLOCK_OUT_INTERVAL_MINUTES * 60000, runAutoClockOut);
+registerJob("offer-expiry", ENV.OFFER_EXPIRY_INTERVAL_MINUTES * 60000, runOfferExpiry);
+registerJob(
+  "compliance-reminders",
+  ENV.COMPLIANCE_REMINDER_INTERVAL_MINUTES * 60000,
+  runComplianceReminders
+);
+
+export { startJobs };
@@ -0,0 +1,25 @@
+// src/jobs/offerExpiry.job.ts
+import { ShiftRequest } from "../models/shiftRequest.model";
+import { expireShiftOffer } from "../services/shiftOffer.service";
+
+/**
+ * Withdraw trainer offers that passed their expiresAt without an answer.
+ */
+export const runOfferExpiry = async () => {
+  const expired = await ShiftRequest.find({
+    status: "OFFERED",
+    "offer.expiresAt": { $lte: new Date() },
+  })
+    .select("_id")
+    .sort({ "offer.expiresAt": 1 })
+    .limit(100)
+    .lean();
+
+  for (const { _id } of expired as any[]) {
+    try {
+      await expireShiftOffer(_id);
+    } catch (err) {
+      console.error(`❌ Offer expiry failed for request ${_id}:`, err);
+    }
+  }
+};
@@ -0,0 +1,51 @@
+// src/jobs/scheduler.ts
+import { ENV } from "../config/env";
+
+/**
+ * Minimal in-process scheduler.
+ * Each job runs on a fixed interval; a run is skipped if the previous one is still going.
+ */
+type Job = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  running: boolean;
+  timer?: NodeJS.Timeout;
+};
+
+const jobs: Job[] = [];
+
+export const registerJob = (name: string, intervalMs: number, run: () => Promise<void>) => {
+  jobs.push({ name, intervalMs, run, running: false });
+};
+
+const tick = async (job: Job) => {
+  if (job.running) return;
+  job.running = true;
+  try {
+    await job.run();
+  } catch (err) {
+    console.error(`❌ Job "${job.name}" failed:`, err);
+  } finally {
+    job.running = false;
+  }
+};
+
+export const startJobs = () => {
+  if (!ENV.JOBS_ENABLED) {
+    console.log("⏸️  Background jobs disabled (JOBS_ENABLED=false)");
+    return;
+  }
+  for (const job of jobs) {
+    job.timer = setInterval(() => void tick(job), job.intervalMs);
+    job.timer.unref();
+    console.log(`⏱️  Job "${job.name}" every ${Math.round(job.intervalMs / 1000)}s`);
+  }
+};
+
+export const stopJobs = () => {
+  for (const job of jobs) {
+    if (job.timer) clearInterval(job.timer);
+    job.timer = undefined;
+  }
+};
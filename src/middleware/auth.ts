@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AppError } from "../utils/errors";
+import { User } from "../models/user.model";
+import { isSessionActive } from "../services/session.service";
 
 const JWT_SECRET = process.env.JWT_SECRET || "super-secret-key";
 
@@ -8,10 +10,11 @@ export interface AuthRequest extends Request {
   user?: {
     userId: string;
     role: "PARTICIPANT" | "TRAINER" | "ADMIN";
+    sessionId?: string;
   };
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   let token: string | null = null;
 
   // 🔹 Get token from Authorization header: "Bearer <token>"
@@ -28,13 +31,33 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
     throw new AppError("Not authorized, no token provided", 401);
   }
 
+  let decoded: { userId: string; role: string; tv?: number; sid?: string };
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; role: string };
-    req.user = { userId: decoded.userId, role: decoded.role as any };
-    next();
+    decoded = jwt.verify(token, JWT_SECRET) as { userId: string; role: string; tv?: number; sid?: string };
   } catch (err) {
     throw new AppError("Not authorized, invalid token", 401);
   }
+
+  // Access tokens are only good while their session is live (logout, logout-everywhere,
+  // blocking the account and password changes all end sessions) and the account is usable.
+  // Tokens issued before the user's last password change are no longer valid either.
+  if (!decoded.sid) throw new AppError("Not authorized, session has expired", 401);
+  const [user, sessionActive] = await Promise.all([
+    User.findById(decoded.userId).select("tokenVersion status").lean(),
+    isSessionActive(decoded.sid, decoded.userId),
+  ]);
+  if (
+    !user ||
+    !sessionActive ||
+    user.status === "BLOCKED" ||
+    user.status === "DELETED" ||
+    (decoded.tv ?? 0) !== (user.tokenVersion ?? 0)
+  ) {
+    throw new AppError("Not authorized, session has expired", 401);
+  }
+
+  req.user = { userId: decoded.userId, role: decoded.role as any, sessionId: decoded.sid };
+  next();
 };
 
 // Optional role-based authorization
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { AppError } from "../utils/errors";
+import { ENV } from "../config/env";
 
 export function errorHandler(err: any, req: Request, res: Response, _next: NextFunction) {
   // You can add winston/pino logger here
@@ -13,6 +14,18 @@ export function errorHandler(err: any, req: Request, res: Response, _next: NextF
     });
   }
 
+  // Upload limits enforced by multer (middleware/upload.ts)
+  if (err?.name === "MulterError") {
+    const tooLarge = err.code === "LIMIT_FILE_SIZE";
+    return res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      message: tooLarge
+        ? `File too large for ${err.field}. Max ${ENV.UPLOAD_MAX_MB} MB allowed.`
+        : err.message,
+      errors: err.field ? [{ field: err.field, message: err.message }] : null,
+    });
+  }
+
   return res.status(500).json({
     success: false,
     message: "Internal Server Error",
@@ -1,25 +1,16 @@
 import multer from "multer";
 import path from "path";
-import fs from "fs";
+import { ENV } from "../config/env";
 
-// Ensure uploads folder exists
-const uploadDir = path.join(__dirname, "../../uploads/documents");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Multer config
-const storage = multer.diskStorage({
-  destination: function (_req, _file, cb) {
-    cb(null, uploadDir);
-  },
-  filename: function (_req, file, cb) {
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    cb(
-      null,
-      file.fieldname + "-" + uniqueSuffix + path.extname(file.originalname)
-    );
-  },
+// Files are kept in memory and written through utils/storage (local disk or S3) by the controller.
+// Oversized files are rejected while streaming, so nothing is ever stored for them.
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ENV.UPLOAD_MAX_MB * 1024 * 1024 },
 });
 
-export const upload = multer({ storage });
+/** Unique stored name for an uploaded file, e.g. "wwcc-1718000000000-123456789.pdf" */
+export const uploadFileName = (file: { fieldname: string; originalname: string }, ext?: string) => {
+  const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+  return file.fieldname + "-" + uniqueSuffix + (ext ?? path.extname(file.originalname));
+};
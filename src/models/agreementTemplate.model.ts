@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type AgreementAudience = "PARTICIPANT" | "TRAINER";
+export const AGREEMENT_AUDIENCES: AgreementAudience[] = ["PARTICIPANT", "TRAINER"];
+
+/**
+ * AgreementTemplate
+ * Admin-managed terms users sign during onboarding. The current version for an audience is the
+ * latest active template whose effectiveFrom has passed. Wording is frozen once a template takes
+ * effect, so the version stored on a profile always identifies the exact terms signed.
+ */
+export interface IAgreementTemplate extends Document {
+  audience: AgreementAudience;
+  version: string;                // e.g. "2025-07"; unique per audience
+  title: string;
+  body: string;                   // full terms (markdown)
+  bodySha256: string;             // hash of body, carried into signed agreements
+
+  effectiveFrom: Date;
+  active: boolean;                // false = withdrawn before taking effect / superseded by mistake
+
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgreementTemplateSchema = new Schema<IAgreementTemplate>(
+  {
+    audience: { type: String, enum: AGREEMENT_AUDIENCES, required: true },
+    version: { type: String, required: true, trim: true },
+    title: { type: String, required: true, trim: true },
+    body: { type: String, required: true },
+    bodySha256: { type: String, required: true },
+
+    effectiveFrom: { type: Date, required: true },
+    active: { type: Boolean, default: true },
+
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+AgreementTemplateSchema.index({ audience: 1, version: 1 }, { unique: true });
+/** Current-version lookup */
+AgreementTemplateSchema.index({ audience: 1, active: 1, effectiveFrom: -1 });
+
+export const AgreementTemplate = mongoose.model<IAgreementTemplate>(
+  "AgreementTemplate",
+  AgreementTemplateSchema
+);
@@ -0,0 +1,40 @@
+// models/authToken.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * AuthToken
+ * Single-use link tokens emailed to users:
+ *  - SET_PASSWORD:   "create login" invite for a new account
+ *  - RESET_PASSWORD: "forgot password"
+ * Only the SHA-256 of the token is stored; the raw value exists only in the email link.
+ */
+export type AuthTokenType = "SET_PASSWORD" | "RESET_PASSWORD";
+
+export interface IAuthToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;    // set when redeemed or superseded by a newer token
+  requestedIp?: string | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthTokenSchema = new Schema<IAuthToken>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    type: { type: String, enum: ["SET_PASSWORD", "RESET_PASSWORD"], required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    requestedIp: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+// Expired tokens are dropped by MongoDB a day after expiry
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const AuthToken = mongoose.model<IAuthToken>("AuthToken", AuthTokenSchema);
@@ -0,0 +1,80 @@
+// models/claimLine.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+import { RATE_BANDS, RateBand } from "../utils/ndis-pricing";
+
+/**
+ * ClaimLine
+ * One NDIA bulk payment request row: a completed shift's time in one rate band, claimed
+ * against that band's NDIS support item. Lines move DRAFT → SUBMITTED → PAID | REJECTED;
+ * a REJECTED line can be put back to DRAFT and claimed again in a later batch.
+ */
+export type ClaimStatus = "DRAFT" | "SUBMITTED" | "PAID" | "REJECTED";
+export const CLAIM_STATUSES: ClaimStatus[] = ["DRAFT", "SUBMITTED", "PAID", "REJECTED"];
+
+export interface IClaimLine extends Document {
+  shiftId: mongoose.Types.ObjectId;
+  shiftRequestId?: mongoose.Types.ObjectId | null;
+  participantId: mongoose.Types.ObjectId;   // participant User._id
+  trainerId: mongoose.Types.ObjectId;       // Trainer._id
+  fundingType: "plan" | "ndia";
+
+  ndisNumber: string;
+  supportItemNumber: string;
+  rateBand: RateBand;
+  supportsDeliveredFrom: string;            // YYYY-MM-DD in the participant's state
+  supportsDeliveredTo: string;
+  quantity: number;                         // hours, 2 dp
+  unitPriceCents: number;
+  totalCents: number;
+  claimReference: string;                   // unique, max 50 chars (NDIA rule)
+
+  status: ClaimStatus;
+  batchRef?: string | null;                 // bulk file the line was submitted in
+  submittedAt?: Date | null;
+  paidAt?: Date | null;
+  paidAmountCents?: number | null;
+  rejectedAt?: Date | null;
+  rejectionReason?: string | null;
+
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClaimLineSchema = new Schema<IClaimLine>(
+  {
+    shiftId: { type: Schema.Types.ObjectId, ref: "Shift", required: true },
+    shiftRequestId: { type: Schema.Types.ObjectId, ref: "ShiftRequest", default: null },
+    participantId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", required: true },
+    fundingType: { type: String, enum: ["plan", "ndia"], required: true },
+
+    ndisNumber: { type: String, required: true },
+    supportItemNumber: { type: String, required: true },
+    rateBand: { type: String, enum: RATE_BANDS, required: true },
+    supportsDeliveredFrom: { type: String, required: true },
+    supportsDeliveredTo: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unitPriceCents: { type: Number, required: true, min: 0 },
+    totalCents: { type: Number, required: true, min: 0 },
+    claimReference: { type: String, required: true, unique: true, maxlength: 50 },
+
+    status: { type: String, enum: CLAIM_STATUSES, default: "DRAFT", index: true },
+    batchRef: { type: String, default: null, index: true },
+    submittedAt: { type: Date, default: null },
+    paidAt: { type: Date, default: null },
+    paidAmountCents: { type: Number, default: null },
+    rejectedAt: { type: Date, default: null },
+    rejectionReason: { type: String, default: null },
+
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+/** A shift is claimed once per band */
+ClaimLineSchema.index({ shiftId: 1, rateBand: 1 }, { unique: true });
+
+export const ClaimLine = mongoose.model<IClaimLine>("ClaimLine", ClaimLineSchema);
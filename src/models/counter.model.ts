@@ -0,0 +1,18 @@
+// models/counter.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Counter
+ * Named monotonically increasing sequences (e.g. "invoice"), incremented atomically with $inc.
+ */
+export interface ICounter extends Document<string> {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+});
+
+export const Counter = mongoose.model<ICounter>("Counter", CounterSchema);
@@ -0,0 +1,46 @@
+// models/fileAccessLog.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * FileAccessLog
+ * One row per attempt to read a private upload (documents, signatures, agreement PDFs) or to
+ * issue a signed link for one, allowed or not.
+ */
+export type FileAccessAction = "DOWNLOAD" | "ISSUE_LINK";
+export type FileAccessVia = "SESSION" | "SIGNED_URL";
+
+export interface IFileAccessLog extends Document {
+  path: string;                                     // stored path, e.g. /uploads/documents/wwcc-123.pdf
+  ownerUserId?: mongoose.Types.ObjectId | null;     // User the file belongs to (null = unknown)
+  viewerUserId?: mongoose.Types.ObjectId | null;    // logged-in user, or the user a signed link was issued to
+  viewerRole?: string | null;
+  action: FileAccessAction;
+  via: FileAccessVia;
+  allowed: boolean;
+  reason?: string | null;                           // why access was refused
+  ip?: string | null;
+  userAgent?: string | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FileAccessLogSchema = new Schema<IFileAccessLog>(
+  {
+    path: { type: String, required: true, index: true },
+    ownerUserId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
+    viewerUserId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
+    viewerRole: { type: String, default: null },
+    action: { type: String, enum: ["DOWNLOAD", "ISSUE_LINK"], required: true },
+    via: { type: String, enum: ["SESSION", "SIGNED_URL"], required: true },
+    allowed: { type: Boolean, required: true },
+    reason: { type: String, default: null },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+FileAccessLogSchema.index({ createdAt: -1 });
+
+export const FileAccessLog = mongoose.model<IFileAccessLog>("FileAccessLog", FileAccessLogSchema);
@@ -0,0 +1,129 @@
+// models/invoice.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+import { RATE_BANDS, RateBand } from "../utils/ndis-pricing";
+
+/**
+ * Invoice
+ * Completed shifts for one participant over a billing period. DRAFT invoices can be edited and
+ * have no number; issuing assigns the next invoice number and emails the PDF to the plan
+ * manager (plan-managed) or the participant. Each shift sits on at most one non-VOID invoice.
+ */
+export type InvoiceStatus = "DRAFT" | "ISSUED" | "PAID" | "VOID";
+export const INVOICE_STATUSES: InvoiceStatus[] = ["DRAFT", "ISSUED", "PAID", "VOID"];
+
+// P1 = taxable (GST applies), P2 = GST-free (NDIS supports provided under a plan)
+export type GstCode = "P1" | "P2";
+
+export interface IInvoiceLine {
+  _id?: mongoose.Types.ObjectId;
+  kind: "SERVICE" | "TRAVEL";
+  shiftId: mongoose.Types.ObjectId;
+  date: string;                 // YYYY-MM-DD in the participant's state
+  description: string;
+  supportItemNumber?: string;
+  rateBand?: RateBand;
+  quantity: number;             // hours (SERVICE) or km (TRAVEL)
+  unitPriceCents: number;
+  gstCode: GstCode;
+  amountCents: number;          // ex GST
+  gstCents: number;
+}
+
+export interface IInvoice extends Document {
+  invoiceNumber?: string | null;
+  status: InvoiceStatus;
+
+  participantId: mongoose.Types.ObjectId;   // participant User._id
+  participantName?: string;
+  ndisNumber?: string;
+  fundingType: "plan" | "self" | "ndia";
+  billTo: {
+    type: "PLAN_MANAGER" | "PARTICIPANT";
+    name?: string;
+    email?: string;
+  };
+
+  periodStart: Date;
+  periodEnd: Date;
+  shiftIds: mongoose.Types.ObjectId[];
+  lines: IInvoiceLine[];
+  subtotalCents: number;
+  gstCents: number;
+  totalCents: number;
+  notes?: string;
+
+  issuedAt?: Date | null;
+  dueDate?: Date | null;
+  emailedAt?: Date | null;
+  emailedTo?: string | null;
+  paidAt?: Date | null;
+  voidedAt?: Date | null;
+  voidReason?: string | null;
+
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvoiceLineSchema = new Schema<IInvoiceLine>({
+  kind: { type: String, enum: ["SERVICE", "TRAVEL"], default: "SERVICE" },
+  shiftId: { type: Schema.Types.ObjectId, ref: "Shift", required: true },
+  date: { type: String, required: true },
+  description: { type: String, required: true },
+  supportItemNumber: String,
+  rateBand: { type: String, enum: RATE_BANDS },
+  quantity: { type: Number, required: true, min: 0 },
+  unitPriceCents: { type: Number, required: true, min: 0 },
+  gstCode: { type: String, enum: ["P1", "P2"], default: "P2" },
+  amountCents: { type: Number, required: true, min: 0 },
+  gstCents: { type: Number, default: 0, min: 0 },
+});
+
+const InvoiceSchema = new Schema<IInvoice>(
+  {
+    // unique only once assigned (drafts have no number)
+    invoiceNumber: { type: String, default: null },
+    status: { type: String, enum: INVOICE_STATUSES, default: "DRAFT", index: true },
+
+    participantId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    participantName: String,
+    ndisNumber: String,
+    fundingType: { type: String, enum: ["plan", "self", "ndia"], required: true },
+    billTo: {
+      type: { type: String, enum: ["PLAN_MANAGER", "PARTICIPANT"], required: true },
+      name: String,
+      email: String,
+    },
+
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    shiftIds: [{ type: Schema.Types.ObjectId, ref: "Shift" }],
+    lines: { type: [InvoiceLineSchema], default: [] },
+    subtotalCents: { type: Number, default: 0 },
+    gstCents: { type: Number, default: 0 },
+    totalCents: { type: Number, default: 0 },
+    notes: String,
+
+    issuedAt: { type: Date, default: null },
+    dueDate: { type: Date, default: null },
+    emailedAt: { type: Date, default: null },
+    emailedTo: { type: String, default: null },
+    paidAt: { type: Date, default: null },
+    voidedAt: { type: Date, default: null },
+    voidReason: { type: String, default: null },
+
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+InvoiceSchema.index(
+  { invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: "string" } } }
+);
+/** "Is this shift already invoiced?" lookups */
+InvoiceSchema.index({ shiftIds: 1, status: 1 });
+
+export const Invoice = mongoose.model<IInvoice>("Invoice", InvoiceSchema);
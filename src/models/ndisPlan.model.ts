@@ -0,0 +1,79 @@
+// models/ndisPlan.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * NdisPlan
+ * A participant's NDIS plan: its dates and a budget per support category (the two-digit
+ * prefix of the NDIS support item number, e.g. "01" Assistance with Daily Life, "04"
+ * Assistance with Social, Economic and Community Participation).
+ * Completed shifts draw down the matching budget at their billed amount; each shift is
+ * recorded once in `drawdowns`.
+ */
+export interface IPlanBudget {
+  category: string;
+  name?: string;
+  allocatedCents: number;
+  spentCents: number;
+}
+
+export interface IPlanDrawdown {
+  shiftId: mongoose.Types.ObjectId;
+  category?: string | null;   // null when no budget matched the shift's support item
+  amountCents: number;
+  at: Date;
+}
+
+export interface INdisPlan extends Document {
+  participantId: mongoose.Types.ObjectId;   // participant User._id (as on ShiftRequest)
+  planNumber?: string;
+  startDate: Date;
+  endDate: Date;                            // inclusive
+  budgets: IPlanBudget[];
+  drawdowns: IPlanDrawdown[];
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NdisPlanSchema = new Schema<INdisPlan>(
+  {
+    participantId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    planNumber: { type: String, trim: true },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    budgets: [
+      new Schema(
+        {
+          category: { type: String, required: true, trim: true },
+          name: { type: String, trim: true },
+          allocatedCents: { type: Number, required: true, min: 0 },
+          spentCents: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+    ],
+    drawdowns: [
+      new Schema(
+        {
+          shiftId: { type: Schema.Types.ObjectId, ref: "Shift", required: true },
+          category: { type: String, default: null },
+          amountCents: { type: Number, required: true },
+          at: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    ],
+    notes: String,
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+/** Plan in force for a participant on a date */
+NdisPlanSchema.index({ participantId: 1, startDate: 1, endDate: 1 });
+NdisPlanSchema.index({ "drawdowns.shiftId": 1 });
+
+export const NdisPlan = mongoose.model<INdisPlan>("NdisPlan", NdisPlanSchema);
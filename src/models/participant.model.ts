@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { AUSTRALIAN_STATES, AustralianState } from "../utils/timezone";
 
 export interface IParticipant extends Document {
   userId: mongoose.Types.ObjectId;
@@ -8,6 +9,7 @@ export interface IParticipant extends Document {
   ndisNumber: string;
   dob: Date;
   address: string;
+  state?: AustralianState; // drives NDIS time bands + public holidays
   email: string;
   phone: string;
   guardianName?: string;
@@ -24,6 +26,7 @@ export interface IParticipant extends Document {
   agreement: {
     version: string;
     effectiveDate: Date;
+    templateId?: mongoose.Types.ObjectId | null; // AgreementTemplate signed (when templates are published)
     acknowledged: {
       tos: boolean;
       privacy: boolean;
@@ -34,6 +37,10 @@ export interface IParticipant extends Document {
       date: Date;
     };
     pdfUrl?: string; // signed PDF file storage path
+    // Written with the generated PDF (see agreement.service)
+    signedAt?: Date;
+    contentHash?: string;  // SHA-256 of the signed content, printed in the PDF
+    pdfSha256?: string;    // SHA-256 of the stored PDF file
   };
 
   status: "PENDING" | "ACTIVE" | "BLOCKED" | "DELETED";
@@ -49,6 +56,7 @@ const ParticipantSchema = new Schema<IParticipant>(
     ndisNumber: { type: String, required: true },
     dob: { type: Date, required: true },
     address: { type: String, required: true },
+    state: { type: String, enum: AUSTRALIAN_STATES },
     email: { type: String, required: true },
     phone: { type: String, required: true },
     guardianName: String,
@@ -64,6 +72,7 @@ const ParticipantSchema = new Schema<IParticipant>(
     agreement: {
       version: String,
       effectiveDate: Date,
+      templateId: { type: Schema.Types.ObjectId, ref: "AgreementTemplate", default: null },
       acknowledged: {
         tos: { type: Boolean, default: false },
         privacy: { type: Boolean, default: false },
@@ -74,6 +83,9 @@ const ParticipantSchema = new Schema<IParticipant>(
         date: Date,
       },
       pdfUrl: String,
+      signedAt: Date,
+      contentHash: String,
+      pdfSha256: String,
     },
 
     status: {
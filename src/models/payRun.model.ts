@@ -0,0 +1,108 @@
+// models/payRun.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * PayRun
+ * A batch of APPROVED timesheets paid together. While DRAFT the selection can change;
+ * finalising marks every included timesheet PAID (which locks it).
+ */
+export type PayRunStatus = "DRAFT" | "FINALISED";
+
+export interface IPayRunTrainerTotal {
+  trainerId: mongoose.Types.ObjectId;
+  trainerName?: string;
+  timesheetIds: mongoose.Types.ObjectId[];
+  hours: number;
+  km: number;
+  amountCents: number;
+  mileageCents: number;
+  totalCents: number;
+}
+
+/** What each timesheet looked like when it was put in the run; finalise refuses any that changed */
+export interface IPayRunTimesheetSnapshot {
+  timesheetId: mongoose.Types.ObjectId;
+  totalCents: number;
+  updatedAt: Date;
+}
+
+export interface IPayRun extends Document {
+  periodStart: Date;
+  periodEnd: Date;
+  status: PayRunStatus;
+  notes?: string;
+
+  timesheetIds: mongoose.Types.ObjectId[];
+  timesheetSnapshots: IPayRunTimesheetSnapshot[];
+  trainerTotals: IPayRunTrainerTotal[];
+  totals: {
+    timesheets: number;
+    trainers: number;
+    hours: number;
+    km: number;
+    amountCents: number;
+    mileageCents: number;
+    totalCents: number;
+  };
+
+  createdBy: mongoose.Types.ObjectId;
+  finalisedBy?: mongoose.Types.ObjectId | null;
+  finalisedAt?: Date | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TrainerTotalSchema = new Schema<IPayRunTrainerTotal>(
+  {
+    trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", required: true },
+    trainerName: String,
+    timesheetIds: [{ type: Schema.Types.ObjectId, ref: "Timesheet" }],
+    hours: { type: Number, default: 0 },
+    km: { type: Number, default: 0 },
+    amountCents: { type: Number, default: 0 },
+    mileageCents: { type: Number, default: 0 },
+    totalCents: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const TimesheetSnapshotSchema = new Schema<IPayRunTimesheetSnapshot>(
+  {
+    timesheetId: { type: Schema.Types.ObjectId, ref: "Timesheet", required: true },
+    totalCents: { type: Number, required: true },
+    updatedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const PayRunSchema = new Schema<IPayRun>(
+  {
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    status: { type: String, enum: ["DRAFT", "FINALISED"], default: "DRAFT", index: true },
+    notes: { type: String, trim: true },
+
+    timesheetIds: [{ type: Schema.Types.ObjectId, ref: "Timesheet", index: true }],
+    timesheetSnapshots: { type: [TimesheetSnapshotSchema], default: [] },
+    trainerTotals: { type: [TrainerTotalSchema], default: [] },
+    totals: {
+      timesheets: { type: Number, default: 0 },
+      trainers: { type: Number, default: 0 },
+      hours: { type: Number, default: 0 },
+      km: { type: Number, default: 0 },
+      amountCents: { type: Number, default: 0 },
+      mileageCents: { type: Number, default: 0 },
+      totalCents: { type: Number, default: 0 },
+    },
+
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    finalisedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    finalisedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+PayRunSchema.index({ periodStart: -1 });
+
+export const PayRun = mongoose.model<IPayRun>("PayRun", PayRunSchema);
@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * PublicHoliday
+ * Calendar used for NDIS public-holiday pricing.
+ * `state: "NATIONAL"` applies to every state.
+ */
+export type HolidayState = "NATIONAL" | "NSW" | "VIC" | "QLD" | "SA" | "WA" | "TAS" | "ACT" | "NT";
+
+export interface IPublicHoliday extends Document {
+  date: string;        // YYYY-MM-DD (local calendar date, no time component)
+  state: HolidayState;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PublicHolidaySchema = new Schema<IPublicHoliday>(
+  {
+    date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    state: {
+      type: String,
+      enum: ["NATIONAL", "NSW", "VIC", "QLD", "SA", "WA", "TAS", "ACT", "NT"],
+      required: true,
+    },
+    name: { type: String, required: true, trim: true },
+  },
+  { timestamps: true }
+);
+
+PublicHolidaySchema.index({ state: 1, date: 1 }, { unique: true });
+
+export const PublicHoliday = mongoose.model<IPublicHoliday>("PublicHoliday", PublicHolidaySchema);
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { BandRates, RateBand } from "../utils/ndis-pricing";
+
+/**
+ * RateCard
+ * Admin-managed price for a service code over an effective window.
+ * A card without trainerId/participantId is the service default; setting either
+ * (or both) makes it an override that wins over the default for matching shifts.
+ */
+export interface IRateCard extends Document {
+  serviceCode: string;                              // same code stored on ShiftRequest.service
+  name?: string;
+
+  trainerId?: mongoose.Types.ObjectId | null;       // Trainer._id override
+  participantId?: mongoose.Types.ObjectId | null;   // participant User._id override (as on ShiftRequest)
+
+  hourlyRateCents: number;                          // weekday DAYTIME rate
+  bandRates?: BandRates;                            // EVENING/NIGHT/SATURDAY/SUNDAY/PUBLIC_HOLIDAY; missing → hourly
+  kmRateCents: number;
+
+  // NDIS support item claimed for this service (e.g. 01_011_0107_1_1); bands may use their own item
+  ndisSupportItemNumber?: string;
+  ndisBandItemNumbers?: Partial<Record<Exclude<RateBand, "DAYTIME">, string>>;
+
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;                        // inclusive end; null = open-ended
+
+  active: boolean;
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RateCardSchema = new Schema<IRateCard>(
+  {
+    serviceCode: { type: String, required: true, trim: true, index: true },
+    name: { type: String, trim: true },
+
+    trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", default: null },
+    participantId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+
+    hourlyRateCents: { type: Number, required: true, min: 0 },
+    bandRates: {
+      EVENING: { type: Number, min: 0 },
+      NIGHT: { type: Number, min: 0 },
+      SATURDAY: { type: Number, min: 0 },
+      SUNDAY: { type: Number, min: 0 },
+      PUBLIC_HOLIDAY: { type: Number, min: 0 },
+    },
+    kmRateCents: { type: Number, default: 0, min: 0 },
+    ndisSupportItemNumber: { type: String, trim: true },
+    ndisBandItemNumbers: {
+      EVENING: { type: String, trim: true },
+      NIGHT: { type: String, trim: true },
+      SATURDAY: { type: String, trim: true },
+      SUNDAY: { type: String, trim: true },
+      PUBLIC_HOLIDAY: { type: String, trim: true },
+    },
+
+    effectiveFrom: { type: Date, required: true },
+    effectiveTo: { type: Date, default: null },
+
+    active: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+/** Lookup path used when pricing a shift */
+RateCardSchema.index({ serviceCode: 1, active: 1, effectiveFrom: -1 });
+RateCardSchema.index({ trainerId: 1, serviceCode: 1 });
+RateCardSchema.index({ participantId: 1, serviceCode: 1 });
+
+export const RateCard = mongoose.model<IRateCard>("RateCard", RateCardSchema);
@@ -0,0 +1,66 @@
+// models/session.model.ts
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * Session
+ * One per login (device/browser). Access tokens carry the session id (`sid`) and are only
+ * honoured while the session is live; the refresh token rotates on every use and only the
+ * SHA-256 of the current one is stored.
+ */
+export type SessionRevokeReason =
+  | "LOGOUT"
+  | "LOGOUT_ALL"
+  | "REVOKED_BY_USER"
+  | "PASSWORD_CHANGED"
+  | "ACCOUNT_BLOCKED"
+  | "ACCOUNT_DELETED"
+  | "REFRESH_TOKEN_REUSE";
+
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHashes: string[]; // rotated-out tokens; presenting one again = reuse
+  expiresAt: Date;               // refresh token expiry; the session ends here unless refreshed
+  lastUsedAt: Date;
+  rotationCount: number;
+  ip?: string | null;
+  userAgent?: string | null;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    refreshTokenHash: { type: String, required: true },
+    previousRefreshTokenHashes: { type: [String], default: [] },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: Date.now },
+    rotationCount: { type: Number, default: 0 },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+    revokedAt: { type: Date, default: null },
+    revokedReason: {
+      type: String,
+      enum: [
+        "LOGOUT",
+        "LOGOUT_ALL",
+        "REVOKED_BY_USER",
+        "PASSWORD_CHANGED",
+        "ACCOUNT_BLOCKED",
+        "ACCOUNT_DELETED",
+        "REFRESH_TOKEN_REUSE",
+      ],
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// Expired sessions are kept for a week (session list / audit) and then dropped by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Session = mongoose.model<ISession>("Session", SessionSchema);
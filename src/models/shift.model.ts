@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { RATE_BANDS, RateBand } from "../utils/ndis-pricing";
 
 /**
  * A Shift represents the *actual work session*
@@ -17,6 +18,12 @@ export interface IShift extends Document {
   actualClockIn: Date;            // when trainer clocked in
   plannedClockOut: Date;          // actualClockIn + scheduledDuration
   actualClockOut?: Date | null;   // trainer or cron completion
+  autoClosed?: boolean;           // completed by the auto clock-out job
+  autoClosedAt?: Date | null;
+  autoCloseAttempts?: number;           // failed auto clock-out attempts
+  autoCloseLastError?: string | null;
+  autoCloseNextAttemptAt?: Date | null; // backoff: the job skips the shift until then
+  autoCloseHeldAt?: Date | null;        // failure retrying can't fix (409); left for an admin
 
   status: "IN_PROGRESS" | "COMPLETED" | "CANCELLED";
 
@@ -28,6 +35,26 @@ export interface IShift extends Document {
     km?: number;
   };
 
+  // Pricing snapshot written at clock-out
+  billing?: {
+    billableMinutes: number;
+    hourlyRateCents: number;
+    kmRateCents: number;
+    rateCardId?: Types.ObjectId | null;
+    state?: string;               // state used for time bands / public holidays
+    segments?: Array<{
+      band: RateBand;
+      start: Date;
+      end: Date;
+      minutes: number;
+      hourlyRateCents: number;
+      amountCents: number;
+    }>;
+    source: string;
+    scheduledStart: Date;
+    scheduledEnd: Date;
+  };
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,6 +88,12 @@ const ShiftSchema = new Schema<IShift>(
     actualClockIn: { type: Date, required: true },
     plannedClockOut: { type: Date, required: true },
     actualClockOut: { type: Date, default: null },
+    autoClosed: { type: Boolean, default: false },
+    autoClosedAt: { type: Date, default: null },
+    autoCloseAttempts: { type: Number, default: 0 },
+    autoCloseLastError: { type: String, default: null },
+    autoCloseNextAttemptAt: { type: Date, default: null },
+    autoCloseHeldAt: { type: Date, default: null },
 
     status: {
       type: String,
@@ -75,6 +108,28 @@ const ShiftSchema = new Schema<IShift>(
       incidents: { type: String, trim: true },
       km: { type: Number, default: 0 },
     },
+
+    billing: {
+      billableMinutes: Number,
+      hourlyRateCents: Number,
+      kmRateCents: Number,
+      rateCardId: { type: Schema.Types.ObjectId, ref: "RateCard", default: null },
+      state: String,
+      segments: [
+        {
+          _id: false,
+          band: { type: String, enum: RATE_BANDS },
+          start: Date,
+          end: Date,
+          minutes: Number,
+          hourlyRateCents: Number,
+          amountCents: Number,
+        },
+      ],
+      source: String,
+      scheduledStart: Date,
+      scheduledEnd: Date,
+    },
   },
   { timestamps: true }
 );
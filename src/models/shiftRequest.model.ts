@@ -7,7 +7,8 @@ import mongoose, { Schema, Document } from "mongoose";
  */
 export type ShiftRequestStatus =
   | "PENDING_ADMIN"  // newly submitted by participant
-  | "APPROVED"       // admin approved → ready to start
+  | "OFFERED"        // admin approved → waiting for the trainer to accept
+  | "APPROVED"       // trainer accepted → ready to start
   | "DECLINED"       // admin declined
   | "CANCELLED"      // participant/admin cancelled
   | "IN_PROGRESS"    // trainer clocked in
@@ -24,10 +25,56 @@ export interface IShiftRequest extends Document {
   preferredTrainerIds?: mongoose.Types.ObjectId[];
   status: ShiftRequestStatus;
 
-  assignedTrainerId?: mongoose.Types.ObjectId | null; // linked Trainer
+  assignedTrainerId?: mongoose.Types.ObjectId | null; // linked Trainer (offered or accepted)
   linkedShiftId?: mongoose.Types.ObjectId | null;     // created after approval
   adminComment?: string | null;
 
+  offer?: {
+    trainerId: mongoose.Types.ObjectId;
+    offeredBy: mongoose.Types.ObjectId;   // admin userId who approved
+    offeredAt: Date;
+    expiresAt: Date;
+  } | null;
+  declinedTrainerIds?: mongoose.Types.ObjectId[]; // declined or let an offer expire
+
+  // Every status change, oldest first
+  history?: Array<{
+    from: ShiftRequestStatus | null;
+    to: ShiftRequestStatus;
+    at: Date;
+    by?: mongoose.Types.ObjectId | null;  // userId (null for SYSTEM)
+    byRole: "PARTICIPANT" | "TRAINER" | "ADMIN" | "SYSTEM";
+    trainerId?: mongoose.Types.ObjectId | null;
+    note?: string;
+  }>;
+
+  // Admin decisions to go ahead despite an overlap (see conflict detection in the service)
+  conflictOverrides?: Array<{
+    kind: "TRAINER" | "PARTICIPANT";      // trainer double-booking / participant overlap
+    by: mongoose.Types.ObjectId;          // admin userId
+    at: Date;
+    conflictingRequestIds: mongoose.Types.ObjectId[];
+  }>;
+
+  // NDIS plan checks at approval time (warnings only, approval still goes ahead)
+  budgetWarnings?: Array<{
+    code: "NO_PLAN" | "PLAN_ENDED" | "NO_BUDGET" | "OVER_BUDGET" | "PRICE_UNKNOWN";
+    message: string;
+  }>;
+
+  seriesId?: mongoose.Types.ObjectId | null;  // set when expanded from a ShiftRequestSeries
+  occurrenceIndex?: number | null;            // 0-based position within the series
+
+  cancellation?: {
+    by: mongoose.Types.ObjectId;          // userId of participant/admin
+    byRole: "PARTICIPANT" | "ADMIN";
+    at: Date;
+    reason: string;
+    shortNotice: boolean;                 // inside CANCELLATION_SHORT_NOTICE_HOURS
+    feeApplied: boolean;
+    feeCents: number;
+  } | null;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -56,6 +103,7 @@ const ShiftRequestSchema = new Schema<IShiftRequest>(
       type: String,
       enum: [
         "PENDING_ADMIN",
+        "OFFERED",
         "APPROVED",
         "DECLINED",
         "CANCELLED",
@@ -79,6 +127,88 @@ const ShiftRequestSchema = new Schema<IShiftRequest>(
     },
 
     adminComment: { type: String, trim: true, default: null },
+
+    offer: {
+      type: new Schema(
+        {
+          trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", required: true },
+          offeredBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          offeredAt: { type: Date, required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    declinedTrainerIds: [{ type: Schema.Types.ObjectId, ref: "Trainer" }],
+
+    history: [
+      new Schema(
+        {
+          from: { type: String, default: null },
+          to: { type: String, required: true },
+          at: { type: Date, required: true },
+          by: { type: Schema.Types.ObjectId, ref: "User", default: null },
+          byRole: {
+            type: String,
+            enum: ["PARTICIPANT", "TRAINER", "ADMIN", "SYSTEM"],
+            required: true,
+          },
+          trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", default: null },
+          note: { type: String, trim: true },
+        },
+        { _id: false }
+      ),
+    ],
+
+    conflictOverrides: [
+      new Schema(
+        {
+          kind: { type: String, enum: ["TRAINER", "PARTICIPANT"], required: true },
+          by: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          at: { type: Date, required: true },
+          conflictingRequestIds: [{ type: Schema.Types.ObjectId, ref: "ShiftRequest" }],
+        },
+        { _id: false }
+      ),
+    ],
+
+    budgetWarnings: [
+      new Schema(
+        {
+          code: {
+            type: String,
+            enum: ["NO_PLAN", "PLAN_ENDED", "NO_BUDGET", "OVER_BUDGET", "PRICE_UNKNOWN"],
+            required: true,
+          },
+          message: { type: String, required: true },
+        },
+        { _id: false }
+      ),
+    ],
+
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: "ShiftRequestSeries",
+      default: null,
+    },
+    occurrenceIndex: { type: Number, default: null },
+
+    cancellation: {
+      type: new Schema(
+        {
+          by: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          byRole: { type: String, enum: ["PARTICIPANT", "ADMIN"], required: true },
+          at: { type: Date, required: true },
+          reason: { type: String, trim: true, required: true },
+          shortNotice: { type: Boolean, default: false },
+          feeApplied: { type: Boolean, default: false },
+          feeCents: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
   },
   { timestamps: true }
 );
@@ -90,6 +220,8 @@ ShiftRequestSchema.index({ participantId: 1, start: 1, end: 1 });
 ShiftRequestSchema.index({ status: 1, start: 1 });
 ShiftRequestSchema.index({ assignedTrainerId: 1, status: 1 });
 ShiftRequestSchema.index({ linkedShiftId: 1 });
+ShiftRequestSchema.index({ status: 1, "offer.expiresAt": 1 });
+ShiftRequestSchema.index({ seriesId: 1, occurrenceIndex: 1 });
 
 /**
  * Virtuals for cleaner API responses
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { RecurrenceFrequency } from "../utils/recurrence";
+
+/**
+ * ShiftRequestSeries
+ * A recurrence rule that was expanded into individual ShiftRequest documents
+ * (linked back via ShiftRequest.seriesId / occurrenceIndex).
+ * The series holds the template; each occurrence can then be edited or cancelled on its own.
+ */
+export interface IShiftRequestSeries extends Document {
+  participantId: mongoose.Types.ObjectId; // user _id
+  requestedBy: mongoose.Types.ObjectId;
+  service: string;
+  notes?: string;
+  preferredTrainerIds?: mongoose.Types.ObjectId[];
+
+  recurrence: {
+    frequency: RecurrenceFrequency;
+    weekdays: number[];      // 0=Sun .. 6=Sat, participant's local time
+    until?: Date | null;
+    count?: number | null;
+  };
+  firstStart: Date;
+  durationMinutes: number;
+  timeZone: string;          // IANA zone the rule was expanded in
+
+  status: "ACTIVE" | "CANCELLED";
+  occurrenceCount: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShiftRequestSeriesSchema = new Schema<IShiftRequestSeries>(
+  {
+    participantId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    requestedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    service: { type: String, required: true },
+    notes: { type: String, trim: true },
+    preferredTrainerIds: [{ type: Schema.Types.ObjectId, ref: "Trainer" }],
+
+    recurrence: {
+      frequency: { type: String, enum: ["WEEKLY", "FORTNIGHTLY"], required: true },
+      weekdays: [{ type: Number, min: 0, max: 6 }],
+      until: { type: Date, default: null },
+      count: { type: Number, default: null },
+    },
+    firstStart: { type: Date, required: true },
+    durationMinutes: { type: Number, required: true, min: 1 },
+    timeZone: { type: String, required: true },
+
+    status: { type: String, enum: ["ACTIVE", "CANCELLED"], default: "ACTIVE", index: true },
+    occurrenceCount: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+export const ShiftRequestSeries = mongoose.model<IShiftRequestSeries>(
+  "ShiftRequestSeries",
+  ShiftRequestSeriesSchema
+);
@@ -1,23 +1,54 @@
 // models/timesheet.model.ts
 import mongoose, { Schema, Document } from "mongoose";
+import { RATE_BANDS, RateBand } from "../utils/ndis-pricing";
 
 export interface ITimesheetItem {
-  shiftId: mongoose.Types.ObjectId;
+  kind?: "SHIFT" | "CANCELLATION_FEE";
+  shiftId?: mongoose.Types.ObjectId | null;        // null for cancellation fees (no Shift was created)
+  shiftRequestId?: mongoose.Types.ObjectId | null;
   participantId: mongoose.Types.ObjectId;
   date: Date;
   service: string;
-  hours: number;          // billable minutes / 60
+  rateBand?: RateBand;    // NDIS time band this line was priced at
+  startAt?: Date;         // band segment window
+  endAt?: Date;
+  minutes?: number;       // billable minutes (precision / audits)
+  hours: number;          // billable minutes / 60 (cancellation fees: scaled by the fee %)
   km?: number;            // mileage entered by trainer
+  hourlyRateCents?: number; // rate snapshot at time of billing
+  kmRateCents?: number;
+  rateCardId?: mongoose.Types.ObjectId | null; // RateCard used to price this line
   amountCents: number;    // labour
   mileageCents?: number;  // travel
   totalCents: number;     // labour + travel
 }
 
+export type TimesheetStatus = "DRAFT" | "SUBMITTED" | "APPROVED" | "PAID" | "REOPENED";
+
+export type TimesheetAuditAction =
+  | "CREATED"
+  | "SUBMIT"
+  | "APPROVE"
+  | "REOPEN"
+  | "MARK_PAID"
+  | "ITEMS_REPLACED"       // lines inserted/replaced for a shift or cancellation
+  | "TOTALS_RECALCULATED";
+
+export interface ITimesheetAuditEntry {
+  action: TimesheetAuditAction;
+  at: Date;
+  by?: mongoose.Types.ObjectId | null;   // userId (null for SYSTEM)
+  byRole: "PARTICIPANT" | "TRAINER" | "ADMIN" | "SYSTEM";
+  reason?: string;
+  before?: any;                          // snapshot of what changed (status / lines / totals)
+  after?: any;
+}
+
 export interface ITimesheet extends Document {
   trainerId: mongoose.Types.ObjectId;
   weekStart: Date;        // Monday 00:00 UTC
   weekEnd: Date;          // Sunday 23:59:59.999 UTC
-  status: "DRAFT" | "SUBMITTED" | "APPROVED" | "PAID" | "REOPENED";
+  status: TimesheetStatus;
   items: ITimesheetItem[];
   totals: {
     hours: number;
@@ -26,16 +57,30 @@ export interface ITimesheet extends Document {
     mileageCents: number;
     totalCents: number;
   };
+  history: ITimesheetAuditEntry[]; // append-only audit trail, oldest first
+  payRunId?: mongoose.Types.ObjectId | null; // set when a pay run marks it PAID
+
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const TimesheetItemSchema = new Schema<ITimesheetItem>(
   {
-    shiftId: { type: Schema.Types.ObjectId, ref: "Shift", required: true },
+    kind: { type: String, enum: ["SHIFT", "CANCELLATION_FEE"], default: "SHIFT" },
+    shiftId: { type: Schema.Types.ObjectId, ref: "Shift", default: null },
+    shiftRequestId: { type: Schema.Types.ObjectId, ref: "ShiftRequest", default: null },
     participantId: { type: Schema.Types.ObjectId, ref: "Participant", required: true },
     date: { type: Date, required: true },
     service: { type: String, required: true },
+    rateBand: { type: String, enum: RATE_BANDS },
+    startAt: { type: Date },
+    endAt: { type: Date },
+    minutes: { type: Number },
     hours: { type: Number, required: true },
     km: { type: Number, default: 0 },
+    hourlyRateCents: { type: Number },
+    kmRateCents: { type: Number },
+    rateCardId: { type: Schema.Types.ObjectId, ref: "RateCard", default: null },
     amountCents: { type: Number, required: true },
     mileageCents: { type: Number, default: 0 },
     totalCents: { type: Number, required: true },
@@ -43,6 +88,23 @@ const TimesheetItemSchema = new Schema<ITimesheetItem>(
   { _id: false }
 );
 
+const TimesheetAuditSchema = new Schema<ITimesheetAuditEntry>(
+  {
+    action: {
+      type: String,
+      enum: ["CREATED", "SUBMIT", "APPROVE", "REOPEN", "MARK_PAID", "ITEMS_REPLACED", "TOTALS_RECALCULATED"],
+      required: true,
+    },
+    at: { type: Date, required: true },
+    by: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    byRole: { type: String, enum: ["PARTICIPANT", "TRAINER", "ADMIN", "SYSTEM"], required: true },
+    reason: { type: String, trim: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
 const TimesheetSchema = new Schema<ITimesheet>(
   {
     trainerId: { type: Schema.Types.ObjectId, ref: "Trainer", required: true },
@@ -57,6 +119,8 @@ const TimesheetSchema = new Schema<ITimesheet>(
       mileageCents: { type: Number, default: 0 },
       totalCents: { type: Number, default: 0 },
     },
+    history: { type: [TimesheetAuditSchema], default: [] },
+    payRunId: { type: Schema.Types.ObjectId, ref: "PayRun", default: null },
   },
   { timestamps: true }
 );
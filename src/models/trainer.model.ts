@@ -1,5 +1,20 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export type DocumentReviewStatus = "SUBMITTED" | "VERIFIED" | "REJECTED";
+
+/** One uploaded compliance document (trainer.documents[key]) */
+export interface ITrainerDocument {
+  filePath: string;
+  originalName?: string;
+  expiry?: string | Date | null;
+  // Admin review; a new upload replaces the entry and starts again at SUBMITTED
+  status?: DocumentReviewStatus; // missing on uploads made before reviews existed (= SUBMITTED)
+  submittedAt?: Date;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  rejectionReason?: string | null;
+}
+
 export interface ITrainer extends Document {
   userId: mongoose.Types.ObjectId;
   fullName?: string;
@@ -8,10 +23,11 @@ export interface ITrainer extends Document {
   availability?: Record<string, string[]>;
   travelAreas: string[];
   specialisations: string[];
-  documents?: Record<string, any>;
+  documents?: Record<string, ITrainerDocument>;
   agreement?: {
     version: string;
     effectiveDate: Date;
+    templateId?: mongoose.Types.ObjectId | null; // AgreementTemplate signed (when templates are published)
     tos: boolean;
     privacy: boolean;
     consent: boolean;
@@ -20,7 +36,24 @@ export interface ITrainer extends Document {
       date: Date;
     };
     pdfUrl?: string;
+    // Written with the generated PDF (see agreement.service)
+    signedAt?: Date;
+    contentHash?: string;  // SHA-256 of the signed content, printed in the PDF
+    pdfSha256?: string;    // SHA-256 of the stored PDF file
   };
+  // Used for the ABA (direct-entry) payroll file
+  bankDetails?: {
+    accountName?: string;
+    bsb?: string;
+    accountNumber?: string;
+  };
+  // Expiry reminders already sent, so each lead time is emailed once per document expiry
+  complianceReminders?: Array<{
+    document: string;   // documents key, e.g. "wwcc"
+    expiry: string;     // YYYY-MM-DD the reminder was about (a renewed document starts over)
+    daysBefore: number; // reminder threshold; 0 = lapsed notice
+    sentAt: Date;
+  }>;
   onboardingStep: number;
   status: string;
   createdAt: Date;
@@ -45,6 +78,7 @@ const TrainerSchema = new Schema<ITrainer>(
     agreement: {
       version: String,
       effectiveDate: Date,
+      templateId: { type: Schema.Types.ObjectId, ref: "AgreementTemplate", default: null },
       tos: { type: Boolean, default: false },
       privacy: { type: Boolean, default: false },
       consent: { type: Boolean, default: false },
@@ -53,7 +87,24 @@ const TrainerSchema = new Schema<ITrainer>(
         date: Date,
       },
       pdfUrl: String,
+      signedAt: Date,
+      contentHash: String,
+      pdfSha256: String,
+    },
+    // Never returned by default: only the owner's /me/bank-details and pay run exports select it
+    bankDetails: {
+      type: new Schema(
+        { accountName: String, bsb: String, accountNumber: String },
+        { _id: false }
+      ),
+      select: false,
     },
+    complianceReminders: [
+      new Schema(
+        { document: String, expiry: String, daysBefore: Number, sentAt: Date },
+        { _id: false }
+      ),
+    ],
     onboardingStep: { type: Number, default: 0 },
     status: { type: String, default: "pending" },
   },
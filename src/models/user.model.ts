@@ -5,6 +5,7 @@ export interface IUser extends Document {
   password: string;
   role: "PARTICIPANT" | "TRAINER" | "ADMIN";
   status: "PENDING" | "ACTIVE" | "BLOCKED" | "DELETED";
+  tokenVersion: number; // bumped to invalidate every issued login token (e.g. after a password reset)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,6 +16,7 @@ const UserSchema = new Schema<IUser>(
     password: { type: String, default: "" },
     role: { type: String, enum: ["PARTICIPANT", "TRAINER", "ADMIN"], required: true },
     status: { type: String, enum: ["PENDING", "ACTIVE", "BLOCKED", "DELETED"], default: "PENDING" },
+    tokenVersion: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
@@ -0,0 +1,40 @@
+// src/routes/agreementTemplate.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/agreementTemplate.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import {
+  agreementTemplateCreateSchema,
+  agreementTemplateUpdateSchema,
+} from "../validators/agreementTemplate.validators";
+
+const router = Router();
+
+/**
+ * GET /api/agreement-templates/current/:audience   (PARTICIPANT | TRAINER)
+ * Public: read before an account exists, during onboarding
+ */
+router.get("/current/:audience", catchAsync(Ctrl.getCurrentTemplate));
+
+// Admin only from here
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/agreement-templates
+ * Query: ?audience=&page=&limit=
+ */
+router.get("/", catchAsync(Ctrl.listTemplates));
+
+/**
+ * POST /api/agreement-templates
+ * Body: { audience, version, title, body, effectiveFrom }
+ */
+router.post("/", validate(agreementTemplateCreateSchema), catchAsync(Ctrl.createTemplate));
+
+router.get("/:id", catchAsync(Ctrl.getTemplate));
+
+// Only before the template takes effect
+router.patch("/:id", validate(agreementTemplateUpdateSchema), catchAsync(Ctrl.updateTemplate));
+
+export default router;
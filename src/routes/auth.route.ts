@@ -3,20 +3,51 @@ import * as AuthController from "../controllers/auth.controller";
 import { catchAsync } from "../utils/catchAsync";
 import { upload } from "../middleware/upload";
 import { authenticate } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import {
+  setPasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+} from "../validators/auth.validators";
 
 const router = Router();
 
+// Create login from an emailed invite token
 router.post(
   "/set-password",
+  validate(setPasswordSchema),
   catchAsync(AuthController.setPassword)
 );
 
+// Email a single-use reset link (same response whether or not the email exists)
+router.post(
+  "/forgot-password",
+  validate(forgotPasswordSchema),
+  catchAsync(AuthController.forgotPassword)
+);
+
+// New password from a reset link; signs the user out of every existing session
+router.post(
+  "/reset-password",
+  validate(resetPasswordSchema),
+  catchAsync(AuthController.resetPassword)
+);
+
 router.post(
   "/login",
   catchAsync(AuthController.login)
 );
 
+// Rotate the refresh token and issue a new short-lived access token
+router.post("/refresh", catchAsync(AuthController.refresh));
+
 router.get("/me", authenticate, AuthController.getMe);
-router.post("/logout", authenticate, AuthController.logout);
+router.post("/logout", authenticate, catchAsync(AuthController.logout));
+// Sign out on every device
+router.post("/logout-all", authenticate, catchAsync(AuthController.logoutAll));
+
+// Own live sessions (devices), and sign one of them out
+router.get("/sessions", authenticate, catchAsync(AuthController.listSessions));
+router.delete("/sessions/:sessionId", authenticate, catchAsync(AuthController.revokeSession));
 
 export default router;
@@ -0,0 +1,43 @@
+// src/routes/claims.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/claims.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import {
+  claimGenerateSchema,
+  claimStatusSchema,
+  claimSubmitSchema,
+} from "../validators/claims.validators";
+
+const router = Router();
+
+// Admin only: every NDIS claim route
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/claims
+ * Query: ?status=DRAFT|SUBMITTED|PAID|REJECTED&participantId=&batchRef=&page=&limit=
+ */
+router.get("/", catchAsync(Ctrl.listClaims));
+
+/**
+ * POST /api/claims/generate
+ * Body: { from, to, participantId? } — DRAFT lines for completed plan/NDIA-managed shifts
+ */
+router.post("/generate", validate(claimGenerateSchema), catchAsync(Ctrl.generateClaims));
+
+/**
+ * POST /api/claims/submit
+ * Body: { claimLineIds[] } — returns the NDIA bulk payment request CSV
+ */
+router.post("/submit", validate(claimSubmitSchema), catchAsync(Ctrl.submitClaims));
+
+/**
+ * GET /api/claims/batches/:batchRef/csv
+ */
+router.get("/batches/:batchRef/csv", catchAsync(Ctrl.exportBatch));
+
+router.patch("/:id/status", validate(claimStatusSchema), catchAsync(Ctrl.updateClaimStatus));
+
+export default router;
@@ -0,0 +1,46 @@
+// src/routes/compliance.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/compliance.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { documentReviewSchema } from "../validators/compliance.validators";
+
+const router = Router();
+
+// Admin only: every compliance route
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/compliance/dashboard
+ * Query: ?days=30 (expiry window) &issue=MISSING_DOCUMENT|EXPIRING_DOCUMENT|UNSIGNED_AGREEMENT|INCOMPLETE_ONBOARDING
+ *        &status= (trainer account status) &mandatoryOnly=true &q= (name / email)
+ */
+router.get("/dashboard", catchAsync(Ctrl.getComplianceDashboard));
+
+// Same filters, one CSV row per issue
+router.get("/dashboard/export", catchAsync(Ctrl.exportComplianceDashboard));
+
+/**
+ * GET /api/compliance/trainers/:trainerId
+ * Per-document state (MISSING / NO_EXPIRY / VALID / EXPIRING / EXPIRED) and overall status
+ */
+router.get("/trainers/:trainerId", catchAsync(Ctrl.getTrainerCompliance));
+
+/**
+ * GET /api/compliance/documents
+ * Review queue. Query: ?status=SUBMITTED (default) | VERIFIED | REJECTED &trainerId=
+ */
+router.get("/documents", catchAsync(Ctrl.listDocumentsForReview));
+
+/**
+ * PATCH /api/compliance/trainers/:trainerId/documents/:key   (key: ndisCheck, wwcc, licence, ...)
+ * Body: { status: "VERIFIED" | "REJECTED", reason? }  — rejection emails the trainer
+ */
+router.patch(
+  "/trainers/:trainerId/documents/:key",
+  validate(documentReviewSchema),
+  catchAsync(Ctrl.reviewTrainerDocument)
+);
+
+export default router;
@@ -0,0 +1,40 @@
+// src/routes/file.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/file.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { signedFileUrlSchema } from "../validators/file.validators";
+
+const router = Router();
+
+/**
+ * GET /api/files/signed?path=&expires=&uid=&sig=
+ * No session: the HMAC signature and expiry are the credential
+ */
+router.get("/signed", catchAsync(Ctrl.downloadSignedFile));
+
+/**
+ * GET /api/files?path=/uploads/...
+ * Owner or admin
+ */
+router.get("/", authenticate, catchAsync(Ctrl.downloadFile));
+
+/**
+ * POST /api/files/signed-url
+ * Body: { path } → { url, expiresAt } (FILE_URL_TTL_SECONDS, default 5 minutes)
+ */
+router.post(
+  "/signed-url",
+  authenticate,
+  validate(signedFileUrlSchema),
+  catchAsync(Ctrl.createSignedUrl)
+);
+
+/**
+ * GET /api/files/access-logs
+ * Query: ?path=&userId= (owner or viewer) &page=&limit=
+ */
+router.get("/access-logs", authenticate, authorize("ADMIN"), catchAsync(Ctrl.listAccessLogs));
+
+export default router;
@@ -3,6 +3,15 @@ import trainerRoutes from "./trainer.routes";
 import participantRoutes from "./participant.route";
 import authRoutes from "./auth.route";
 import shiftsRoutes from "./shiftRequest.routes";
+import rateCardRoutes from "./rateCard.routes";
+import publicHolidayRoutes from "./publicHoliday.routes";
+import payRunRoutes from "./payRun.routes";
+import claimsRoutes from "./claims.routes";
+import invoiceRoutes from "./invoice.routes";
+import ndisPlanRoutes from "./ndisPlan.routes";
+import agreementTemplateRoutes from "./agreementTemplate.routes";
+import complianceRoutes from "./compliance.routes";
+import fileRoutes from "./file.routes";
 
 const router = Router();
 
@@ -10,5 +19,14 @@ router.use("/auth", authRoutes);
 router.use("/trainer", trainerRoutes);
 router.use("/participant", participantRoutes);
 router.use("/shifts", shiftsRoutes);
+router.use("/rate-cards", rateCardRoutes);
+router.use("/public-holidays", publicHolidayRoutes);
+router.use("/pay-runs", payRunRoutes);
+router.use("/claims", claimsRoutes);
+router.use("/invoices", invoiceRoutes);
+router.use("/ndis-plans", ndisPlanRoutes);
+router.use("/agreement-templates", agreementTemplateRoutes);
+router.use("/compliance", complianceRoutes);
+router.use("/files", fileRoutes);
 
 export default router;
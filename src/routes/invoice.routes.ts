@@ -0,0 +1,49 @@
+// src/routes/invoice.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/invoice.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import {
+  invoiceGenerateSchema,
+  invoicePaidSchema,
+  invoiceUpdateSchema,
+  invoiceVoidSchema,
+} from "../validators/invoice.validators";
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * GET /api/invoices
+ * Admin: all invoices. Participant: own issued/paid/void invoices.
+ */
+router.get("/", catchAsync(Ctrl.listInvoices));
+
+/**
+ * POST /api/invoices/generate
+ * Body: { periodStart, periodEnd, participantId? } — DRAFT invoice per participant
+ */
+router.post(
+  "/generate",
+  authorize("ADMIN"),
+  validate(invoiceGenerateSchema),
+  catchAsync(Ctrl.generateInvoices)
+);
+
+router.get("/:id", catchAsync(Ctrl.getInvoice));
+router.get("/:id/pdf", catchAsync(Ctrl.downloadInvoicePdf));
+
+router.patch("/:id", authorize("ADMIN"), validate(invoiceUpdateSchema), catchAsync(Ctrl.updateInvoice));
+
+/**
+ * POST /api/invoices/:id/issue
+ * Assigns the invoice number and emails the PDF (plan manager for plan-managed, else participant)
+ */
+router.post("/:id/issue", authorize("ADMIN"), catchAsync(Ctrl.issueInvoice));
+router.post("/:id/email", authorize("ADMIN"), catchAsync(Ctrl.resendInvoice));
+router.post("/:id/paid", authorize("ADMIN"), validate(invoicePaidSchema), catchAsync(Ctrl.markInvoicePaid));
+router.post("/:id/void", authorize("ADMIN"), validate(invoiceVoidSchema), catchAsync(Ctrl.voidInvoice));
+
+export default router;
@@ -0,0 +1,33 @@
+// src/routes/ndisPlan.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/ndisPlan.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { ndisPlanCreateSchema, ndisPlanUpdateSchema } from "../validators/ndisPlan.validators";
+
+const router = Router();
+
+// Admin only: every NDIS plan route
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/ndis-plans
+ * Query: ?participantId=&page=&limit=
+ */
+router.get("/", catchAsync(Ctrl.listPlans));
+
+/**
+ * POST /api/ndis-plans
+ * Body: { participantId, startDate, endDate, budgets[{ category, allocatedCents }] }
+ */
+router.post("/", validate(ndisPlanCreateSchema), catchAsync(Ctrl.createPlan));
+
+/**
+ * GET /api/ndis-plans/:id
+ * Includes remaining budget per category and drawdowns
+ */
+router.get("/:id", catchAsync(Ctrl.getPlan));
+router.patch("/:id", validate(ndisPlanUpdateSchema), catchAsync(Ctrl.updatePlan));
+
+export default router;
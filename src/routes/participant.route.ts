@@ -2,6 +2,9 @@ import { Router } from "express";
 import * as ParticipantController from "../controllers/participant.controller";
 import { catchAsync } from "../utils/catchAsync";
 import { upload } from "../middleware/upload";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { agreementAcceptSchema } from "../validators/agreementTemplate.validators";
 
 const router = Router();
 
@@ -15,4 +18,27 @@ router.get(
   catchAsync(ParticipantController.getAllParticipantsController)
 );
 
+// Re-accept the current agreement version (flagged on /api/auth/me)
+router.put(
+  "/me/agreement",
+  authenticate,
+  authorize("PARTICIPANT"),
+  validate(agreementAcceptSchema),
+  catchAsync(ParticipantController.acceptAgreement)
+);
+
+// Signed service agreement PDF (own copy / any participant for admins)
+router.get(
+  "/me/agreement/pdf",
+  authenticate,
+  authorize("PARTICIPANT"),
+  catchAsync(ParticipantController.downloadMyAgreement)
+);
+router.get(
+  "/:userId/agreement/pdf",
+  authenticate,
+  authorize("ADMIN"),
+  catchAsync(ParticipantController.downloadParticipantAgreement)
+);
+
 export default router;
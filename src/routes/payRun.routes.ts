@@ -0,0 +1,42 @@
+// src/routes/payRun.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/payRun.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { payRunCreateSchema, payRunUpdateSchema } from "../validators/payRun.validators";
+
+const router = Router();
+
+// Admin only: every pay run route
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/pay-runs
+ * Query: ?status=DRAFT|FINALISED&page=&limit=
+ */
+router.get("/", catchAsync(Ctrl.listPayRuns));
+
+/**
+ * POST /api/pay-runs
+ * Body: { periodStart, periodEnd, timesheetIds?, notes? }
+ */
+router.post("/", validate(payRunCreateSchema), catchAsync(Ctrl.createPayRun));
+
+router.get("/:id", catchAsync(Ctrl.getPayRun));
+router.patch("/:id", validate(payRunUpdateSchema), catchAsync(Ctrl.updatePayRun));
+router.delete("/:id", catchAsync(Ctrl.deletePayRun));
+
+/**
+ * POST /api/pay-runs/:id/finalise
+ * Marks every included timesheet PAID (locked from further shift updates)
+ */
+router.post("/:id/finalise", catchAsync(Ctrl.finalisePayRun));
+
+/**
+ * GET /api/pay-runs/:id/export?format=csv|xero|myob|aba
+ * csv = per-trainer summary; xero/myob = payroll timesheet imports; aba = bank file
+ */
+router.get("/:id/export", catchAsync(Ctrl.exportPayRun));
+
+export default router;
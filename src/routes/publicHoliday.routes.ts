@@ -0,0 +1,21 @@
+// src/routes/publicHoliday.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/publicHoliday.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { publicHolidayCreateSchema } from "../validators/publicHoliday.validators";
+
+const router = Router();
+
+router.get("/", authenticate, catchAsync(Ctrl.listPublicHolidays));
+router.post(
+  "/",
+  authenticate,
+  authorize("ADMIN"),
+  validate(publicHolidayCreateSchema),
+  catchAsync(Ctrl.createPublicHoliday)
+);
+router.delete("/:id", authenticate, authorize("ADMIN"), catchAsync(Ctrl.deletePublicHoliday));
+
+export default router;
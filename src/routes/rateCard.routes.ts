@@ -0,0 +1,31 @@
+// src/routes/rateCard.routes.ts
+import { Router } from "express";
+import * as Ctrl from "../controllers/rateCard.controller";
+import { catchAsync } from "../utils/catchAsync";
+import { authenticate, authorize } from "../middleware/auth";
+import { validate } from "../validators/validate";
+import { rateCardCreateSchema, rateCardUpdateSchema } from "../validators/rateCard.validators";
+
+const router = Router();
+
+// Admin only: every rate card route
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * GET /api/rate-cards
+ * Query: ?serviceCode=&trainerId=&participantId=&active=&at=&page=&limit=
+ */
+router.get("/", catchAsync(Ctrl.listRateCards));
+
+/**
+ * POST /api/rate-cards
+ */
+router.post("/", validate(rateCardCreateSchema), catchAsync(Ctrl.createRateCard));
+
+router.get("/:id", catchAsync(Ctrl.getRateCard));
+router.patch("/:id", validate(rateCardUpdateSchema), catchAsync(Ctrl.updateRateCard));
+
+// Soft delete (cards stay referenced by timesheet items)
+router.delete("/:id", catchAsync(Ctrl.deactivateRateCard));
+
+export default router;
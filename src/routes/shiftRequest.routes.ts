@@ -23,12 +23,19 @@ router.post("/request", authenticate, catchAsync(Ctrl.createShiftRequest));
 router.get("/admin/list", authenticate, catchAsync(Ctrl.adminList));
 
 /**
- * Admin: Approve + assign shift to trainer
+ * Admin: Approve + offer shift to trainer (trainer must accept)
  * POST /api/shifts/admin/approve
- * Body: { requestId, trainerId }
+ * Body: { requestId, trainerId, allowConflicts? }
  */
 router.post("/admin/approve", authenticate, catchAsync(Ctrl.approveAndAssign));
 
+/**
+ * Admin: Ranked trainer suggestions for a request (with score breakdown)
+ * GET /api/shifts/admin/:requestId/candidates
+ * Query: ?limit=
+ */
+router.get("/admin/:requestId/candidates", authenticate, catchAsync(Ctrl.adminCandidates));
+
 /**
  * Admin: Decline a shift request
  * POST /api/shifts/admin/decline
@@ -36,11 +43,75 @@ router.post("/admin/approve", authenticate, catchAsync(Ctrl.approveAndAssign));
  */
 router.post("/admin/decline", authenticate, catchAsync(Ctrl.decline));
 
+/**
+ * Admin: Cancel any PENDING_ADMIN/OFFERED/APPROVED request
+ * POST /api/shifts/admin/cancel
+ * Body: { requestId, reason, chargeFee? }
+ */
+router.post("/admin/cancel", authenticate, catchAsync(Ctrl.cancelAsAdmin));
+
+/**
+ * Participant: Cancel own PENDING_ADMIN/OFFERED/APPROVED request
+ * POST /api/shifts/participant/cancel
+ * Body: { requestId, reason }
+ */
+router.post("/participant/cancel", authenticate, catchAsync(Ctrl.cancelAsParticipant));
+
+/**
+ * Participant/Admin: Create a recurring series (expanded into individual requests)
+ * POST /api/shifts/series
+ * Body: { service, start, end, notes?, preferredTrainerIds?, recurrence: { frequency, weekdays?, until?, count? } }
+ */
+router.post("/series", authenticate, catchAsync(Ctrl.createShiftSeries));
+
+/**
+ * Participant (own) / Admin: Series with all occurrences
+ * GET /api/shifts/series/:seriesId
+ */
+router.get("/series/:seriesId", authenticate, catchAsync(Ctrl.getShiftSeries));
+
+/**
+ * Admin: Approve + assign every pending occurrence of a series
+ * POST /api/shifts/admin/series/:seriesId/approve
+ * Body: { trainerId, allowConflicts? }
+ */
+router.post("/admin/series/:seriesId/approve", authenticate, catchAsync(Ctrl.approveShiftSeries));
+
+/**
+ * Participant (own) / Admin: Edit "this occurrence" or "this and following"
+ * PATCH /api/shifts/series/:seriesId/occurrences/:requestId
+ * Body: { scope: THIS|FOLLOWING, start?, end?, service?, notes?, allowConflicts? (admin) }
+ */
+router.patch(
+  "/series/:seriesId/occurrences/:requestId",
+  authenticate,
+  catchAsync(Ctrl.updateSeriesOccurrence)
+);
+
+/**
+ * Participant (own) / Admin: Cancel "this occurrence" or "this and following"
+ * POST /api/shifts/series/:seriesId/occurrences/:requestId/cancel
+ * Body: { scope: THIS|FOLLOWING, reason, chargeFee? }
+ */
+router.post(
+  "/series/:seriesId/occurrences/:requestId/cancel",
+  authenticate,
+  catchAsync(Ctrl.cancelSeriesOccurrence)
+);
+
 // new
 router.get("/participant/mine", authenticate, catchAsync(Ctrl.listParticipantMine));
 router.get("/trainer/mine", authenticate, catchAsync(Ctrl.listTrainerMine));
 router.get("/mine", authenticate, catchAsync(Ctrl.listMine));
 
+/**
+ * Trainer: Accept / decline a shift offer (list open offers via /trainer/mine?status=OFFERED)
+ * POST /api/shifts/trainer/offers/accept   Body: { requestId }
+ * POST /api/shifts/trainer/offers/decline  Body: { requestId, reason? }
+ */
+router.post("/trainer/offers/accept", authenticate, catchAsync(Ctrl.acceptShiftOffer));
+router.post("/trainer/offers/decline", authenticate, catchAsync(Ctrl.declineShiftOffer));
+
 router.post("/trainer/clock-in", authenticate, catchAsync(Ctrl.clockInShiftAsTrainer));
 router.post("/trainer/clock-out", authenticate, catchAsync(Ctrl.clockOutShiftAsTrainerController));
 
@@ -51,6 +122,8 @@ router.get("/admin/dashboard", authenticate, catchAsync(Ctrl.adminDashboardSumma
 
 /* ------------------------------------------------------------------ */
 /*                             TIMESHEETS                              */
+/* Transitions + role/ownership checks live in timesheets.service
+   (TIMESHEET_TRANSITIONS); participants get 403 on every route. */
 /* Base path here: /api/shifts/timesheets[...] (since mounted under /api/shifts)
    If you prefer /api/timesheets, move these to a separate router file. */
 /* ------------------------------------------------------------------ */
@@ -69,7 +142,14 @@ router.get(
   catchAsync(TimesheetCtrl.getTimesheetById)
 );
 
-// Trainer submits their timesheet (status: DRAFT -> SUBMITTED)
+// Audit trail: status changes, line inserts/replacements, totals (trainer own / admin any)
+router.get(
+  "/timesheets/:id/history",
+  authenticate,
+  catchAsync(TimesheetCtrl.getTimesheetHistory)
+);
+
+// Trainer submits their timesheet (status: DRAFT/REOPENED -> SUBMITTED)
 router.post(
   "/timesheets/:id/submit",
   authenticate,
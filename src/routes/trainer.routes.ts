@@ -2,6 +2,11 @@ import { Router } from "express";
 import * as TrainerController from "../controllers/trainer.controller";
 import { catchAsync } from "../utils/catchAsync";
 import { upload } from "../middleware/upload";
+import { authenticate, authorize } from "../middleware/auth";
+import { getMyCompliance } from "../controllers/compliance.controller";
+import { validate } from "../validators/validate";
+import { trainerBankDetailsSchema } from "../validators/trainer.validators";
+import { agreementAcceptSchema } from "../validators/agreementTemplate.validators";
 
 const router = Router();
 
@@ -18,7 +23,41 @@ router.post(
   catchAsync(TrainerController.upsertTrainer)
 );
 router.get("/me", catchAsync(TrainerController.getTrainer));
+router.put(
+  "/me/bank-details",
+  authenticate,
+  authorize("TRAINER"),
+  validate(trainerBankDetailsSchema),
+  catchAsync(TrainerController.updateBankDetails)
+);
+// Own document expiry / compliance status
+router.get(
+  "/me/compliance",
+  authenticate,
+  authorize("TRAINER"),
+  catchAsync(getMyCompliance)
+);
+// Re-accept the current agreement version (flagged on /api/auth/me)
+router.put(
+  "/me/agreement",
+  authenticate,
+  authorize("TRAINER"),
+  validate(agreementAcceptSchema),
+  catchAsync(TrainerController.acceptAgreement)
+);
+router.get(
+  "/me/agreement/pdf",
+  authenticate,
+  authorize("TRAINER"),
+  catchAsync(TrainerController.downloadMyAgreement)
+);
 router.get("/", catchAsync(TrainerController.getAllTrainers));
+router.get(
+  "/:userId/agreement/pdf",
+  authenticate,
+  authorize("ADMIN"),
+  catchAsync(TrainerController.downloadTrainerAgreement)
+);
 router.patch("/:id/status", catchAsync(TrainerController.updateTrainerStatus));
 
 export default router;
@@ -0,0 +1,79 @@
+// src/scripts/migrate-uploads.ts
+/**
+ * One-off copy of the files under the local uploads folder into the configured storage driver.
+ * Stored paths (/uploads/...) do not change, so no database update is needed.
+ *
+ *   STORAGE_DRIVER=s3 S3_BUCKET=... npm run migrate:uploads -- [--dry-run] [--overwrite] [--from <dir>]
+ *
+ * Existing objects are skipped unless --overwrite is given. Local files are never deleted.
+ */
+import fs from "fs";
+import path from "path";
+import { ENV } from "../config/env";
+import { createStorageDriver, DEFAULT_UPLOAD_DIR } from "../utils/storage";
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+};
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(name);
+const option = (name: string) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+/** Relative keys ("documents/x.pdf") of every file under root */
+const listFiles = (root: string, dir = ""): string[] =>
+  fs.readdirSync(path.join(root, dir), { withFileTypes: true }).flatMap((entry) => {
+    const rel = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) return listFiles(root, rel);
+    return entry.isFile() ? [rel] : [];
+  });
+
+const main = async () => {
+  const from = path.resolve(option("--from") || ENV.UPLOAD_DIR || DEFAULT_UPLOAD_DIR);
+  const dryRun = flag("--dry-run");
+  const overwrite = flag("--overwrite");
+
+  if (ENV.STORAGE_DRIVER === "local" && path.resolve(ENV.UPLOAD_DIR || DEFAULT_UPLOAD_DIR) === from) {
+    throw new Error("Source and target are the same folder; set STORAGE_DRIVER=s3 to migrate");
+  }
+  if (!fs.existsSync(from)) throw new Error(`Nothing to migrate: ${from} does not exist`);
+
+  const target = createStorageDriver();
+  const keys = listFiles(from);
+  console.log(`📦 ${keys.length} file(s) in ${from} → ${target.name}${dryRun ? " (dry run)" : ""}`);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const key of keys) {
+    try {
+      if (!overwrite && (await target.exists(key))) {
+        skipped++;
+        continue;
+      }
+      if (!dryRun) {
+        const body = fs.readFileSync(path.join(from, key));
+        await target.put(key, body, MIME_TYPES[path.extname(key).toLowerCase()]);
+      }
+      copied++;
+      console.log(`  ✔ ${key}`);
+    } catch (err) {
+      failed++;
+      console.error(`  ❌ ${key}:`, err);
+    }
+  }
+
+  console.log(`✅ Copied ${copied}, skipped ${skipped} existing, failed ${failed}`);
+  if (failed) process.exitCode = 1;
+};
+
+main().catch((err) => {
+  console.error("❌ Upload migration failed:", err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+// services/agreement.service.ts
+import path from "path";
+import crypto from "crypto";
+import { Participant } from "../models/participant.model";
+import { Trainer } from "../models/trainer.model";
+import { User } from "../models/user.model";
+import { AgreementTemplate } from "../models/agreementTemplate.model";
+import { AppError, NotFoundError } from "../utils/errors";
+import { createAgreementPdfBuffer } from "../utils/pdf";
+import { readUpload, saveUpload } from "../utils/storage";
+import { FileAccessContext, logFileAccess } from "./file.service";
+
+export type AgreementRole = "PARTICIPANT" | "TRAINER";
+
+const sha256 = (data: Buffer | string) => crypto.createHash("sha256").update(data).digest("hex");
+
+/** Participant and trainer keep the agreement in slightly different shapes */
+const loadAgreement = async (userId: string, role: AgreementRole) => {
+  if (role === "PARTICIPANT") {
+    const doc = await Participant.findOne({ userId });
+    if (!doc) throw new NotFoundError("Participant");
+    const a: any = doc.agreement || {};
+    return {
+      doc,
+      signer: { role: "Participant", fullName: doc.fullName, email: doc.email, ndisNumber: doc.ndisNumber },
+      version: a.version,
+      effectiveDate: a.effectiveDate,
+      acknowledged: {
+        tos: !!a.acknowledged?.tos,
+        privacy: !!a.acknowledged?.privacy,
+        consent: !!a.acknowledged?.consent,
+      },
+      signature: a.signature,
+      stored: a,
+    };
+  }
+
+  const doc = await Trainer.findOne({ userId });
+  if (!doc) throw new NotFoundError("Trainer");
+  const user = await User.findById(userId).select("email").lean();
+  const a: any = doc.agreement || {};
+  return {
+    doc,
+    signer: { role: "Trainer", fullName: doc.fullName, email: user?.email },
+    version: a.version,
+    effectiveDate: a.effectiveDate,
+    acknowledged: { tos: !!a.tos, privacy: !!a.privacy, consent: !!a.consent },
+    signature: a.signature,
+    stored: a,
+  };
+};
+
+/**
+ * Canonical signed content. Field order is fixed so the same agreement always hashes the same.
+ */
+const contentHashFor = (
+  userId: string,
+  role: AgreementRole,
+  a: Awaited<ReturnType<typeof loadAgreement>>,
+  terms: { bodySha256: string } | null,
+  signatureSha256: string | null,
+  signedAt: Date
+) =>
+  sha256(
+    JSON.stringify({
+      role,
+      userId: String(userId),
+      fullName: a.signer.fullName ?? null,
+      email: a.signer.email ?? null,
+      ndisNumber: (a.signer as any).ndisNumber ?? null,
+      version: a.version ?? null,
+      termsSha256: terms?.bodySha256 ?? null,
+      effectiveDate: a.effectiveDate ? new Date(a.effectiveDate).toISOString() : null,
+      acknowledged: a.acknowledged,
+      signatureSha256,
+      signedAt: signedAt.toISOString(),
+    })
+  );
+
+/**
+ * Render and store the signed agreement PDF once ToS, privacy and consent are all accepted and a
+ * signature is on file. Saves pdfUrl, signedAt, contentHash and pdfSha256 on the profile.
+ * Returns null while the agreement is incomplete.
+ */
+export const generateSignedAgreement = async (userId: string, role: AgreementRole) => {
+  const a = await loadAgreement(userId, role);
+  const { tos, privacy, consent } = a.acknowledged;
+  if (!tos || !privacy || !consent || !a.signature?.dataUrl) return null;
+
+  const signatureImage = await readUpload(a.signature.dataUrl);
+  const signatureSha256 = signatureImage ? sha256(signatureImage) : null;
+  const signedAt = a.signature.date ? new Date(a.signature.date) : new Date();
+  const terms = a.stored.templateId
+    ? await AgreementTemplate.findById(a.stored.templateId).select("title bodySha256").lean()
+    : null;
+  const contentHash = contentHashFor(userId, role, a, terms, signatureSha256, signedAt);
+
+  const pdf = await createAgreementPdfBuffer({
+    title:
+      terms?.title ??
+      (role === "PARTICIPANT" ? "Participant Service Agreement" : "Trainer Employment Agreement"),
+    signer: a.signer,
+    version: a.version,
+    effectiveDate: a.effectiveDate ? new Date(a.effectiveDate).toISOString().slice(0, 10) : undefined,
+    termsSha256: terms?.bodySha256,
+    acknowledgements: [
+      { label: "Terms of Service", accepted: tos },
+      { label: "Privacy Policy", accepted: privacy },
+      { label: "Consent to provide supports and share information", accepted: consent },
+    ],
+    signatureImage,
+    signedAt: signedAt.toISOString(),
+    contentHash,
+    documentId: String(a.doc._id),
+  });
+
+  const fileName = `${userId}-${role.toLowerCase()}-agreement-${Date.now()}.pdf`;
+  const pdfUrl = await saveUpload("agreements", fileName, pdf, "application/pdf");
+  const pdfSha256 = sha256(pdf);
+  a.doc.set("agreement.pdfUrl", pdfUrl);
+  a.doc.set("agreement.signedAt", signedAt);
+  a.doc.set("agreement.contentHash", contentHash);
+  a.doc.set("agreement.pdfSha256", pdfSha256);
+  await a.doc.save();
+
+  return { pdfUrl, signedAt, contentHash, pdfSha256 };
+};
+
+/**
+ * Stored signed agreement. The file is checked against the hash recorded when it was generated,
+ * so an edited or swapped PDF is refused rather than served as the signed copy.
+ */
+export const getSignedAgreementPdf = async (
+  userId: string,
+  role: AgreementRole,
+  ctx: FileAccessContext = {}
+) => {
+  const a = await loadAgreement(userId, role);
+  const { pdfUrl, pdfSha256, contentHash } = a.stored;
+  if (!pdfUrl) throw new NotFoundError("Signed agreement");
+
+  // Routes already restrict this to the owner or an admin; record the access like other uploads
+  await logFileAccess(
+    { path: pdfUrl, ownerUserId: userId, action: "DOWNLOAD", via: "SESSION", allowed: true },
+    ctx
+  );
+
+  const pdf = await readUpload(pdfUrl);
+  if (!pdf) throw new NotFoundError("Signed agreement file");
+
+  if (sha256(pdf) !== pdfSha256) {
+    throw new AppError("Signed agreement failed its integrity check", 409);
+  }
+
+  return {
+    filename: path.basename(pdfUrl),
+    mime: "application/pdf",
+    buffer: pdf,
+    contentHash,
+  };
+};
@@ -0,0 +1,159 @@
+// services/agreementTemplate.service.ts
+import mongoose from "mongoose";
+import crypto from "crypto";
+import { AgreementTemplate, AgreementAudience } from "../models/agreementTemplate.model";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+const sha256 = (text: string) => crypto.createHash("sha256").update(text).digest("hex");
+
+export type AgreementTemplateInput = {
+  audience: AgreementAudience;
+  version: string;
+  title: string;
+  body: string;
+  effectiveFrom: Date;
+  active?: boolean;
+};
+
+export const createTemplate = async (input: AgreementTemplateInput, adminUserId: string) => {
+  const exists = await AgreementTemplate.exists({ audience: input.audience, version: input.version });
+  if (exists) throw new ConflictError(`Version ${input.version} already exists for ${input.audience}`);
+
+  return AgreementTemplate.create({
+    ...input,
+    effectiveFrom: new Date(input.effectiveFrom),
+    bodySha256: sha256(input.body),
+    createdBy: new mongoose.Types.ObjectId(adminUserId),
+  });
+};
+
+export const listTemplates = async ({
+  audience,
+  page = 1,
+  limit = 20,
+}: {
+  audience?: string;
+  page?: number;
+  limit?: number;
+}) => {
+  const q: any = {};
+  if (audience) q.audience = audience;
+
+  const [data, total] = await Promise.all([
+    AgreementTemplate.find(q)
+      .select("-body")
+      .sort({ audience: 1, effectiveFrom: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    AgreementTemplate.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+export const getTemplateById = async (id: string) => {
+  if (!isObjectId(id)) throw new AppError("Invalid template id", 400);
+  const template = await AgreementTemplate.findById(id).lean();
+  if (!template) throw new NotFoundError("AgreementTemplate");
+  return template;
+};
+
+/**
+ * Templates can be edited or withdrawn until they take effect. After that users may have signed
+ * them, so changed terms must be published as a new version.
+ */
+export const updateTemplate = async (
+  id: string,
+  patch: Partial<AgreementTemplateInput>,
+  adminUserId: string
+) => {
+  if (!isObjectId(id)) throw new AppError("Invalid template id", 400);
+  const template = await AgreementTemplate.findById(id);
+  if (!template) throw new NotFoundError("AgreementTemplate");
+
+  if (template.effectiveFrom <= new Date()) {
+    throw new ConflictError("Template is already in effect; publish a new version instead");
+  }
+
+  if (patch.version !== undefined && patch.version !== template.version) {
+    const exists = await AgreementTemplate.exists({ audience: template.audience, version: patch.version });
+    if (exists) throw new ConflictError(`Version ${patch.version} already exists for ${template.audience}`);
+    template.version = patch.version;
+  }
+  if (patch.title !== undefined) template.title = patch.title;
+  if (patch.body !== undefined) {
+    template.body = patch.body;
+    template.bodySha256 = sha256(patch.body);
+  }
+  if (patch.effectiveFrom !== undefined) template.effectiveFrom = new Date(patch.effectiveFrom);
+  if (patch.active !== undefined) template.active = patch.active;
+
+  template.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await template.save();
+  return template;
+};
+
+/** Latest active template in effect at `at` (null when none has been published) */
+export const getCurrentTemplate = async (audience: AgreementAudience, at: Date = new Date()) =>
+  AgreementTemplate.findOne({ audience, active: true, effectiveFrom: { $lte: at } })
+    .sort({ effectiveFrom: -1 })
+    .lean();
+
+/**
+ * Check the version a user is accepting against the current template. Returns the template
+ * (null while none is published, in which case the client's version is kept as before).
+ */
+export const resolveAgreementVersion = async (audience: AgreementAudience, version?: string | null) => {
+  const current = await getCurrentTemplate(audience);
+  if (!current) return null;
+
+  if (version !== current.version) {
+    throw new ValidationError(
+      [{ field: "agreement.version", message: `Current agreement version is ${current.version}` }],
+      "Agreement version is out of date"
+    );
+  }
+  return current;
+};
+
+/** Shown on /auth/me so clients can ask for re-acceptance */
+export const agreementStatusFor = async (
+  audience: AgreementAudience,
+  agreement?: { version?: string | null; signedAt?: Date | null } | null
+) => {
+  const current = await getCurrentTemplate(audience);
+  const acceptedVersion = agreement?.version || null;
+
+  return {
+    currentVersion: current?.version ?? null,
+    currentTemplateId: current?._id ?? null,
+    effectiveFrom: current?.effectiveFrom ?? null,
+    acceptedVersion,
+    signedAt: agreement?.signedAt ?? null,
+    reacceptRequired: !!current && acceptedVersion !== current.version,
+  };
+};
+
+/**
+ * Validate an agreement being accepted and stamp it with the template's version, effective date
+ * and id, so the stored agreement names the exact terms signed.
+ */
+export const applyCurrentTemplate = async <T extends { version?: string | null }>(
+  audience: AgreementAudience,
+  agreement: T
+) => {
+  const template = await resolveAgreementVersion(audience, agreement.version);
+  if (!template) return agreement;
+
+  return Object.assign(agreement, {
+    version: template.version,
+    effectiveDate: template.effectiveFrom,
+    templateId: template._id,
+  });
+};
@@ -1,43 +1,170 @@
 import bcrypt from "bcryptjs";
 import { AppError, AuthError, NotFoundError } from "../utils/errors";
-import { User } from "../models/user.model";
-import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import { IUser, User } from "../models/user.model";
+import { AuthToken, AuthTokenType } from "../models/authToken.model";
 import { IParticipant, Participant } from "../models/participant.model";
 import { ITrainer, Trainer } from "../models/trainer.model";
+import { agreementStatusFor } from "./agreementTemplate.service";
+import { sendEmail } from "../utils/email";
+import { createSession, revokeAllSessions, SessionContext } from "./session.service";
+import { ENV } from "../config/env";
+
+// --- Emailed password links ---
+
+const sha256 = (text: string) => crypto.createHash("sha256").update(text).digest("hex");
+
+const tokenTtlMs = (type: AuthTokenType) =>
+  type === "SET_PASSWORD"
+    ? ENV.SET_PASSWORD_TOKEN_TTL_HOURS * 60 * 60 * 1000
+    : ENV.RESET_PASSWORD_TOKEN_TTL_MINUTES * 60 * 1000;
+
+/**
+ * New single-use token for a user. Any earlier unused token of the same type is retired, so only
+ * the most recent email link works. Returns the raw token (only its hash is stored).
+ */
+export const issueAuthToken = async (
+  userId: string,
+  type: AuthTokenType,
+  ctx: { ip?: string | null } = {}
+) => {
+  const now = new Date();
+  await AuthToken.updateMany({ userId, type, usedAt: null }, { $set: { usedAt: now } });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  await AuthToken.create({
+    userId,
+    type,
+    tokenHash: sha256(token),
+    expiresAt: new Date(now.getTime() + tokenTtlMs(type)),
+    requestedIp: ctx.ip ?? null,
+  });
+  return token;
+};
 
+/** Redeem a token exactly once; returns the user it was issued to */
+const consumeAuthToken = async (token: string, type: AuthTokenType) => {
+  const now = new Date();
+  const record = await AuthToken.findOneAndUpdate(
+    { tokenHash: sha256(token), type, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  );
+  if (!record) throw new AppError("This link is invalid or has expired", 400);
 
+  const user = await User.findById(record.userId);
+  if (!user || user.status === "DELETED" || user.status === "BLOCKED") {
+    throw new AppError("This link is invalid or has expired", 400);
+  }
+  return user;
+};
 
-export const setPasswordForUser = async (email: string, password: string) => {
-
-  const user = await User.findOne({ email });
-  if (!user) throw new NotFoundError("User");
-
-  // Hash password
+/** Set a new password; bumping tokenVersion invalidates every access token already issued */
+const applyNewPassword = async (user: IUser, password: string) => {
   const salt = await bcrypt.genSalt(10);
   user.password = await bcrypt.hash(password, salt);
+  user.tokenVersion = (user.tokenVersion || 0) + 1;
+};
+
+const publicUser = (user: IUser) => ({
+  id: user._id,
+  email: user.email,
+  role: user.role,
+  status: user.status,
+});
+
+/** Email a "create login" link for an account that has no password yet */
+export const sendSetPasswordInvite = async (
+  user: { _id: any; email: string; role: string },
+  subject = "Create Your CareLink Login",
+  intro = "<p>Your CareLink account is ready, but you still need to create your login.</p>"
+) => {
+  const token = await issueAuthToken(String(user._id), "SET_PASSWORD");
+  const createLoginUrl = `${process.env.FRONTEND_URL}/auth/register/${user.role.toLowerCase()}/create-login?token=${token}`;
+
+  await sendEmail(
+    user.email,
+    subject,
+    `
+      <p>Hello,</p>
+      ${intro}
+      <p><a href="${createLoginUrl}" style="padding:10px 16px; background:#1976d2; color:#fff; text-decoration:none; border-radius:6px;">Create Login</a></p>
+      <p>This link can be used once and expires in ${ENV.SET_PASSWORD_TOKEN_TTL_HOURS} hours.</p>
+      <p>If you did not request this, please ignore this email.</p>
+      <p>Best regards,<br/>CareLink Team</p>
+    `
+  );
+};
+
+/** Redeem a "create login" invite; activates the account if it is still pending */
+export const setPasswordForUser = async (token: string, password: string) => {
+  const user = await consumeAuthToken(token, "SET_PASSWORD");
 
-  // Activate account if still pending
+  await applyNewPassword(user, password);
   if (user.status === "PENDING") {
     user.status = "ACTIVE";
   }
-
   await user.save();
+  await revokeAllSessions(String(user._id), "PASSWORD_CHANGED");
 
-  return {
-    id: user._id,
-    email: user.email,
-    role: user.role,
-    status: user.status,
-  };
+  return publicUser(user);
 };
 
+/**
+ * Forgot password. Always succeeds so the response doesn't reveal which emails have accounts.
+ * Active accounts get a reset link; accounts still waiting to create their login (active
+ * trainers, onboarding participants) get a fresh invite instead.
+ */
+export const requestPasswordReset = async (email: string, ctx: { ip?: string | null } = {}) => {
+  const user = await User.findOne({ email: email.trim() });
+  if (!user) return;
 
+  if (!user.password) {
+    const invited =
+      user.status === "ACTIVE" || (user.role === "PARTICIPANT" && user.status === "PENDING");
+    if (!invited) return;
+    try {
+      await sendSetPasswordInvite(user);
+    } catch (err) {
+      console.error("❌ Failed to send create-login invite:", err);
+    }
+    return;
+  }
+  if (user.status !== "ACTIVE") return;
+
+  const token = await issueAuthToken(String(user._id), "RESET_PASSWORD", ctx);
+  const resetUrl = `${process.env.FRONTEND_URL}/auth/reset-password?token=${token}`;
+
+  try {
+    await sendEmail(
+      user.email,
+      "Reset Your CareLink Password",
+      `
+        <p>Hello,</p>
+        <p>We received a request to reset the password for your CareLink account.</p>
+        <p><a href="${resetUrl}" style="padding:10px 16px; background:#1976d2; color:#fff; text-decoration:none; border-radius:6px;">Reset Password</a></p>
+        <p>This link can be used once and expires in ${ENV.RESET_PASSWORD_TOKEN_TTL_MINUTES} minutes.</p>
+        <p>If you did not request this, you can ignore this email; your password will not change.</p>
+        <p>Best regards,<br/>CareLink Team</p>
+      `
+    );
+  } catch (err) {
+    console.error("❌ Failed to send password reset email:", err);
+  }
+};
+
+/** Redeem a reset link; every existing login token for the user stops working */
+export const resetPassword = async (token: string, password: string) => {
+  const user = await consumeAuthToken(token, "RESET_PASSWORD");
 
+  await applyNewPassword(user, password);
+  await user.save();
+  await revokeAllSessions(String(user._id), "PASSWORD_CHANGED");
 
-const JWT_SECRET = process.env.JWT_SECRET || "super-secret-key";
-const JWT_EXPIRES_IN = "7d"; // adjust as needed
+  return publicUser(user);
+};
 
-export const loginUser = async (email: string, password: string) => {
+export const loginUser = async (email: string, password: string, ctx: SessionContext = {}) => {
   const user = await User.findOne({ email });
   if (!user) throw new NotFoundError("User", "Invalid email or password!");
 
@@ -64,20 +191,12 @@ export const loginUser = async (email: string, password: string) => {
       throw new AppError("Account status invalid. Contact support.", 403);
   }
 
-  const token = jwt.sign(
-    { userId: user._id, role: user.role },
-    JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
-  );
+  // Short-lived access token + rotating refresh token, tied to a server-side session
+  const tokens = await createSession(user, ctx);
 
   return {
-    token,
-    user: {
-      id: user._id,
-      email: user.email,
-      role: user.role,
-      status: user.status,
-    },
+    ...tokens,
+    user: publicUser(user),
   };
 };
 
@@ -115,9 +234,18 @@ export const getUserById = async (userId: string) => {
     name = user.email || null;
   }
 
+  // Agreement version check: clients prompt for re-acceptance when reacceptRequired
+  const agreementStatus =
+    user.role === "TRAINER"
+      ? await agreementStatusFor("TRAINER", trainer?.agreement)
+      : user.role === "PARTICIPANT"
+        ? await agreementStatusFor("PARTICIPANT", participant?.agreement)
+        : undefined;
+
   return {
     ...user.toObject(), // preserves existing shape
     name,
+    agreementStatus,
     // new optional role-specific payloads (non-breaking additions)
     trainer: user.role === "TRAINER" ? trainer : undefined,
     participant: user.role === "PARTICIPANT" ? participant : undefined,
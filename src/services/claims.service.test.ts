@@ -0,0 +1,66 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { ENV } from "../config/env";
+import { BULK_CLAIM_COLUMNS, buildBulkClaimCsv } from "./claims.service";
+
+const line = (overrides: Record<string, any> = {}) => ({
+  ndisNumber: "430123456",
+  supportsDeliveredFrom: "2025-10-06",
+  supportsDeliveredTo: "2025-10-06",
+  supportItemNumber: "04_104_0125_6_1",
+  claimReference: "CL65F0C0FFEE00000000000001DAY",
+  quantity: 2.5,
+  unitPriceCents: 6747,
+  ...overrides,
+});
+
+const parse = (buffer: Buffer) => buffer.toString("utf8").split("\r\n").map((r) => r.split(","));
+
+describe("buildBulkClaimCsv", () => {
+  before(() => {
+    ENV.NDIS_REGISTRATION_NUMBER = "405000123";
+    ENV.PROVIDER_ABN = "51824753556";
+  });
+
+  it("writes the NDIA columns in order, without a byte order mark", () => {
+    const buffer = buildBulkClaimCsv([line()]);
+    assert.notEqual(buffer[0], 0xef);
+
+    const [header] = parse(buffer);
+    assert.deepEqual(header, BULK_CLAIM_COLUMNS);
+    assert.equal(header.length, 16);
+  });
+
+  it("writes one row per claim line", () => {
+    const rows = parse(buildBulkClaimCsv([line(), line({ claimReference: "SECOND" })]));
+    assert.equal(rows.length, 3);
+    assert.equal(rows[2][5], "SECOND");
+  });
+
+  it("formats quantity, unit price, GST code and provider details", () => {
+    const [, row] = parse(buildBulkClaimCsv([line()]));
+    const cell = (name: string) => row[BULK_CLAIM_COLUMNS.indexOf(name)];
+
+    assert.equal(row.length, BULK_CLAIM_COLUMNS.length);
+    assert.equal(cell("RegistrationNumber"), "405000123");
+    assert.equal(cell("NDISNumber"), "430123456");
+    assert.equal(cell("SupportsDeliveredFrom"), "2025-10-06");
+    assert.equal(cell("SupportsDeliveredTo"), "2025-10-06");
+    assert.equal(cell("SupportNumber"), "04_104_0125_6_1");
+    assert.equal(cell("Quantity"), "2.50");
+    assert.equal(cell("Hours"), "");
+    assert.equal(cell("UnitPrice"), "67.47");
+    assert.equal(cell("GSTCode"), "P2");
+    assert.equal(cell("ClaimType"), "");
+    assert.equal(cell("ABN of Support Provider"), "51824753556");
+  });
+
+  it("rounds quantity to two decimals", () => {
+    const [, row] = parse(buildBulkClaimCsv([line({ quantity: 1 / 3 })]));
+    assert.equal(row[BULK_CLAIM_COLUMNS.indexOf("Quantity")], "0.33");
+  });
+
+  it("writes only the header for no lines", () => {
+    assert.equal(parse(buildBulkClaimCsv([])).length, 1);
+  });
+});
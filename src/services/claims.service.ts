@@ -0,0 +1,336 @@
+// services/claims.service.ts
+import mongoose from "mongoose";
+import crypto from "crypto";
+import { ClaimLine, ClaimStatus } from "../models/claimLine.model";
+import { Shift } from "../models/shift.model";
+import { Invoice } from "../models/invoice.model";
+import { Participant } from "../models/participant.model";
+import { RateCard } from "../models/rateCard.model";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import { createTableCsvBuffer } from "../utils/csv";
+import { mergeSegmentsByBand } from "../utils/ndis-pricing";
+import { STATE_TIMEZONES, AustralianState, getZonedParts } from "../utils/timezone";
+import { ENV } from "../config/env";
+import { supportItemForBand } from "./rateCard.service";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+/** Only these funding types are claimed from the NDIA; self-managed participants pay us directly */
+const CLAIMABLE_FUNDING = ["plan", "ndia"];
+
+/** Official NDIA bulk payment request columns, in order */
+export const BULK_CLAIM_COLUMNS = [
+  "RegistrationNumber",
+  "NDISNumber",
+  "SupportsDeliveredFrom",
+  "SupportsDeliveredTo",
+  "SupportNumber",
+  "ClaimReference",
+  "Quantity",
+  "Hours",
+  "UnitPrice",
+  "GSTCode",
+  "AuthorisedBy",
+  "ParticipantApproved",
+  "InKindFundingProgram",
+  "ClaimType",
+  "CancellationReason",
+  "ABN of Support Provider",
+];
+
+/** Allowed manual status changes (DRAFT → SUBMITTED happens through submitClaims) */
+const STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  DRAFT: [],
+  SUBMITTED: ["PAID", "REJECTED"],
+  PAID: [],
+  REJECTED: ["DRAFT"],
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type SkippedShift = { shiftId: string; reason: string };
+
+/**
+ * Build DRAFT claim lines for completed shifts of plan/NDIA-managed participants.
+ * One line per rate band worked (each band has its own NDIS support item). Shifts that already
+ * have claim lines or sit on a non-VOID invoice are left alone; shifts that cannot be claimed are
+ * returned in `skipped`.
+ */
+export const generateClaims = async (
+  { from, to, participantId }: { from: Date; to: Date; participantId?: string },
+  adminUserId: string
+) => {
+  if (isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime())) {
+    throw new AppError("Invalid from/to dates", 400);
+  }
+  if (participantId && !isObjectId(participantId)) throw new AppError("Invalid participantId", 400);
+
+  const shifts = await Shift.find({
+    status: "COMPLETED",
+    scheduledEnd: { $gte: new Date(from), $lte: new Date(to) },
+    ...(participantId ? { participantId } : {}),
+  }).lean();
+
+  const claimed = new Set(
+    (
+      await ClaimLine.distinct("shiftId", { shiftId: { $in: shifts.map((s) => s._id) } })
+    ).map(String)
+  );
+  // Shifts already invoiced (non-VOID) are being paid through the invoice, so are not claimed
+  const invoiced = new Set(
+    (
+      await Invoice.distinct("shiftIds", {
+        shiftIds: { $in: shifts.map((s) => s._id) },
+        status: { $ne: "VOID" },
+      })
+    ).map(String)
+  );
+  const pending = shifts.filter(
+    (s) => !claimed.has(String(s._id)) && !invoiced.has(String(s._id))
+  );
+
+  const participants = await Participant.find({
+    userId: { $in: Array.from(new Set(pending.map((s) => String(s.participantId)))) },
+  })
+    .select("userId ndisNumber fundingType")
+    .lean();
+  const participantByUser = new Map(participants.map((p) => [String(p.userId), p]));
+
+  const cardIds = pending.map((s) => s.billing?.rateCardId).filter(Boolean);
+  const cards = await RateCard.find({ _id: { $in: cardIds } })
+    .select("ndisSupportItemNumber ndisBandItemNumbers")
+    .lean();
+  const cardById = new Map(cards.map((c) => [String(c._id), c]));
+
+  const skipped: SkippedShift[] = [];
+  const docs: any[] = [];
+
+  for (const shift of pending) {
+    const skip = (reason: string) => skipped.push({ shiftId: String(shift._id), reason });
+
+    const participant = participantByUser.get(String(shift.participantId));
+    if (!participant) {
+      skip("Participant profile not found");
+      continue;
+    }
+    if (!CLAIMABLE_FUNDING.includes(participant.fundingType)) continue; // self-managed: invoiced, not claimed
+    if (!participant.ndisNumber) {
+      skip("Participant has no NDIS number");
+      continue;
+    }
+    const segments = shift.billing?.segments || [];
+    if (!segments.length) {
+      skip("Shift has no billing snapshot");
+      continue;
+    }
+
+    const card = shift.billing?.rateCardId ? cardById.get(String(shift.billing.rateCardId)) : null;
+    const timeZone =
+      STATE_TIMEZONES[(shift.billing?.state || ENV.DEFAULT_STATE) as AustralianState];
+
+    const byBand = mergeSegmentsByBand(segments);
+
+    const missingItem = Array.from(byBand.keys()).filter((band) => !supportItemForBand(card, band));
+    if (missingItem.length) {
+      skip(`No NDIS support item number on the rate card for: ${missingItem.join(", ")}`);
+      continue;
+    }
+
+    for (const [band, row] of byBand) {
+      const quantity = round2(row.minutes / 60);
+      docs.push({
+        shiftId: shift._id,
+        shiftRequestId: shift.shiftRequestId,
+        participantId: shift.participantId,
+        trainerId: shift.trainerId,
+        fundingType: participant.fundingType,
+        ndisNumber: participant.ndisNumber,
+        supportItemNumber: supportItemForBand(card, band)!,
+        rateBand: band,
+        supportsDeliveredFrom: getZonedParts(new Date(row.start), timeZone).dateKey,
+        // end is exclusive; step back a minute so a shift ending at midnight stays on its day
+        supportsDeliveredTo: getZonedParts(new Date(new Date(row.end).getTime() - 60000), timeZone)
+          .dateKey,
+        quantity,
+        unitPriceCents: row.hourlyRateCents,
+        totalCents: Math.round(quantity * row.hourlyRateCents),
+        claimReference: `CL${shift._id}${band.slice(0, 3)}`.toUpperCase(),
+        status: "DRAFT",
+        createdBy: new mongoose.Types.ObjectId(adminUserId),
+      });
+    }
+  }
+
+  const created = docs.length ? await ClaimLine.insertMany(docs) : [];
+  return { created: created.length, lines: created, skipped };
+};
+
+type ListClaimsParams = {
+  status?: string;
+  participantId?: string;
+  batchRef?: string;
+  page?: number;
+  limit?: number;
+};
+
+export const listClaimLines = async (params: ListClaimsParams) => {
+  const { status, participantId, batchRef, page = 1, limit = 50 } = params;
+
+  const q: any = {};
+  if (status) q.status = status;
+  if (participantId && isObjectId(participantId)) q.participantId = participantId;
+  if (batchRef) q.batchRef = batchRef;
+
+  const [data, total] = await Promise.all([
+    ClaimLine.find(q)
+      .sort({ supportsDeliveredFrom: -1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    ClaimLine.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+/** NDIA bulk payment request file for a set of claim lines, one row per line */
+export const buildBulkClaimCsv = (lines: any[]) => {
+  const rows = lines.map((l) => [
+    ENV.NDIS_REGISTRATION_NUMBER,
+    l.ndisNumber,
+    l.supportsDeliveredFrom,
+    l.supportsDeliveredTo,
+    l.supportItemNumber,
+    l.claimReference,
+    l.quantity.toFixed(2),
+    "",
+    (l.unitPriceCents / 100).toFixed(2),
+    "P2", // GST free (NDIS supports)
+    "",
+    "",
+    "",
+    "",
+    "",
+    ENV.PROVIDER_ABN,
+  ]);
+  return createTableCsvBuffer(BULK_CLAIM_COLUMNS, rows, { withBOM: false });
+};
+
+/**
+ * Put DRAFT lines into a new bulk payment request file and mark them SUBMITTED.
+ */
+export const submitClaims = async (claimLineIds: string[], adminUserId: string) => {
+  const problems: Array<{ field: string; message: string }> = [];
+  if (!/^\d{9}$/.test(ENV.NDIS_REGISTRATION_NUMBER)) {
+    problems.push({ field: "NDIS_REGISTRATION_NUMBER", message: "9-digit provider registration number is required" });
+  }
+  if (!/^\d{11}$/.test(ENV.PROVIDER_ABN.replace(/\s/g, ""))) {
+    problems.push({ field: "PROVIDER_ABN", message: "11-digit ABN is required" });
+  }
+  if (problems.length) throw new ValidationError(problems, "Claims cannot be submitted");
+
+  const ids = Array.from(new Set(claimLineIds));
+  if (!ids.length) throw new AppError("claimLineIds is required", 400);
+  if (ids.some((id) => !isObjectId(id))) throw new AppError("Invalid claim line id", 400);
+
+  const lines = await ClaimLine.find({ _id: { $in: ids } }).lean();
+  if (lines.length !== ids.length) throw new NotFoundError("Claim line", "Some claim lines were not found");
+
+  const notDraft = lines.filter((l) => l.status !== "DRAFT").map((l) => String(l._id));
+  if (notDraft.length) {
+    throw new ConflictError("Only DRAFT claim lines can be submitted", { claimLineIds: notDraft });
+  }
+
+  const batchRef = `B${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${crypto
+    .randomBytes(3)
+    .toString("hex")
+    .toUpperCase()}`;
+
+  const { modifiedCount } = await ClaimLine.updateMany(
+    { _id: { $in: ids }, status: "DRAFT" },
+    {
+      $set: {
+        status: "SUBMITTED",
+        batchRef,
+        submittedAt: new Date(),
+        updatedBy: new mongoose.Types.ObjectId(adminUserId),
+      },
+    }
+  );
+
+  // A concurrent submit took some of the lines: hand ours back so no line is in two files
+  if (modifiedCount !== ids.length) {
+    await ClaimLine.updateMany(
+      { batchRef, status: "SUBMITTED" },
+      { $set: { status: "DRAFT", batchRef: null, submittedAt: null } }
+    );
+    throw new ConflictError("Some claim lines were submitted in another batch; reload and try again");
+  }
+
+  // Build the file from what this batch actually holds
+  const submitted = await ClaimLine.find({ batchRef }).sort({ supportsDeliveredFrom: 1 }).lean();
+
+  return {
+    batchRef,
+    filename: `ndis_bulk_claim_${batchRef}.csv`,
+    mime: "text/csv; charset=utf-8",
+    buffer: buildBulkClaimCsv(submitted),
+  };
+};
+
+/** Re-download the file for an earlier batch */
+export const exportClaimBatch = async (batchRef: string) => {
+  const lines = await ClaimLine.find({ batchRef }).sort({ supportsDeliveredFrom: 1 }).lean();
+  if (!lines.length) throw new NotFoundError("Claim batch");
+
+  return {
+    filename: `ndis_bulk_claim_${batchRef}.csv`,
+    mime: "text/csv; charset=utf-8",
+    buffer: buildBulkClaimCsv(lines),
+  };
+};
+
+/**
+ * Record the NDIA outcome for a submitted line (PAID / REJECTED) or reset a rejected line.
+ */
+export const updateClaimStatus = async (
+  id: string,
+  {
+    status,
+    reason,
+    paidAmountCents,
+  }: { status: ClaimStatus; reason?: string; paidAmountCents?: number },
+  adminUserId: string
+) => {
+  if (!isObjectId(id)) throw new AppError("Invalid claim line id", 400);
+  const line = await ClaimLine.findById(id);
+  if (!line) throw new NotFoundError("Claim line");
+
+  if (!STATUS_TRANSITIONS[line.status].includes(status)) {
+    throw new ConflictError(`Cannot move a ${line.status} claim line to ${status}`);
+  }
+
+  const now = new Date();
+  if (status === "PAID") {
+    line.paidAt = now;
+    line.paidAmountCents = paidAmountCents ?? line.totalCents;
+  } else if (status === "REJECTED") {
+    if (!reason?.trim()) throw new AppError("A rejection reason is required", 400);
+    line.rejectedAt = now;
+    line.rejectionReason = reason.trim();
+  } else if (status === "DRAFT") {
+    // Back to the queue for a corrected claim; a new reference keeps NDIA references unique
+    line.batchRef = null;
+    line.submittedAt = null;
+    const base = line.claimReference.split("R")[0]; // "CL<shiftId><band>" never contains R
+    line.claimReference = `${base}R${now.getTime().toString(36).toUpperCase()}`;
+  }
+
+  line.status = status;
+  line.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await line.save();
+  return line;
+};
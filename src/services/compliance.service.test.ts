@@ -0,0 +1,126 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { ENV } from "../config/env";
+import { evaluateTrainerCompliance } from "./compliance.service";
+
+// Noon 1 Mar 2026 in Sydney
+const AT = new Date("2026-03-01T01:00:00Z");
+
+const doc = (expiry?: string | null, status = "VERIFIED") => ({
+  filePath: "trainers/t1/doc.pdf",
+  status,
+  ...(expiry !== undefined ? { expiry } : {}),
+});
+
+const valid = { ndisCheck: doc("2027-01-01"), wwcc: doc("2027-01-01") };
+
+const stateOf = (result: ReturnType<typeof evaluateTrainerCompliance>, key: string) =>
+  result.documents.find((d) => d.key === key)!;
+
+describe("evaluateTrainerCompliance", () => {
+  before(() => {
+    ENV.DEFAULT_STATE = "NSW";
+    ENV.COMPLIANCE_MANDATORY_DOCUMENTS = ["ndisCheck", "wwcc"];
+    ENV.COMPLIANCE_REMINDER_DAYS = [60, 30, 7];
+  });
+
+  it("is COMPLIANT when every mandatory check is current", () => {
+    const result = evaluateTrainerCompliance({ documents: valid }, AT);
+    assert.equal(result.status, "COMPLIANT");
+    assert.deepEqual(result.lapsed, []);
+    assert.equal(stateOf(result, "ndisCheck").state, "VALID");
+    assert.equal(stateOf(result, "ndisCheck").daysRemaining, 306);
+  });
+
+  it("reports every known document, missing ones included", () => {
+    const result = evaluateTrainerCompliance({ documents: valid }, AT);
+    assert.deepEqual(
+      result.documents.map((d) => [d.key, d.mandatory, d.state]),
+      [
+        ["ndisCheck", true, "VALID"],
+        ["wwcc", true, "VALID"],
+        ["licence", false, "MISSING"],
+        ["firstAid", false, "MISSING"],
+        ["cpr", false, "MISSING"],
+        ["qualification", false, "MISSING"],
+      ]
+    );
+  });
+
+  it("is LAPSED once a mandatory check has expired", () => {
+    const result = evaluateTrainerCompliance({ documents: { ...valid, wwcc: doc("2026-02-28") } }, AT);
+    assert.equal(result.status, "LAPSED");
+    assert.deepEqual(result.lapsed, ["wwcc"]);
+    assert.equal(stateOf(result, "wwcc").state, "EXPIRED");
+    assert.equal(stateOf(result, "wwcc").daysRemaining, -1);
+  });
+
+  it("treats a document as valid through its expiry day", () => {
+    const result = evaluateTrainerCompliance({ documents: { ...valid, wwcc: doc("2026-03-01") } }, AT);
+    assert.equal(stateOf(result, "wwcc").state, "EXPIRING");
+    assert.equal(stateOf(result, "wwcc").daysRemaining, 0);
+    assert.equal(result.status, "ACTION_REQUIRED");
+  });
+
+  it("uses the local date, not the UTC one", () => {
+    // 28 Feb 23:30 UTC is already 1 Mar in Sydney
+    const result = evaluateTrainerCompliance(
+      { documents: { ...valid, wwcc: doc("2026-02-28") } },
+      new Date("2026-02-28T23:30:00Z")
+    );
+    assert.equal(stateOf(result, "wwcc").state, "EXPIRED");
+  });
+
+  it("flags documents inside the longest reminder window as EXPIRING", () => {
+    const inside = evaluateTrainerCompliance({ documents: { ...valid, wwcc: doc("2026-04-30") } }, AT);
+    assert.equal(stateOf(inside, "wwcc").daysRemaining, 60);
+    assert.equal(stateOf(inside, "wwcc").state, "EXPIRING");
+
+    const outside = evaluateTrainerCompliance({ documents: { ...valid, wwcc: doc("2026-05-01") } }, AT);
+    assert.equal(stateOf(outside, "wwcc").state, "VALID");
+  });
+
+  it("does not lapse for an expired optional document", () => {
+    const result = evaluateTrainerCompliance({ documents: { ...valid, firstAid: doc("2025-01-01") } }, AT);
+    assert.equal(result.status, "ACTION_REQUIRED");
+    assert.deepEqual(result.lapsed, []);
+    assert.equal(stateOf(result, "firstAid").state, "EXPIRED");
+  });
+
+  it("needs action for a missing mandatory document", () => {
+    const result = evaluateTrainerCompliance({ documents: { ndisCheck: valid.ndisCheck } }, AT);
+    assert.equal(result.status, "ACTION_REQUIRED");
+    assert.equal(stateOf(result, "wwcc").state, "MISSING");
+    assert.equal(stateOf(result, "wwcc").review, null);
+  });
+
+  it("counts a document without a file as missing", () => {
+    const result = evaluateTrainerCompliance(
+      { documents: { ...valid, wwcc: { expiry: "2027-01-01", status: "VERIFIED" } } },
+      AT
+    );
+    assert.equal(stateOf(result, "wwcc").state, "MISSING");
+  });
+
+  it("treats absent or unparsable expiry dates as no expiry", () => {
+    for (const expiry of [undefined, null, "null", "not a date"]) {
+      const result = evaluateTrainerCompliance({ documents: { ...valid, wwcc: doc(expiry) } }, AT);
+      assert.equal(stateOf(result, "wwcc").state, "NO_EXPIRY");
+      assert.equal(stateOf(result, "wwcc").expiry, null);
+    }
+  });
+
+  it("defaults the review status of an uploaded document to SUBMITTED", () => {
+    const result = evaluateTrainerCompliance(
+      { documents: { ...valid, wwcc: { filePath: "x.pdf", expiry: "2027-01-01" } } },
+      AT
+    );
+    assert.equal(stateOf(result, "wwcc").review, "SUBMITTED");
+  });
+
+  it("handles a trainer with no documents at all", () => {
+    const result = evaluateTrainerCompliance({ documents: null }, AT);
+    assert.equal(result.status, "ACTION_REQUIRED");
+    assert.ok(result.documents.every((d) => d.state === "MISSING"));
+  });
+});
@@ -0,0 +1,542 @@
+// services/compliance.service.ts
+import mongoose from "mongoose";
+import { Trainer, DocumentReviewStatus } from "../models/trainer.model";
+import { User } from "../models/user.model";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { getZonedParts, STATE_TIMEZONES, AustralianState } from "../utils/timezone";
+import { createTableCsvBuffer } from "../utils/csv";
+import { escapeHtml, sendEmail } from "../utils/email";
+import { ENV } from "../config/env";
+import { getCurrentTemplate } from "./agreementTemplate.service";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+/** Documents collected at trainer onboarding step 4 (keys of trainer.documents) */
+export const COMPLIANCE_DOCUMENTS = [
+  { key: "ndisCheck", label: "NDIS Worker Screening Check" },
+  { key: "wwcc", label: "Working With Children Check" },
+  { key: "licence", label: "Driver Licence" },
+  { key: "firstAid", label: "First Aid Certificate" },
+  { key: "cpr", label: "CPR Certificate" },
+  { key: "qualification", label: "Qualification" },
+] as const;
+
+export type ComplianceDocumentKey = (typeof COMPLIANCE_DOCUMENTS)[number]["key"];
+
+export type DocumentComplianceState = "MISSING" | "NO_EXPIRY" | "VALID" | "EXPIRING" | "EXPIRED";
+
+/** LAPSED = a mandatory check has expired; the trainer cannot be assigned or clock in */
+export type TrainerComplianceStatus = "COMPLIANT" | "ACTION_REQUIRED" | "LAPSED";
+
+export type DocumentCompliance = {
+  key: ComplianceDocumentKey;
+  label: string;
+  mandatory: boolean;
+  state: DocumentComplianceState;
+  review: DocumentReviewStatus | null; // null when missing
+  expiry: string | null; // YYYY-MM-DD
+  daysRemaining: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeZone = () => STATE_TIMEZONES[ENV.DEFAULT_STATE as AustralianState];
+
+/** Longest reminder lead time; documents expiring inside it show as EXPIRING */
+const warningDays = () => Math.max(0, ...ENV.COMPLIANCE_REMINDER_DAYS);
+
+/** Stored expiry → YYYY-MM-DD (uploads send "2026-03-31"; anything unparsable counts as none) */
+const expiryKey = (value: unknown) => {
+  if (!value || value === "null") return null;
+  const d = new Date(value as any);
+  return isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+};
+
+/** Whole days from today (local) to the expiry date; the document is valid through that day */
+const daysUntil = (expiry: string, at: Date) => {
+  const today = getZonedParts(at, timeZone()).dateKey;
+  return Math.round((Date.parse(expiry) - Date.parse(today)) / DAY_MS);
+};
+
+/**
+ * Per-document and overall compliance of a trainer at `at`. Pure: works on any object that
+ * has the trainer's `documents`.
+ */
+export const evaluateTrainerCompliance = (
+  trainer: { documents?: Record<string, any> | null },
+  at: Date = new Date()
+) => {
+  const documents: DocumentCompliance[] = COMPLIANCE_DOCUMENTS.map(({ key, label }) => {
+    const mandatory = ENV.COMPLIANCE_MANDATORY_DOCUMENTS.includes(key);
+    const doc = trainer.documents?.[key];
+
+    if (!doc?.filePath) {
+      return {
+        key,
+        label,
+        mandatory,
+        state: "MISSING",
+        review: null,
+        expiry: null,
+        daysRemaining: null,
+      };
+    }
+    const review: DocumentReviewStatus = doc.status || "SUBMITTED";
+    const expiry = expiryKey(doc.expiry);
+    if (!expiry) {
+      return { key, label, mandatory, state: "NO_EXPIRY", review, expiry: null, daysRemaining: null };
+    }
+
+    const daysRemaining = daysUntil(expiry, at);
+    const state: DocumentComplianceState =
+      daysRemaining < 0 ? "EXPIRED" : daysRemaining <= warningDays() ? "EXPIRING" : "VALID";
+    return { key, label, mandatory, state, review, expiry, daysRemaining };
+  });
+
+  const lapsed = documents.filter((d) => d.mandatory && d.state === "EXPIRED");
+  const attention = documents.filter(
+    (d) =>
+      d.state === "EXPIRED" || d.state === "EXPIRING" || (d.mandatory && d.state === "MISSING")
+  );
+
+  const status: TrainerComplianceStatus = lapsed.length
+    ? "LAPSED"
+    : attention.length
+      ? "ACTION_REQUIRED"
+      : "COMPLIANT";
+
+  return {
+    status,
+    lapsed: lapsed.map((d) => d.key),
+    documents,
+  };
+};
+
+export const getTrainerCompliance = async (trainerId: string) => {
+  if (!isObjectId(trainerId)) throw new AppError("Invalid trainer id", 400);
+  const trainer = await Trainer.findById(trainerId).select("fullName documents").lean();
+  if (!trainer) throw new NotFoundError("Trainer");
+
+  return {
+    trainerId: trainer._id,
+    fullName: trainer.fullName,
+    ...evaluateTrainerCompliance(trainer),
+  };
+};
+
+export const getMyCompliance = async (userId: string) => {
+  const trainer = await Trainer.findOne({ userId }).select("_id").lean();
+  if (!trainer) throw new NotFoundError("Trainer");
+  return getTrainerCompliance(String(trainer._id));
+};
+
+/**
+ * Refuse work for a trainer whose mandatory checks have lapsed by `at`.
+ */
+export const assertTrainerCompliant = (
+  trainer: { fullName?: string; documents?: Record<string, any> | null },
+  at: Date = new Date()
+) => {
+  const { lapsed, documents } = evaluateTrainerCompliance(trainer, at);
+  if (!lapsed.length) return;
+
+  const labels = documents.filter((d) => lapsed.includes(d.key)).map((d) => d.label);
+  throw new ConflictError(
+    `${trainer.fullName || "Trainer"} has lapsed compliance checks: ${labels.join(", ")}`,
+    { lapsed }
+  );
+};
+
+/**
+ * Trainers whose account is not BLOCKED / DELETED (status lives on the User), with the account
+ * email and status attached.
+ */
+const loadWorkforce = async (select: string, { userStatus }: { userStatus?: string } = {}) => {
+  const users = await User.find({
+    role: "TRAINER",
+    status: userStatus ? userStatus : { $nin: ["BLOCKED", "DELETED"] },
+  })
+    .select("email status")
+    .lean();
+  const userById = new Map(users.map((u) => [String(u._id), u]));
+
+  const trainers = await Trainer.find({ userId: { $in: users.map((u) => u._id) } })
+    .select(select)
+    .lean();
+
+  return trainers.map((t) => {
+    const user = userById.get(String(t.userId));
+    return { ...t, email: user?.email, userStatus: user?.status };
+  });
+};
+
+// --- Document review ---
+
+const documentLabel = (key: string) => COMPLIANCE_DOCUMENTS.find((d) => d.key === key)?.label;
+
+/**
+ * Documents waiting on (or past) admin review, oldest upload first.
+ * Query `status` defaults to SUBMITTED.
+ */
+export const listDocumentsForReview = async ({
+  status = "SUBMITTED",
+  trainerId,
+}: {
+  status?: DocumentReviewStatus;
+  trainerId?: string;
+}) => {
+  if (trainerId && !isObjectId(trainerId)) throw new AppError("Invalid trainer id", 400);
+
+  const trainers = trainerId
+    ? await Trainer.find({ _id: trainerId }).select("userId fullName documents").lean()
+    : await loadWorkforce("userId fullName documents");
+
+  const rows = trainers.flatMap((t) =>
+    COMPLIANCE_DOCUMENTS.flatMap(({ key, label }) => {
+      const doc = t.documents?.[key];
+      if (!doc?.filePath || (doc.status || "SUBMITTED") !== status) return [];
+      return [
+        {
+          trainerId: String(t._id),
+          fullName: t.fullName,
+          document: key,
+          label,
+          mandatory: ENV.COMPLIANCE_MANDATORY_DOCUMENTS.includes(key),
+          ...doc,
+          status: doc.status || "SUBMITTED",
+        },
+      ];
+    })
+  );
+
+  return rows.sort(
+    (a, b) => new Date(a.submittedAt || 0).getTime() - new Date(b.submittedAt || 0).getTime()
+  );
+};
+
+/**
+ * Verify or reject one uploaded document. A rejection emails the trainer a link to upload it again.
+ */
+export const reviewTrainerDocument = async (
+  trainerId: string,
+  key: string,
+  { status, reason }: { status: Exclude<DocumentReviewStatus, "SUBMITTED">; reason?: string },
+  adminUserId: string
+) => {
+  if (!isObjectId(trainerId)) throw new AppError("Invalid trainer id", 400);
+  const label = documentLabel(key);
+  if (!label) throw new AppError(`Unknown document ${key}`, 400);
+  if (status === "REJECTED" && !reason?.trim()) {
+    throw new AppError("A rejection reason is required", 400);
+  }
+
+  const trainer = await Trainer.findById(trainerId);
+  if (!trainer) throw new NotFoundError("Trainer");
+  const doc = trainer.documents?.[key];
+  if (!doc?.filePath) throw new NotFoundError("Document", `${label} has not been uploaded`);
+
+  const reviewed = {
+    ...doc,
+    status,
+    reviewedBy: new mongoose.Types.ObjectId(adminUserId),
+    reviewedAt: new Date(),
+    rejectionReason: status === "REJECTED" ? reason!.trim() : null,
+  };
+  trainer.documents = { ...trainer.documents, [key]: reviewed };
+  trainer.markModified("documents");
+  await trainer.save();
+
+  if (status === "REJECTED") {
+    const user = await User.findById(trainer.userId).select("email").lean();
+    const reuploadUrl = `${process.env.FRONTEND_URL}/trainer/profile?reupload=${encodeURIComponent(key)}`;
+
+    if (user?.email) {
+      try {
+        await sendEmail(
+          user.email,
+          `Please Re-upload Your ${label}`,
+          `
+            <p>Hello ${escapeHtml(trainer.fullName || "Trainer")},</p>
+            <p>We reviewed your <b>${label}</b> and could not accept it.</p>
+            <p><b>Reason:</b> ${escapeHtml(reviewed.rejectionReason)}</p>
+            <p><a href="${reuploadUrl}" style="padding:10px 16px; background:#1976d2; color:#fff; text-decoration:none; border-radius:6px;">Upload a New Copy</a></p>
+            <p>Best regards,<br/>CareLink Team</p>
+          `
+        );
+      } catch (err) {
+        console.error("❌ Failed to send document rejection email:", err);
+      }
+    }
+  }
+
+  return { trainerId: String(trainer._id), document: key, label, ...reviewed };
+};
+
+/**
+ * Activation gate: every mandatory document uploaded and verified by an admin.
+ */
+export const assertMandatoryDocumentsVerified = (trainer: {
+  fullName?: string;
+  documents?: Record<string, any> | null;
+}) => {
+  const { documents } = evaluateTrainerCompliance(trainer);
+  const pending = documents.filter((d) => d.mandatory && d.review !== "VERIFIED");
+  if (!pending.length) return;
+
+  throw new ConflictError(
+    `${trainer.fullName || "Trainer"} cannot be activated until these documents are verified: ${pending
+      .map((d) => d.label)
+      .join(", ")}`,
+    { unverified: pending.map((d) => ({ document: d.key, review: d.review ?? "MISSING" })) }
+  );
+};
+
+export type DueReminder = {
+  trainerId: string;
+  userId: string;
+  fullName?: string;
+  document: DocumentCompliance;
+  daysBefore: number; // threshold reached; 0 = lapsed notice
+};
+
+/**
+ * Reminders to send now. Only the tightest threshold reached is due (a document first seen 20 days
+ * out gets the 30-day reminder, not the 60-day one too), and each threshold is sent once per expiry.
+ */
+export const findDueReminders = async (at: Date = new Date()): Promise<DueReminder[]> => {
+  const thresholds = [...ENV.COMPLIANCE_REMINDER_DAYS].sort((a, b) => a - b);
+  const trainers = await loadWorkforce("userId fullName documents complianceReminders");
+
+  const due: DueReminder[] = [];
+  for (const trainer of trainers) {
+    const sent = trainer.complianceReminders || [];
+    for (const doc of evaluateTrainerCompliance(trainer, at).documents) {
+      if (doc.expiry === null || doc.daysRemaining === null) continue;
+
+      const daysBefore =
+        doc.daysRemaining < 0 ? 0 : thresholds.find((t) => doc.daysRemaining! <= t);
+      if (daysBefore === undefined) continue;
+
+      const already = sent.some(
+        (r) => r.document === doc.key && r.expiry === doc.expiry && r.daysBefore === daysBefore
+      );
+      if (already) continue;
+
+      due.push({
+        trainerId: String(trainer._id),
+        userId: String(trainer.userId),
+        fullName: trainer.fullName,
+        document: doc,
+        daysBefore,
+      });
+    }
+  }
+  return due;
+};
+
+export const markReminderSent = async (reminder: DueReminder) => {
+  await Trainer.updateOne(
+    { _id: reminder.trainerId },
+    {
+      $push: {
+        complianceReminders: {
+          document: reminder.document.key,
+          expiry: reminder.document.expiry,
+          daysBefore: reminder.daysBefore,
+          sentAt: new Date(),
+        },
+      },
+    }
+  );
+};
+
+// --- Admin compliance dashboard ---
+
+export const COMPLIANCE_ISSUES = [
+  "MISSING_DOCUMENT",
+  "EXPIRING_DOCUMENT",
+  "UNSIGNED_AGREEMENT",
+  "INCOMPLETE_ONBOARDING",
+] as const;
+export type ComplianceIssue = (typeof COMPLIANCE_ISSUES)[number];
+
+/** Trainer onboarding has five steps; the last one is the agreement */
+const ONBOARDING_STEPS = 5;
+
+export type ComplianceDashboardParams = {
+  days?: number;          // expiry window; already-expired documents are always included
+  issue?: ComplianceIssue;
+  userStatus?: string;    // trainer account status (default: everyone not BLOCKED / DELETED)
+  mandatoryOnly?: boolean;
+  q?: string;             // trainer name / email contains
+};
+
+type TrainerRef = {
+  trainerId: string;
+  fullName?: string;
+  email?: string;
+  userStatus?: string;
+};
+
+const agreementSigned = (a: any) => !!(a?.tos && a?.privacy && a?.consent && a?.signature?.dataUrl);
+
+/**
+ * One view of workforce compliance: missing documents, documents expiring within `days`,
+ * unsigned or outdated agreements, and trainers who have not finished onboarding.
+ */
+export const getComplianceDashboard = async (params: ComplianceDashboardParams = {}) => {
+  const { days = 30, issue, userStatus, mandatoryOnly = false, q } = params;
+  if (!Number.isFinite(days) || days < 0) throw new AppError("days must be zero or more", 400);
+
+  const needle = q?.trim().toLowerCase();
+  const trainers = (
+    await loadWorkforce("userId fullName documents agreement onboardingStep", { userStatus })
+  ).filter(
+    (t) =>
+      !needle ||
+      (t.fullName || "").toLowerCase().includes(needle) ||
+      (t.email || "").toLowerCase().includes(needle)
+  );
+
+  const template = await getCurrentTemplate("TRAINER");
+  const want = (i: ComplianceIssue) => !issue || issue === i;
+
+  const missingDocuments: Array<
+    TrainerRef & { documents: Array<{ key: string; label: string; mandatory: boolean }> }
+  > = [];
+  const expiringDocuments: Array<
+    TrainerRef & Omit<DocumentCompliance, "state"> & { expired: boolean }
+  > = [];
+  const unsignedAgreements: Array<
+    TrainerRef & { reason: "NOT_SIGNED" | "OUTDATED_VERSION"; acceptedVersion: string | null }
+  > = [];
+  const incompleteOnboarding: Array<TrainerRef & { onboardingStep: number }> = [];
+
+  for (const t of trainers) {
+    const ref: TrainerRef = {
+      trainerId: String(t._id),
+      fullName: t.fullName,
+      email: t.email,
+      userStatus: t.userStatus,
+    };
+    const { documents } = evaluateTrainerCompliance(t);
+    const inScope = documents.filter((d) => !mandatoryOnly || d.mandatory);
+
+    const missing = inScope.filter((d) => d.state === "MISSING");
+    if (want("MISSING_DOCUMENT") && missing.length) {
+      missingDocuments.push({
+        ...ref,
+        documents: missing.map(({ key, label, mandatory }) => ({ key, label, mandatory })),
+      });
+    }
+
+    if (want("EXPIRING_DOCUMENT")) {
+      for (const { state, ...d } of inScope) {
+        if (d.daysRemaining === null || d.daysRemaining > days) continue;
+        expiringDocuments.push({ ...ref, ...d, expired: state === "EXPIRED" });
+      }
+    }
+
+    if (want("UNSIGNED_AGREEMENT")) {
+      const acceptedVersion = t.agreement?.version || null;
+      if (!agreementSigned(t.agreement)) {
+        unsignedAgreements.push({ ...ref, reason: "NOT_SIGNED", acceptedVersion });
+      } else if (template && acceptedVersion !== template.version) {
+        unsignedAgreements.push({ ...ref, reason: "OUTDATED_VERSION", acceptedVersion });
+      }
+    }
+
+    const step = t.onboardingStep || 0;
+    if (want("INCOMPLETE_ONBOARDING") && step < ONBOARDING_STEPS) {
+      incompleteOnboarding.push({ ...ref, onboardingStep: step });
+    }
+  }
+
+  expiringDocuments.sort((a, b) => a.daysRemaining! - b.daysRemaining!);
+  incompleteOnboarding.sort((a, b) => a.onboardingStep - b.onboardingStep);
+
+  return {
+    generatedAt: new Date(),
+    filters: { days, issue: issue ?? null, userStatus: userStatus ?? null, mandatoryOnly, q: q ?? null },
+    currentAgreementVersion: template?.version ?? null,
+    summary: {
+      trainers: trainers.length,
+      missingDocuments: missingDocuments.length,
+      expiringDocuments: expiringDocuments.filter((d) => !d.expired).length,
+      expiredDocuments: expiringDocuments.filter((d) => d.expired).length,
+      unsignedAgreements: unsignedAgreements.length,
+      incompleteOnboarding: incompleteOnboarding.length,
+    },
+    missingDocuments,
+    expiringDocuments,
+    unsignedAgreements,
+    incompleteOnboarding,
+  };
+};
+
+/** Dashboard flattened to one row per issue */
+export const exportComplianceDashboardCsv = async (params: ComplianceDashboardParams = {}) => {
+  const d = await getComplianceDashboard(params);
+  const rows: Array<Array<string | number | null | undefined>> = [];
+  const base = (t: TrainerRef) => [t.fullName, t.email, t.userStatus];
+
+  for (const t of d.missingDocuments) {
+    for (const doc of t.documents) {
+      rows.push([...base(t), "MISSING_DOCUMENT", doc.label, doc.mandatory ? "Yes" : "No", "", "", ""]);
+    }
+  }
+  for (const t of d.expiringDocuments) {
+    rows.push([
+      ...base(t),
+      t.expired ? "EXPIRED_DOCUMENT" : "EXPIRING_DOCUMENT",
+      t.label,
+      t.mandatory ? "Yes" : "No",
+      t.expiry,
+      t.daysRemaining,
+      "",
+    ]);
+  }
+  for (const t of d.unsignedAgreements) {
+    rows.push([
+      ...base(t),
+      "UNSIGNED_AGREEMENT",
+      "Employment agreement",
+      "Yes",
+      "",
+      "",
+      t.reason === "OUTDATED_VERSION"
+        ? `Signed ${t.acceptedVersion ?? "unknown"}; current ${d.currentAgreementVersion}`
+        : "Not signed",
+    ]);
+  }
+  for (const t of d.incompleteOnboarding) {
+    rows.push([
+      ...base(t),
+      "INCOMPLETE_ONBOARDING",
+      "",
+      "",
+      "",
+      "",
+      `Step ${t.onboardingStep} of ${ONBOARDING_STEPS}`,
+    ]);
+  }
+
+  return {
+    filename: `trainer_compliance_${d.generatedAt.toISOString().slice(0, 10)}.csv`,
+    mime: "text/csv; charset=utf-8",
+    buffer: createTableCsvBuffer(
+      [
+        "Trainer",
+        "Email",
+        "Account Status",
+        "Issue",
+        "Document",
+        "Mandatory",
+        "Expiry",
+        "Days Remaining",
+        "Detail",
+      ],
+      rows
+    ),
+  };
+};
@@ -0,0 +1,219 @@
+// services/file.service.ts
+import path from "path";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { Trainer } from "../models/trainer.model";
+import { Participant } from "../models/participant.model";
+import { FileAccessLog, FileAccessAction, FileAccessVia } from "../models/fileAccessLog.model";
+import { AppError, ForbiddenError, NotFoundError } from "../utils/errors";
+import { ENV } from "../config/env";
+import { readUpload, storedPathToKey } from "../utils/storage";
+import { COMPLIANCE_DOCUMENTS } from "./compliance.service";
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+};
+
+export type FileViewer = { userId: string; role?: string };
+
+export type FileAccessContext = {
+  viewer?: FileViewer | null;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+/** Record an access attempt; a failed log write never blocks the response */
+export const logFileAccess = async (
+  entry: {
+    path: string;
+    ownerUserId?: string | null;
+    action: FileAccessAction;
+    via: FileAccessVia;
+    allowed: boolean;
+    reason?: string;
+  },
+  ctx: FileAccessContext
+) => {
+  try {
+    await FileAccessLog.create({
+      ...entry,
+      ownerUserId: entry.ownerUserId ?? null,
+      viewerUserId: ctx.viewer?.userId ?? null,
+      viewerRole: ctx.viewer?.role ?? null,
+      ip: ctx.ip ?? null,
+      userAgent: ctx.userAgent ?? null,
+    });
+  } catch (err) {
+    console.error("❌ Failed to write file access log:", err);
+  }
+};
+
+/** User that a stored file belongs to (trainer documents, signatures, agreement PDFs) */
+export const findFileOwner = async (storedPath: string): Promise<string | null> => {
+  const trainer = await Trainer.findOne({
+    $or: [
+      ...COMPLIANCE_DOCUMENTS.map(({ key }) => ({ [`documents.${key}.filePath`]: storedPath })),
+      { "agreement.signature.dataUrl": storedPath },
+      { "agreement.pdfUrl": storedPath },
+    ],
+  })
+    .select("userId")
+    .lean();
+  if (trainer) return String(trainer.userId);
+
+  const participant = await Participant.findOne({
+    $or: [{ "agreement.signature.dataUrl": storedPath }, { "agreement.pdfUrl": storedPath }],
+  })
+    .select("userId")
+    .lean();
+  return participant ? String(participant.userId) : null;
+};
+
+/**
+ * Owner or admin only. Files with no known owner are admin-only. Every decision is logged.
+ */
+const authorizeViewer = async (
+  storedPath: string,
+  action: FileAccessAction,
+  ctx: FileAccessContext
+) => {
+  const ownerUserId = await findFileOwner(storedPath);
+  const viewer = ctx.viewer;
+  const allowed = !!viewer && (viewer.role === "ADMIN" || viewer.userId === ownerUserId);
+
+  await logFileAccess(
+    {
+      path: storedPath,
+      ownerUserId,
+      action,
+      via: "SESSION",
+      allowed,
+      reason: allowed ? undefined : "Not the owner or an admin",
+    },
+    ctx
+  );
+  if (!allowed) throw new ForbiddenError("You do not have access to this file");
+  return ownerUserId;
+};
+
+const readFile = async (storedPath: string) => {
+  const buffer = await readUpload(storedPath);
+  if (!buffer) throw new NotFoundError("File");
+  return {
+    filename: path.basename(storedPath),
+    mime: MIME_TYPES[path.extname(storedPath).toLowerCase()] || "application/octet-stream",
+    buffer,
+  };
+};
+
+/** Download with the caller's session */
+export const getPrivateFile = async (storedPath: string, ctx: FileAccessContext) => {
+  storedPathToKey(storedPath);
+  await authorizeViewer(storedPath, "DOWNLOAD", ctx);
+  return readFile(storedPath);
+};
+
+// --- Signed links ---
+
+const sign = (storedPath: string, expires: number, userId: string) =>
+  crypto
+    .createHmac("sha256", ENV.FILE_URL_SECRET)
+    .update(`${storedPath}|${expires}|${userId}`)
+    .digest("hex");
+
+/**
+ * Short-lived link the frontend can put in an <img>/<a> without sending the token.
+ * The link is bound to the user it was issued to and logged when issued and when used.
+ */
+export const createSignedFileUrl = async (storedPath: string, ctx: FileAccessContext) => {
+  storedPathToKey(storedPath);
+  await authorizeViewer(storedPath, "ISSUE_LINK", ctx);
+
+  const expires = Math.floor(Date.now() / 1000) + ENV.FILE_URL_TTL_SECONDS;
+  const uid = ctx.viewer!.userId;
+  const query = new URLSearchParams({
+    path: storedPath,
+    expires: String(expires),
+    uid,
+    sig: sign(storedPath, expires, uid),
+  });
+
+  return {
+    url: `/api/files/signed?${query.toString()}`,
+    expiresAt: new Date(expires * 1000),
+  };
+};
+
+export const getSignedFile = async (
+  { path: storedPath, expires, uid, sig }: Record<string, string | undefined>,
+  ctx: FileAccessContext
+) => {
+  if (!storedPath || !expires || !uid || !sig) throw new AppError("Invalid download link", 400);
+  storedPathToKey(storedPath);
+
+  const viewerCtx = {
+    ...ctx,
+    viewer: mongoose.isValidObjectId(uid) ? { userId: uid } : null, // user the link was issued to
+  };
+  const deny = async (reason: string) => {
+    await logFileAccess(
+      { path: storedPath, action: "DOWNLOAD", via: "SIGNED_URL", allowed: false, reason },
+      viewerCtx
+    );
+    throw new ForbiddenError(reason);
+  };
+
+  const expected = Buffer.from(sign(storedPath, Number(expires), uid));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return deny("Invalid download link");
+  }
+  if (Number(expires) * 1000 < Date.now()) return deny("Download link has expired");
+
+  await logFileAccess(
+    {
+      path: storedPath,
+      ownerUserId: await findFileOwner(storedPath),
+      action: "DOWNLOAD",
+      via: "SIGNED_URL",
+      allowed: true,
+    },
+    viewerCtx
+  );
+  return readFile(storedPath);
+};
+
+export const listFileAccessLogs = async ({
+  path: storedPath,
+  userId,
+  page = 1,
+  limit = 50,
+}: {
+  path?: string;
+  userId?: string; // owner or viewer
+  page?: number;
+  limit?: number;
+}) => {
+  const q: any = {};
+  if (storedPath) q.path = storedPath;
+  if (userId && mongoose.isValidObjectId(userId)) {
+    q.$or = [{ ownerUserId: userId }, { viewerUserId: userId }];
+  }
+
+  const [data, total] = await Promise.all([
+    FileAccessLog.find(q)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    FileAccessLog.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
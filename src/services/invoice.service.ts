@@ -0,0 +1,433 @@
+// services/invoice.service.ts
+import mongoose from "mongoose";
+import { addDays } from "date-fns";
+import { Invoice, GstCode, IInvoiceLine } from "../models/invoice.model";
+import { Counter } from "../models/counter.model";
+import { Shift } from "../models/shift.model";
+import { Participant } from "../models/participant.model";
+import { RateCard } from "../models/rateCard.model";
+import { ClaimLine } from "../models/claimLine.model";
+import { AppError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import { createInvoicePdfBuffer } from "../utils/pdf";
+import { escapeHtml, sendEmail } from "../utils/email";
+import { RateBand, mergeSegmentsByBand } from "../utils/ndis-pricing";
+import { STATE_TIMEZONES, AustralianState, getZonedParts } from "../utils/timezone";
+import { ENV } from "../config/env";
+import { supportItemForBand } from "./rateCard.service";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+type Actor = { id: string; role: "PARTICIPANT" | "TRAINER" | "ADMIN" };
+
+const BAND_LABELS: Record<RateBand, string> = {
+  DAYTIME: "Weekday daytime",
+  EVENING: "Weekday evening",
+  NIGHT: "Weekday night",
+  SATURDAY: "Saturday",
+  SUNDAY: "Sunday",
+  PUBLIC_HOLIDAY: "Public holiday",
+};
+
+const gstFor = (amountCents: number, code: GstCode) =>
+  code === "P1" ? Math.round((amountCents * ENV.GST_RATE_PERCENT) / 100) : 0;
+
+const applyTotals = (invoice: any) => {
+  for (const line of invoice.lines) line.gstCents = gstFor(line.amountCents, line.gstCode);
+  invoice.subtotalCents = invoice.lines.reduce((s: number, l: any) => s + l.amountCents, 0);
+  invoice.gstCents = invoice.lines.reduce((s: number, l: any) => s + l.gstCents, 0);
+  invoice.totalCents = invoice.subtotalCents + invoice.gstCents;
+};
+
+/** Next number from the "invoice" counter, e.g. INV-000042 */
+const nextInvoiceNumber = async () => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: "invoice" },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  );
+  return `${ENV.INVOICE_PREFIX}${String(counter.seq).padStart(6, "0")}`;
+};
+
+/**
+ * Plan-managed participants are billed to their plan manager, self-managed ones directly.
+ * NDIA-managed participants are never invoiced (their supports go through claims.service).
+ */
+const resolveBillTo = (participant: any) =>
+  participant.fundingType === "plan"
+    ? {
+        type: "PLAN_MANAGER" as const,
+        name: participant.planManagerName,
+        email: participant.planManagerEmail,
+      }
+    : { type: "PARTICIPANT" as const, name: participant.fullName, email: participant.email };
+
+/** Invoice lines for one completed shift: one per rate band worked, plus travel if any */
+const linesForShift = (shift: any, card: any): IInvoiceLine[] => {
+  const timeZone = STATE_TIMEZONES[(shift.billing?.state || ENV.DEFAULT_STATE) as AustralianState];
+  const date = getZonedParts(new Date(shift.scheduledStart), timeZone).dateKey;
+  const gstCode = ENV.INVOICE_DEFAULT_GST_CODE as GstCode;
+  const lines: IInvoiceLine[] = [];
+
+  for (const [band, row] of mergeSegmentsByBand(shift.billing?.segments || [])) {
+    const quantity = Math.round((row.minutes / 60) * 100) / 100;
+    lines.push({
+      kind: "SERVICE",
+      shiftId: shift._id,
+      date,
+      description: `${shift.service} (${BAND_LABELS[band]})`,
+      supportItemNumber: supportItemForBand(card, band),
+      rateBand: band,
+      quantity,
+      unitPriceCents: row.hourlyRateCents,
+      gstCode,
+      amountCents: Math.round(quantity * row.hourlyRateCents),
+      gstCents: 0,
+    });
+  }
+
+  const km = Number(shift.report?.km || 0);
+  const kmRate = shift.billing?.kmRateCents || 0;
+  if (km > 0 && kmRate > 0) {
+    lines.push({
+      kind: "TRAVEL",
+      shiftId: shift._id,
+      date,
+      description: `Provider travel – ${km} km`,
+      quantity: km,
+      unitPriceCents: kmRate,
+      gstCode,
+      amountCents: Math.round(km * kmRate),
+      gstCents: 0,
+    });
+  }
+
+  return lines;
+};
+
+/**
+ * Create one DRAFT invoice per participant for completed shifts ending in the period that are
+ * not already on a non-VOID invoice and not claimed from the NDIA (claim lines other than
+ * REJECTED). NDIA-managed participants are claimed, never invoiced.
+ */
+export const generateInvoices = async (
+  {
+    periodStart,
+    periodEnd,
+    participantId,
+  }: { periodStart: Date; periodEnd: Date; participantId?: string },
+  adminUserId: string
+) => {
+  const from = new Date(periodStart);
+  const to = new Date(periodEnd);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+    throw new AppError("Invalid billing period", 400);
+  }
+  if (participantId && !isObjectId(participantId)) throw new AppError("Invalid participantId", 400);
+
+  const shifts = await Shift.find({
+    status: "COMPLETED",
+    scheduledEnd: { $gte: from, $lte: to },
+    ...(participantId ? { participantId } : {}),
+  })
+    .sort({ scheduledStart: 1 })
+    .lean();
+
+  const invoiced = new Set(
+    (
+      await Invoice.distinct("shiftIds", {
+        shiftIds: { $in: shifts.map((s) => s._id) },
+        status: { $ne: "VOID" },
+      })
+    ).map(String)
+  );
+  const claimed = new Set(
+    (
+      await ClaimLine.distinct("shiftId", {
+        shiftId: { $in: shifts.map((s) => s._id) },
+        status: { $ne: "REJECTED" },
+      })
+    ).map(String)
+  );
+  const pending = shifts.filter(
+    (s) => !invoiced.has(String(s._id)) && !claimed.has(String(s._id))
+  );
+
+  const participants = await Participant.find({
+    userId: { $in: Array.from(new Set(pending.map((s) => String(s.participantId)))) },
+  })
+    .select("userId fullName email ndisNumber fundingType planManagerName planManagerEmail")
+    .lean();
+  const participantByUser = new Map(participants.map((p) => [String(p.userId), p]));
+
+  const cards = await RateCard.find({
+    _id: { $in: pending.map((s) => s.billing?.rateCardId).filter(Boolean) },
+  })
+    .select("ndisSupportItemNumber ndisBandItemNumbers")
+    .lean();
+  const cardById = new Map(cards.map((c) => [String(c._id), c]));
+
+  const byParticipant = new Map<string, any[]>();
+  const skipped: Array<{ shiftId: string; reason: string }> = [];
+  for (const shift of pending) {
+    if (!shift.billing?.segments?.length) {
+      skipped.push({ shiftId: String(shift._id), reason: "Shift has no billing snapshot" });
+      continue;
+    }
+    const key = String(shift.participantId);
+    const participant = participantByUser.get(key);
+    if (!participant) {
+      skipped.push({ shiftId: String(shift._id), reason: "Participant profile not found" });
+      continue;
+    }
+    if (participant.fundingType === "ndia") continue; // NDIA-managed: claimed, not invoiced
+    byParticipant.set(key, [...(byParticipant.get(key) || []), shift]);
+  }
+
+  const invoices = [];
+  for (const [userId, list] of byParticipant) {
+    const participant: any = participantByUser.get(userId);
+    const lines = list.flatMap((shift) =>
+      linesForShift(shift, shift.billing?.rateCardId ? cardById.get(String(shift.billing.rateCardId)) : null)
+    );
+
+    const invoice = new Invoice({
+      status: "DRAFT",
+      participantId: participant.userId,
+      participantName: participant.fullName,
+      ndisNumber: participant.ndisNumber,
+      fundingType: participant.fundingType,
+      billTo: resolveBillTo(participant),
+      periodStart: from,
+      periodEnd: to,
+      shiftIds: list.map((s) => s._id),
+      lines,
+      createdBy: new mongoose.Types.ObjectId(adminUserId),
+    });
+    applyTotals(invoice);
+    invoices.push(await invoice.save());
+  }
+
+  return { created: invoices.length, invoices, skipped };
+};
+
+type ListInvoicesParams = {
+  status?: string;
+  participantId?: string;
+  page?: number;
+  limit?: number;
+};
+
+/** Admin: everything. Participant: their own invoices once issued. */
+export const listInvoices = async (params: ListInvoicesParams, actor: Actor) => {
+  const { status, participantId, page = 1, limit = 20 } = params;
+
+  const q: any = {};
+  if (actor.role === "ADMIN") {
+    if (participantId && isObjectId(participantId)) q.participantId = participantId;
+    if (status) q.status = status;
+  } else if (actor.role === "PARTICIPANT") {
+    q.participantId = actor.id;
+    q.status = status && status !== "DRAFT" ? status : { $ne: "DRAFT" };
+  } else {
+    throw new ForbiddenError("You are not allowed to view invoices");
+  }
+
+  const [data, total] = await Promise.all([
+    Invoice.find(q)
+      .select("-lines")
+      .sort({ periodStart: -1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Invoice.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+const loadInvoice = async (id: string, actor?: Actor) => {
+  if (!isObjectId(id)) throw new AppError("Invalid invoice id", 400);
+  const invoice = await Invoice.findById(id);
+  if (!invoice) throw new NotFoundError("Invoice");
+
+  if (actor && actor.role !== "ADMIN") {
+    const own =
+      actor.role === "PARTICIPANT" &&
+      String(invoice.participantId) === String(actor.id) &&
+      invoice.status !== "DRAFT";
+    if (!own) throw new ForbiddenError("You can only view your own invoices");
+  }
+  return invoice;
+};
+
+export const getInvoiceById = async (id: string, actor: Actor) => loadInvoice(id, actor);
+
+/**
+ * Edit a DRAFT: notes, and GST code per line (totals are recalculated).
+ */
+export const updateInvoice = async (
+  id: string,
+  patch: { notes?: string; lines?: Array<{ id: string; gstCode: GstCode }> },
+  adminUserId: string
+) => {
+  const invoice = await loadInvoice(id);
+  if (invoice.status !== "DRAFT") throw new ConflictError("Only DRAFT invoices can be edited");
+
+  if (patch.notes !== undefined) invoice.notes = patch.notes;
+  for (const change of patch.lines || []) {
+    const line = invoice.lines.find((l) => String(l._id) === change.id);
+    if (!line) throw new NotFoundError("Invoice line");
+    line.gstCode = change.gstCode;
+  }
+  applyTotals(invoice);
+
+  invoice.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await invoice.save();
+  return invoice;
+};
+
+const fmtDate = (d?: Date | null) => (d ? new Date(d).toISOString().slice(0, 10) : "");
+
+const buildPdf = (invoice: any) =>
+  createInvoicePdfBuffer({
+    title: invoice.status === "DRAFT" ? "Draft Invoice" : "Tax Invoice",
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    issueDate: fmtDate(invoice.issuedAt),
+    dueDate: fmtDate(invoice.dueDate),
+    period: `${fmtDate(invoice.periodStart)} → ${fmtDate(invoice.periodEnd)}`,
+    provider: { name: ENV.PROVIDER_NAME, abn: ENV.PROVIDER_ABN },
+    billTo: {
+      name: invoice.billTo?.name,
+      email: invoice.billTo?.email,
+      label: invoice.billTo?.type === "PLAN_MANAGER" ? "Plan manager" : "Email",
+    },
+    participant: { name: invoice.participantName, ndisNumber: invoice.ndisNumber },
+    lines: invoice.lines.map((l: any) => ({
+      date: l.date,
+      description: l.description,
+      supportItemNumber: l.supportItemNumber,
+      quantity: l.quantity,
+      unitPriceCents: l.unitPriceCents,
+      gstCents: l.gstCents,
+      amountCents: l.amountCents,
+    })),
+    totals: {
+      subtotalCents: invoice.subtotalCents,
+      gstCents: invoice.gstCents,
+      totalCents: invoice.totalCents,
+    },
+    notes: invoice.notes,
+  });
+
+export const renderInvoicePdf = async (id: string, actor: Actor) => {
+  const invoice = await loadInvoice(id, actor);
+  return {
+    filename: `${invoice.invoiceNumber || `invoice_draft_${invoice._id}`}.pdf`,
+    mime: "application/pdf",
+    buffer: await buildPdf(invoice),
+  };
+};
+
+/** Email the PDF to the bill-to address. Failures are logged and reported, never thrown. */
+const emailInvoice = async (invoice: any) => {
+  const to = invoice.billTo?.email;
+  if (!to) return false;
+
+  try {
+    const pdf = await buildPdf(invoice);
+    await sendEmail(
+      to,
+      `Invoice ${invoice.invoiceNumber} from ${ENV.PROVIDER_NAME}`,
+      `
+        <p>Hello ${escapeHtml(invoice.billTo?.name || "there")},</p>
+        <p>Please find attached invoice <b>${invoice.invoiceNumber}</b> for supports provided to
+        <b>${escapeHtml(invoice.participantName || "the participant")}</b>${
+          invoice.ndisNumber ? ` (NDIS ${escapeHtml(invoice.ndisNumber)})` : ""
+        }.</p>
+        <p><b>Period:</b> ${fmtDate(invoice.periodStart)} – ${fmtDate(invoice.periodEnd)}</p>
+        <p><b>Amount due:</b> $${(invoice.totalCents / 100).toFixed(2)}</p>
+        <p><b>Due date:</b> ${fmtDate(invoice.dueDate)}</p>
+        <p>Best regards,<br/>CareLink Team</p>
+      `,
+      [{ filename: `${invoice.invoiceNumber}.pdf`, content: pdf, contentType: "application/pdf" }]
+    );
+    invoice.emailedAt = new Date();
+    invoice.emailedTo = to;
+    await invoice.save();
+    return true;
+  } catch (err) {
+    console.error("❌ Failed to send invoice email:", err);
+    return false;
+  }
+};
+
+/**
+ * DRAFT → ISSUED: assign the invoice number, set the due date and email the PDF.
+ */
+export const issueInvoice = async (id: string, adminUserId: string) => {
+  const invoice = await loadInvoice(id);
+  if (invoice.status !== "DRAFT") throw new ConflictError("Only DRAFT invoices can be issued");
+  if (!invoice.lines.length) throw new AppError("Cannot issue an invoice without lines", 400);
+  if (!invoice.billTo?.email) {
+    throw new AppError(
+      invoice.billTo?.type === "PLAN_MANAGER"
+        ? "Participant has no plan manager email on file"
+        : "Participant has no email on file",
+      400
+    );
+  }
+
+  const now = new Date();
+  invoice.invoiceNumber = await nextInvoiceNumber();
+  invoice.status = "ISSUED";
+  invoice.issuedAt = now;
+  invoice.dueDate = addDays(now, ENV.INVOICE_DUE_DAYS);
+  invoice.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await invoice.save();
+
+  const emailed = await emailInvoice(invoice);
+  return { invoice, emailed };
+};
+
+export const resendInvoice = async (id: string) => {
+  const invoice = await loadInvoice(id);
+  if (!["ISSUED", "PAID"].includes(invoice.status)) {
+    throw new ConflictError("Only issued invoices can be emailed");
+  }
+  const emailed = await emailInvoice(invoice);
+  if (!emailed) throw new AppError("Invoice email could not be sent", 502);
+  return invoice;
+};
+
+export const markInvoicePaid = async (id: string, paidAt: Date | undefined, adminUserId: string) => {
+  const invoice = await loadInvoice(id);
+  if (invoice.status !== "ISSUED") throw new ConflictError("Only ISSUED invoices can be marked paid");
+
+  invoice.status = "PAID";
+  invoice.paidAt = paidAt ? new Date(paidAt) : new Date();
+  invoice.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await invoice.save();
+  return invoice;
+};
+
+/**
+ * VOID frees the invoice's shifts so they can be invoiced again. Paid invoices cannot be voided.
+ */
+export const voidInvoice = async (id: string, reason: string, adminUserId: string) => {
+  const invoice = await loadInvoice(id);
+  if (!["DRAFT", "ISSUED"].includes(invoice.status)) {
+    throw new ConflictError(`A ${invoice.status} invoice cannot be voided`);
+  }
+  if (!reason?.trim()) throw new AppError("A void reason is required", 400);
+
+  invoice.status = "VOID";
+  invoice.voidedAt = new Date();
+  invoice.voidReason = reason.trim();
+  invoice.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await invoice.save();
+  return invoice;
+};
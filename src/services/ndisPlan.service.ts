@@ -0,0 +1,308 @@
+// services/ndisPlan.service.ts
+import mongoose from "mongoose";
+import { NdisPlan, IPlanBudget } from "../models/ndisPlan.model";
+import { RateCard } from "../models/rateCard.model";
+import { User } from "../models/user.model";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { priceShiftWindow } from "./pricing.service";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+export type PlanInput = {
+  participantId: string; // participant User._id
+  planNumber?: string;
+  startDate: Date;
+  endDate: Date;
+  budgets: Array<{ category: string; name?: string; allocatedCents: number }>;
+  notes?: string;
+};
+
+export type BudgetWarning = {
+  code: "NO_PLAN" | "PLAN_ENDED" | "NO_BUDGET" | "OVER_BUDGET" | "PRICE_UNKNOWN";
+  message: string;
+};
+
+/** Support category = first two digits of the support item number ("04_210_0125_6_1" → "04") */
+export const supportCategoryOf = (supportItemNumber?: string | null) =>
+  supportItemNumber && /^\d{2}_/.test(supportItemNumber) ? supportItemNumber.slice(0, 2) : null;
+
+const money = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const validateDates = (start: Date, end: Date) => {
+  if (isNaN(new Date(start).getTime()) || isNaN(new Date(end).getTime())) {
+    throw new AppError("Invalid plan dates", 400);
+  }
+  if (new Date(end) < new Date(start)) throw new AppError("endDate must be on or after startDate", 400);
+};
+
+const validateBudgets = (budgets: PlanInput["budgets"]) => {
+  const seen = new Set<string>();
+  for (const b of budgets) {
+    if (seen.has(b.category)) throw new AppError(`Duplicate budget category ${b.category}`, 400);
+    seen.add(b.category);
+  }
+};
+
+/** A participant has at most one plan in force on any date */
+const ensureNoOverlap = async (plan: {
+  _id?: any;
+  participantId: any;
+  startDate: Date;
+  endDate: Date;
+}) => {
+  const clash = await NdisPlan.findOne({
+    participantId: plan.participantId,
+    ...(plan._id ? { _id: { $ne: plan._id } } : {}),
+    startDate: { $lte: plan.endDate },
+    endDate: { $gte: plan.startDate },
+  })
+    .select("_id startDate endDate")
+    .lean();
+
+  if (clash) {
+    throw new ConflictError("Another plan for this participant overlaps these dates", {
+      planId: String(clash._id),
+      startDate: clash.startDate,
+      endDate: clash.endDate,
+    });
+  }
+};
+
+const withSummary = (plan: any) => {
+  const budgets = (plan.budgets || []).map((b: IPlanBudget) => ({
+    ...b,
+    remainingCents: b.allocatedCents - (b.spentCents || 0),
+  }));
+  const allocatedCents = budgets.reduce((s: number, b: any) => s + b.allocatedCents, 0);
+  const spentCents = (plan.drawdowns || []).reduce((s: number, d: any) => s + d.amountCents, 0);
+  const unallocatedSpendCents = (plan.drawdowns || [])
+    .filter((d: any) => !d.category || !budgets.some((b: any) => b.category === d.category))
+    .reduce((s: number, d: any) => s + d.amountCents, 0);
+
+  return {
+    ...plan,
+    budgets,
+    summary: {
+      allocatedCents,
+      spentCents,
+      remainingCents: allocatedCents - spentCents,
+      unallocatedSpendCents, // spend with no matching category budget
+    },
+  };
+};
+
+export const createPlan = async (input: PlanInput, adminUserId: string) => {
+  if (!isObjectId(input.participantId)) throw new AppError("Invalid participantId", 400);
+  validateDates(input.startDate, input.endDate);
+  validateBudgets(input.budgets);
+
+  const user = await User.findById(input.participantId).select("role").lean();
+  if (!user || user.role !== "PARTICIPANT") throw new NotFoundError("Participant");
+
+  const doc = {
+    participantId: new mongoose.Types.ObjectId(input.participantId),
+    planNumber: input.planNumber,
+    startDate: new Date(input.startDate),
+    endDate: new Date(input.endDate),
+    budgets: input.budgets.map((b) => ({ ...b, spentCents: 0 })),
+    notes: input.notes,
+    createdBy: new mongoose.Types.ObjectId(adminUserId),
+  };
+  await ensureNoOverlap(doc);
+
+  const plan = await NdisPlan.create(doc);
+  return withSummary(plan.toObject());
+};
+
+export const listPlans = async ({
+  participantId,
+  page = 1,
+  limit = 20,
+}: {
+  participantId?: string;
+  page?: number;
+  limit?: number;
+}) => {
+  const q: any = {};
+  if (participantId && isObjectId(participantId)) q.participantId = participantId;
+
+  const [data, total] = await Promise.all([
+    NdisPlan.find(q)
+      .select("-drawdowns")
+      .sort({ startDate: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    NdisPlan.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+export const getPlanById = async (id: string) => {
+  if (!isObjectId(id)) throw new AppError("Invalid plan id", 400);
+  const plan = await NdisPlan.findById(id).lean();
+  if (!plan) throw new NotFoundError("NdisPlan");
+  return withSummary(plan);
+};
+
+/**
+ * Budgets are replaced as a whole; spend already drawn is re-applied to the new list by category.
+ */
+export const updatePlan = async (id: string, patch: Partial<PlanInput>, adminUserId: string) => {
+  if (!isObjectId(id)) throw new AppError("Invalid plan id", 400);
+  const plan = await NdisPlan.findById(id);
+  if (!plan) throw new NotFoundError("NdisPlan");
+
+  if (patch.planNumber !== undefined) plan.planNumber = patch.planNumber;
+  if (patch.startDate !== undefined) plan.startDate = new Date(patch.startDate);
+  if (patch.endDate !== undefined) plan.endDate = new Date(patch.endDate);
+  if (patch.notes !== undefined) plan.notes = patch.notes;
+  validateDates(plan.startDate, plan.endDate);
+
+  if (patch.budgets) {
+    validateBudgets(patch.budgets);
+    plan.budgets = patch.budgets.map((b) => ({
+      ...b,
+      spentCents: plan.drawdowns
+        .filter((d) => d.category === b.category)
+        .reduce((s, d) => s + d.amountCents, 0),
+    })) as any;
+  }
+
+  await ensureNoOverlap(plan);
+  plan.updatedBy = new mongoose.Types.ObjectId(adminUserId);
+  await plan.save();
+  return withSummary(plan.toObject());
+};
+
+/** Billed amount of a completed shift: band amounts plus travel */
+const billedAmountCents = (shift: any) => {
+  const labour = (shift.billing?.segments || []).reduce(
+    (s: number, seg: any) => s + (seg.amountCents || 0),
+    0
+  );
+  const km = Number(shift.report?.km || 0);
+  return labour + Math.round(km * (shift.billing?.kmRateCents || 0));
+};
+
+/**
+ * Draw a completed shift down from the plan in force on its start date. Safe to call twice:
+ * the update only applies while the shift is not yet in `drawdowns`.
+ */
+export const drawDownForShift = async (shift: any) => {
+  const start = new Date(shift.billing?.scheduledStart ?? shift.scheduledStart);
+  const plan = await NdisPlan.findOne({
+    participantId: shift.participantId,
+    startDate: { $lte: start },
+    endDate: { $gte: start },
+  })
+    .select("_id budgets")
+    .lean();
+  if (!plan) return null;
+
+  const card = shift.billing?.rateCardId
+    ? await RateCard.findById(shift.billing.rateCardId).select("ndisSupportItemNumber").lean()
+    : null;
+  const category = supportCategoryOf(card?.ndisSupportItemNumber);
+  const matched = !!category && plan.budgets.some((b) => b.category === category);
+  const amountCents = billedAmountCents(shift);
+
+  const update: any = {
+    $push: { drawdowns: { shiftId: shift._id, category, amountCents, at: new Date() } },
+  };
+  if (matched) update.$inc = { "budgets.$[b].spentCents": amountCents };
+
+  await NdisPlan.updateOne(
+    { _id: plan._id, "drawdowns.shiftId": { $ne: shift._id } },
+    update,
+    matched ? { arrayFilters: [{ "b.category": category }] } : {}
+  );
+  return { planId: plan._id, category, amountCents };
+};
+
+/**
+ * Approval-time check: is there a plan covering the whole shift, and does the matching budget
+ * (or the whole plan when the service has no support category) still cover its estimated price?
+ * Only spend already drawn down counts; other approved but unfinished shifts are not reserved.
+ */
+export const checkPlanBudget = async ({
+  participantId,
+  trainerId,
+  service,
+  start,
+  end,
+}: {
+  participantId: any;
+  trainerId?: any;
+  service: string;
+  start: Date;
+  end: Date;
+}): Promise<BudgetWarning[]> => {
+  const plan = await NdisPlan.findOne({
+    participantId,
+    startDate: { $lte: start },
+    endDate: { $gte: start },
+  }).lean();
+
+  if (!plan) {
+    const last = await NdisPlan.findOne({ participantId, endDate: { $lt: start } })
+      .sort({ endDate: -1 })
+      .select("endDate")
+      .lean();
+    return [
+      last
+        ? {
+            code: "PLAN_ENDED",
+            message: `Shift is after the participant's plan ended on ${last.endDate.toISOString().slice(0, 10)}`,
+          }
+        : { code: "NO_PLAN", message: "Participant has no NDIS plan covering this shift" },
+    ];
+  }
+
+  const warnings: BudgetWarning[] = [];
+  if (end > plan.endDate) {
+    warnings.push({
+      code: "PLAN_ENDED",
+      message: `Shift runs past the plan end date ${plan.endDate.toISOString().slice(0, 10)}`,
+    });
+  }
+
+  let amountCents: number;
+  let category: string | null;
+  try {
+    const pricing = await priceShiftWindow({ service, trainerId, participantId, start, end });
+    amountCents = pricing.segments.reduce((s, seg) => s + seg.amountCents, 0);
+    category = supportCategoryOf(pricing.rateCard.ndisSupportItemNumber);
+  } catch {
+    warnings.push({ code: "PRICE_UNKNOWN", message: "Could not price this shift to check the budget" });
+    return warnings;
+  }
+
+  const budget = category ? plan.budgets.find((b) => b.category === category) : undefined;
+  if (category && !budget) {
+    warnings.push({
+      code: "NO_BUDGET",
+      message: `Plan has no budget for support category ${category}`,
+    });
+    return warnings;
+  }
+
+  const remainingCents = budget
+    ? budget.allocatedCents - (budget.spentCents || 0)
+    : plan.budgets.reduce((s, b) => s + b.allocatedCents - (b.spentCents || 0), 0);
+
+  if (amountCents > remainingCents) {
+    warnings.push({
+      code: "OVER_BUDGET",
+      message: `Estimated ${money(amountCents)} exceeds the remaining ${
+        budget ? `category ${category} ` : ""
+      }budget of ${money(remainingCents)}`,
+    });
+  }
+
+  return warnings;
+};
@@ -0,0 +1,27 @@
+// services/notification.service.ts
+import { User } from "../models/user.model";
+import { ENV } from "../config/env";
+import { sendEmail } from "../utils/email";
+
+/** Active admin users plus the optional shared ADMIN_EMAIL inbox */
+export const getAdminEmails = async (): Promise<string[]> => {
+  const admins = await User.find({ role: "ADMIN", status: "ACTIVE" }).select("email").lean();
+  const emails = admins.map((a) => a.email).filter(Boolean);
+  if (ENV.ADMIN_EMAIL) emails.push(ENV.ADMIN_EMAIL);
+  return Array.from(new Set(emails));
+};
+
+/**
+ * Email every admin. Failures are logged, never thrown: a notification must not
+ * roll back the business action that triggered it.
+ */
+export const notifyAdmins = async (subject: string, html: string) => {
+  try {
+    const emails = await getAdminEmails();
+    for (const to of emails) {
+      await sendEmail(to, subject, html);
+    }
+  } catch (err) {
+    console.error("❌ Failed to notify admins:", err);
+  }
+};
@@ -1,25 +1,21 @@
 import { User } from "../models/user.model";
 import { Participant } from "../models/participant.model";
 import { NotFoundError } from "../utils/errors";
-import fs from "fs";
-import path from "path";
+import { generateSignedAgreement } from "./agreement.service";
+import { applyCurrentTemplate } from "./agreementTemplate.service";
+import { sendSetPasswordInvite } from "./auth.service";
+import { AgreementAcceptInput } from "../validators/agreementTemplate.validators";
+import { saveUpload } from "../utils/storage";
 
 // helper to save signature PNG
-const saveSignature = (userId: string, dataUrl: string) => {
+const saveSignature = async (userId: string, dataUrl: string) => {
   const base64Data = dataUrl.replace(/^data:image\/png;base64,/, "");
   const buffer = Buffer.from(base64Data, "base64");
 
   const fileName = `${userId}-signature-${Date.now()}.png`;
-  const dirPath = path.join(__dirname, "../../uploads/signatures");
-  if (!fs.existsSync(dirPath)) {
-    fs.mkdirSync(dirPath, { recursive: true });
-  }
-  const filePath = path.join(dirPath, fileName);
-
-  fs.writeFileSync(filePath, buffer);
 
-  // return relative path for client
-  return `/uploads/signatures/${fileName}`;
+  // returns the stored path (/uploads/signatures/...) kept on the profile
+  return saveUpload("signatures", fileName, buffer, "image/png");
 };
 
 // Create or update participant profile
@@ -39,7 +35,7 @@ export const upsertParticipantProfile = async (
       // Step 1 — create new user + participant
       const user = await User.create({
         email: data.email,
-        password: "", // will be set at Step 3: Create Login
+        password: "", // set from the emailed create-login link
         role: "PARTICIPANT",
         status: "PENDING",
       });
@@ -64,6 +60,13 @@ export const upsertParticipantProfile = async (
         status: "PENDING",
       });
 
+      // Login is created from the emailed link (Step 3: Create Login)
+      try {
+        await sendSetPasswordInvite(user);
+      } catch (err) {
+        console.error("❌ Failed to send create-login invite:", err);
+      }
+
       return { user, participant };
     }
 
@@ -71,17 +74,22 @@ export const upsertParticipantProfile = async (
     const participant = await Participant.findOne({ email: data.email });
     if (!participant) throw new NotFoundError("Participant");
 
+    if (data.agreement) await applyCurrentTemplate("PARTICIPANT", data.agreement);
+
     // handle signature
     if (data.agreement?.signature?.dataUrl) {
-      const url = saveSignature(participant.userId.toString(), data.agreement.signature.dataUrl);
+      const url = await saveSignature(participant.userId.toString(), data.agreement.signature.dataUrl);
       data.agreement.signature = {
-        url,
+        dataUrl: url,
         date: data.agreement.signature.date,
       };
     }
 
     Object.assign(participant, data);
     await participant.save();
+    if (data.agreement) {
+      await generateSignedAgreement(participant.userId.toString(), "PARTICIPANT");
+    }
 
     const user = await User.findById(participant.userId).select(
       "id email role status"
@@ -94,17 +102,23 @@ export const upsertParticipantProfile = async (
   const participant = await Participant.findOne({ userId });
   if (!participant) throw new NotFoundError("Participant");
 
+  if (data.agreement) await applyCurrentTemplate("PARTICIPANT", data.agreement);
+
   // handle signature
   if (data.agreement?.signature?.dataUrl) {
-    const url = saveSignature(participant.userId.toString(), data.agreement.signature.dataUrl);
+    const url = await saveSignature(participant.userId.toString(), data.agreement.signature.dataUrl);
     data.agreement.signature = {
-      url,
+      dataUrl: url,
       date: data.agreement.signature.date,
     };
   }
 
   Object.assign(participant, data);
   await participant.save();
+  // agreement step: store the signed PDF once everything is accepted
+  if (data.agreement) {
+    await generateSignedAgreement(participant.userId.toString(), "PARTICIPANT");
+  }
 
   const user = await User.findById(participant.userId).select(
     "id email role status"
@@ -115,6 +129,27 @@ export const upsertParticipantProfile = async (
 
 
 
+// Re-accept the current agreement version (e.g. after the terms change)
+export const acceptParticipantAgreement = async (userId: string, data: AgreementAcceptInput) => {
+  const participant = await Participant.findOne({ userId });
+  if (!participant) throw new NotFoundError("Participant");
+
+  const agreement = await applyCurrentTemplate("PARTICIPANT", { version: data.version });
+  const url = await saveSignature(userId, data.signature.dataUrl);
+
+  participant.set("agreement", {
+    ...agreement,
+    acknowledged: { tos: data.tos, privacy: data.privacy, consent: data.consent },
+    signature: { dataUrl: url, date: data.signature.date ?? new Date() },
+  });
+  await participant.save();
+
+  await generateSignedAgreement(userId, "PARTICIPANT");
+
+  const updated = await Participant.findOne({ userId }).select("agreement").lean();
+  return updated?.agreement;
+};
+
 // Get participant by userId
 export const getParticipantByUserId = async (userId: string) => {
   const participant = await Participant.findOne({ userId }).populate(
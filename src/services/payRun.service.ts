@@ -0,0 +1,479 @@
+// services/payRun.service.ts
+import mongoose from "mongoose";
+import { PayRun, IPayRunTrainerTotal } from "../models/payRun.model";
+import { Timesheet } from "../models/timesheet.model";
+import { Trainer } from "../models/trainer.model";
+import { AppError, ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import { createTableCsvBuffer } from "../utils/csv";
+import {
+  PayrollEmployee,
+  PayrollExportResult,
+  buildAbaFile,
+  buildMyobTimesheetCsv,
+  buildXeroTimesheetCsv,
+} from "../utils/payroll-export";
+import { STATE_TIMEZONES, AustralianState } from "../utils/timezone";
+import { ENV } from "../config/env";
+import { transitionTimesheet } from "./timesheets.service";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+export type PayRunInput = {
+  periodStart: Date;
+  periodEnd: Date;
+  timesheetIds?: string[]; // omit to include every APPROVED timesheet in the period
+  notes?: string;
+};
+
+const validatePeriod = (from: Date, to: Date) => {
+  if (!(from instanceof Date) || isNaN(from.getTime())) throw new AppError("Invalid periodStart", 400);
+  if (!(to instanceof Date) || isNaN(to.getTime())) throw new AppError("Invalid periodEnd", 400);
+  if (to < from) throw new AppError("periodEnd must be on or after periodStart", 400);
+};
+
+const loadRun = async (id: string) => {
+  if (!isObjectId(id)) throw new AppError("Invalid pay run id", 400);
+  const run = await PayRun.findById(id);
+  if (!run) throw new NotFoundError("Pay run");
+  return run;
+};
+
+const ensureDraft = (run: any) => {
+  if (run.status !== "DRAFT") throw new ConflictError("Only DRAFT pay runs can be changed");
+};
+
+/**
+ * Resolve the timesheets for a run. Every one must be APPROVED, start inside the period and
+ * not already sit in another DRAFT run.
+ */
+const selectTimesheets = async ({
+  periodStart,
+  periodEnd,
+  timesheetIds,
+  runId,
+}: {
+  periodStart: Date;
+  periodEnd: Date;
+  timesheetIds?: string[];
+  runId?: any;
+}) => {
+  const inPeriod = { weekStart: { $gte: periodStart, $lte: periodEnd } };
+
+  let timesheets: any[];
+  if (timesheetIds?.length) {
+    const ids = Array.from(new Set(timesheetIds));
+    if (ids.some((id) => !isObjectId(id))) throw new AppError("Invalid timesheet id", 400);
+
+    timesheets = await Timesheet.find({ _id: { $in: ids } })
+      .select("trainerId weekStart weekEnd status totals updatedAt")
+      .lean();
+
+    const found = new Set(timesheets.map((t) => String(t._id)));
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length) throw new NotFoundError("Timesheet", `Timesheets not found: ${missing.join(", ")}`);
+
+    const invalid = timesheets
+      .filter(
+        (t) =>
+          t.status !== "APPROVED" ||
+          new Date(t.weekStart) < periodStart ||
+          new Date(t.weekStart) > periodEnd
+      )
+      .map((t) => ({ timesheetId: String(t._id), status: t.status, weekStart: t.weekStart }));
+    if (invalid.length) {
+      throw new ConflictError("Only APPROVED timesheets inside the pay period can be included", {
+        timesheets: invalid,
+      });
+    }
+  } else {
+    timesheets = await Timesheet.find({ status: "APPROVED", ...inPeriod })
+      .select("trainerId weekStart weekEnd status totals updatedAt")
+      .lean();
+  }
+
+  const clash = await PayRun.find({
+    status: "DRAFT",
+    timesheetIds: { $in: timesheets.map((t) => t._id) },
+    ...(runId ? { _id: { $ne: runId } } : {}),
+  })
+    .select("_id timesheetIds")
+    .lean();
+
+  if (clash.length) {
+    if (timesheetIds?.length) {
+      throw new ConflictError("Some timesheets are already in another draft pay run", {
+        payRunIds: clash.map((r) => String(r._id)),
+      });
+    }
+    // Auto-selection: silently leave out timesheets another draft already holds
+    const taken = new Set(clash.flatMap((r) => r.timesheetIds.map(String)));
+    timesheets = timesheets.filter((t) => !taken.has(String(t._id)));
+  }
+
+  return timesheets;
+};
+
+/** Approved total + last write per timesheet, compared again at finalise */
+const snapshotTimesheets = (timesheets: any[]) =>
+  timesheets.map((t) => ({
+    timesheetId: t._id,
+    totalCents: t.totals?.totalCents ?? 0,
+    updatedAt: t.updatedAt,
+  }));
+
+/** Per-trainer + overall totals from the selected timesheets */
+const computeTotals = async (timesheets: any[]) => {
+  const byTrainer = new Map<string, IPayRunTrainerTotal>();
+
+  for (const ts of timesheets) {
+    const key = String(ts.trainerId);
+    const row =
+      byTrainer.get(key) ??
+      ({
+        trainerId: ts.trainerId,
+        timesheetIds: [],
+        hours: 0,
+        km: 0,
+        amountCents: 0,
+        mileageCents: 0,
+        totalCents: 0,
+      } as IPayRunTrainerTotal);
+
+    row.timesheetIds.push(ts._id);
+    row.hours += ts.totals?.hours ?? 0;
+    row.km += ts.totals?.km ?? 0;
+    row.amountCents += ts.totals?.amountCents ?? 0;
+    row.mileageCents += ts.totals?.mileageCents ?? 0;
+    row.totalCents += ts.totals?.totalCents ?? 0;
+    byTrainer.set(key, row);
+  }
+
+  const trainers = await Trainer.find({ _id: { $in: Array.from(byTrainer.keys()) } })
+    .select("fullName")
+    .lean();
+  const names = new Map(trainers.map((t) => [String(t._id), t.fullName]));
+
+  const trainerTotals = Array.from(byTrainer.values())
+    .map((row) => ({ ...row, trainerName: names.get(String(row.trainerId)) ?? "" }))
+    .sort((a, b) => (a.trainerName || "").localeCompare(b.trainerName || ""));
+
+  const totals = trainerTotals.reduce(
+    (acc, r) => {
+      acc.hours += r.hours;
+      acc.km += r.km;
+      acc.amountCents += r.amountCents;
+      acc.mileageCents += r.mileageCents;
+      acc.totalCents += r.totalCents;
+      return acc;
+    },
+    {
+      timesheets: timesheets.length,
+      trainers: trainerTotals.length,
+      hours: 0,
+      km: 0,
+      amountCents: 0,
+      mileageCents: 0,
+      totalCents: 0,
+    }
+  );
+
+  return { trainerTotals, totals };
+};
+
+export const createPayRun = async (input: PayRunInput, adminUserId: string) => {
+  const periodStart = new Date(input.periodStart);
+  const periodEnd = new Date(input.periodEnd);
+  validatePeriod(periodStart, periodEnd);
+
+  const timesheets = await selectTimesheets({
+    periodStart,
+    periodEnd,
+    timesheetIds: input.timesheetIds,
+  });
+  if (!timesheets.length) throw new AppError("No APPROVED timesheets found for this period", 400);
+
+  const { trainerTotals, totals } = await computeTotals(timesheets);
+
+  return PayRun.create({
+    periodStart,
+    periodEnd,
+    notes: input.notes,
+    status: "DRAFT",
+    timesheetIds: timesheets.map((t) => t._id),
+    timesheetSnapshots: snapshotTimesheets(timesheets),
+    trainerTotals,
+    totals,
+    createdBy: new mongoose.Types.ObjectId(adminUserId),
+  });
+};
+
+export const listPayRuns = async ({
+  status,
+  page = 1,
+  limit = 20,
+}: {
+  status?: string;
+  page?: number;
+  limit?: number;
+}) => {
+  const q: any = {};
+  if (status) q.status = status;
+
+  const [data, total] = await Promise.all([
+    PayRun.find(q)
+      .select("-trainerTotals")
+      .sort({ periodStart: -1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    PayRun.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+export const getPayRunById = async (id: string) => {
+  const run = await loadRun(id);
+  const timesheets = await Timesheet.find({ _id: { $in: run.timesheetIds } })
+    .select("trainerId weekStart weekEnd status totals")
+    .sort({ weekStart: 1 })
+    .lean();
+  return { ...run.toObject(), timesheets };
+};
+
+export const updatePayRun = async (
+  id: string,
+  patch: Partial<PayRunInput>,
+  _adminUserId: string
+) => {
+  const run = await loadRun(id);
+  ensureDraft(run);
+
+  const periodStart = patch.periodStart ? new Date(patch.periodStart) : run.periodStart;
+  const periodEnd = patch.periodEnd ? new Date(patch.periodEnd) : run.periodEnd;
+  validatePeriod(periodStart, periodEnd);
+
+  if (patch.timesheetIds || patch.periodStart || patch.periodEnd) {
+    const timesheets = await selectTimesheets({
+      periodStart,
+      periodEnd,
+      timesheetIds: patch.timesheetIds ?? run.timesheetIds.map(String),
+      runId: run._id,
+    });
+    if (!timesheets.length) throw new AppError("A pay run needs at least one timesheet", 400);
+
+    const { trainerTotals, totals } = await computeTotals(timesheets);
+    run.timesheetIds = timesheets.map((t) => t._id);
+    run.timesheetSnapshots = snapshotTimesheets(timesheets) as any;
+    run.trainerTotals = trainerTotals as any;
+    run.totals = totals;
+  }
+
+  run.periodStart = periodStart;
+  run.periodEnd = periodEnd;
+  if (patch.notes !== undefined) run.notes = patch.notes;
+
+  await run.save();
+  return run;
+};
+
+export const deletePayRun = async (id: string) => {
+  const run = await loadRun(id);
+  ensureDraft(run);
+  await run.deleteOne();
+  return { id: String(run._id) };
+};
+
+/**
+ * Finalise: re-check every timesheet is still APPROVED and unchanged since it was put in the
+ * run (same total, no writes since), snapshot totals, then mark each PAID
+ * through the timesheet state machine (which also writes its audit entry and stamps payRunId).
+ * Timesheets are paid one at a time, so a run that failed partway can simply be finalised
+ * again: timesheets already PAID by this run count as done.
+ */
+export const finalisePayRun = async (id: string, adminUserId: string) => {
+  const run = await loadRun(id);
+  ensureDraft(run);
+
+  const timesheets = await Timesheet.find({ _id: { $in: run.timesheetIds } })
+    .select("trainerId status totals payRunId updatedAt")
+    .lean();
+
+  const paidByThisRun = (t: any) => t.status === "PAID" && String(t.payRunId) === String(run._id);
+  const notApproved = timesheets
+    .filter((t) => t.status !== "APPROVED" && !paidByThisRun(t))
+    .map((t) => ({ timesheetId: String(t._id), status: t.status }));
+  if (notApproved.length || timesheets.length !== run.timesheetIds.length) {
+    throw new ConflictError("Some timesheets are no longer APPROVED; update the pay run first", {
+      timesheets: notApproved,
+    });
+  }
+
+  // MARK_PAID itself bumps updatedAt, so timesheets this run already paid only compare totals
+  const snapshots = new Map(run.timesheetSnapshots.map((s) => [String(s.timesheetId), s]));
+  const changed = timesheets
+    .filter((t) => {
+      const snap = snapshots.get(String(t._id));
+      if (!snap || snap.totalCents !== (t.totals?.totalCents ?? 0)) return true;
+      return !paidByThisRun(t) && new Date(t.updatedAt).getTime() !== new Date(snap.updatedAt).getTime();
+    })
+    .map((t) => ({ timesheetId: String(t._id), totalCents: t.totals?.totalCents ?? 0 }));
+  if (changed.length) {
+    throw new ConflictError("Some timesheets changed after they were added; update the pay run first", {
+      timesheets: changed,
+    });
+  }
+
+  const { trainerTotals, totals } = await computeTotals(timesheets);
+
+  for (const ts of timesheets.filter((t) => !paidByThisRun(t))) {
+    await transitionTimesheet({
+      id: String(ts._id),
+      action: "MARK_PAID",
+      actor: { id: adminUserId, role: "ADMIN" },
+      reason: `Pay run ${run._id}`,
+      payRunId: run._id,
+    });
+  }
+
+  run.trainerTotals = trainerTotals as any;
+  run.totals = totals;
+  run.status = "FINALISED";
+  run.finalisedBy = new mongoose.Types.ObjectId(adminUserId);
+  run.finalisedAt = new Date();
+  await run.save();
+
+  return run;
+};
+
+const money = (cents: number) => (cents / 100).toFixed(2);
+
+export type PayRunExportFormat = "csv" | "xero" | "myob" | "aba";
+export const PAY_RUN_EXPORT_FORMATS: PayRunExportFormat[] = ["csv", "xero", "myob", "aba"];
+
+/** Per-trainer summary CSV */
+const buildSummaryCsv = (run: any) => {
+  const rows = run.trainerTotals.map((r: IPayRunTrainerTotal) => [
+    r.trainerName ?? "",
+    String(r.trainerId),
+    r.timesheetIds.length,
+    r.hours.toFixed(2),
+    r.km,
+    money(r.amountCents),
+    money(r.mileageCents),
+    money(r.totalCents),
+  ]);
+  rows.push([
+    "TOTAL",
+    "",
+    run.totals.timesheets,
+    run.totals.hours.toFixed(2),
+    run.totals.km,
+    money(run.totals.amountCents),
+    money(run.totals.mileageCents),
+    money(run.totals.totalCents),
+  ]);
+
+  return createTableCsvBuffer(
+    ["TrainerName", "TrainerId", "Timesheets", "Hours", "KM", "Labour", "Mileage", "Total"],
+    rows
+  );
+};
+
+/** Timesheet lines + trainer name/email/bank details, grouped per trainer */
+const loadPayrollEmployees = async (run: any): Promise<PayrollEmployee[]> => {
+  const [timesheets, trainers] = await Promise.all([
+    Timesheet.find({ _id: { $in: run.timesheetIds } })
+      .select("trainerId items")
+      .lean(),
+    Trainer.find({ _id: { $in: run.trainerTotals.map((r: any) => r.trainerId) } })
+      .select("fullName bankDetails userId")
+      .populate({ path: "userId", select: "email", model: "User" })
+      .lean(),
+  ]);
+  const byId = new Map(trainers.map((t: any) => [String(t._id), t]));
+
+  return run.trainerTotals.map((r: IPayRunTrainerTotal) => {
+    const trainer: any = byId.get(String(r.trainerId));
+    const lines = timesheets
+      .filter((ts) => String(ts.trainerId) === String(r.trainerId))
+      .flatMap((ts) => ts.items || [])
+      .map((i: any) => ({
+        date: i.startAt ?? i.date,
+        kind: i.kind,
+        rateBand: i.rateBand,
+        hours: i.hours ?? (i.minutes ?? 0) / 60,
+        km: i.km ?? 0,
+      }));
+
+    return {
+      trainerId: String(r.trainerId),
+      fullName: trainer?.fullName ?? r.trainerName,
+      email: trainer?.userId?.email,
+      bankDetails: trainer?.bankDetails ?? null,
+      totalCents: r.totalCents,
+      lines,
+    };
+  });
+};
+
+/**
+ * Export a pay run: summary CSV, Xero / MYOB timesheet imports, or an ABA bank file.
+ * Missing trainer / bank / ABA config data comes back as a 400 listing every problem.
+ */
+export const exportPayRun = async (id: string, format: PayRunExportFormat) => {
+  if (!PAY_RUN_EXPORT_FORMATS.includes(format)) throw new AppError("Unsupported format", 400);
+
+  const run = await loadRun(id);
+  const stamp = run.periodStart.toISOString().slice(0, 10);
+  const timeZone = STATE_TIMEZONES[ENV.DEFAULT_STATE as AustralianState];
+
+  if (format === "csv") {
+    return {
+      filename: `pay_run_${run._id}_${stamp}.csv`,
+      mime: "text/csv; charset=utf-8",
+      buffer: buildSummaryCsv(run),
+    };
+  }
+
+  const employees = await loadPayrollEmployees(run);
+
+  let result: PayrollExportResult;
+  if (format === "aba") {
+    result = buildAbaFile(employees, {
+      bankCode: ENV.ABA_BANK_CODE,
+      userName: ENV.ABA_USER_NAME,
+      userId: ENV.ABA_USER_ID,
+      description: ENV.ABA_DESCRIPTION,
+      traceBsb: ENV.ABA_TRACE_BSB,
+      traceAccount: ENV.ABA_TRACE_ACCOUNT,
+      remitterName: ENV.ABA_REMITTER_NAME,
+      selfBalancing: ENV.ABA_SELF_BALANCING,
+      reference: `PAY ${stamp}`,
+      processDate: new Date(),
+      timeZone,
+    });
+  } else {
+    const build = format === "xero" ? buildXeroTimesheetCsv : buildMyobTimesheetCsv;
+    result = build(employees, { timeZone });
+  }
+
+  if (!result.buffer) {
+    throw new ValidationError(result.errors, `Pay run cannot be exported as ${format.toUpperCase()}`);
+  }
+
+  return format === "aba"
+    ? {
+        filename: `pay_run_${run._id}_${stamp}.aba`,
+        mime: "text/plain; charset=us-ascii",
+        buffer: result.buffer,
+      }
+    : {
+        filename: `pay_run_${run._id}_${stamp}_${format}.csv`,
+        mime: "text/csv; charset=utf-8",
+        buffer: result.buffer,
+      };
+};
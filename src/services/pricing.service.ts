@@ -0,0 +1,78 @@
+// services/pricing.service.ts
+import { Participant } from "../models/participant.model";
+import { IRateCard } from "../models/rateCard.model";
+import { ENV } from "../config/env";
+import { resolveRateCard } from "./rateCard.service";
+import { getHolidayDateKeys } from "./publicHoliday.service";
+import { AustralianState, AUSTRALIAN_STATES, STATE_TIMEZONES, getZonedParts } from "../utils/timezone";
+import { BillingSegment, rateForBand, splitIntoRateBands } from "../utils/ndis-pricing";
+
+export type PricedSegment = BillingSegment & {
+  hourlyRateCents: number;
+  amountCents: number;
+};
+
+export type ShiftPricing = {
+  rateCard: IRateCard;
+  state: AustralianState;
+  timeZone: string;
+  segments: PricedSegment[];
+  billableMinutes: number;
+  amountCents: number;
+  hourlyRateCents: number; // base (weekday daytime) rate
+  kmRateCents: number;
+};
+
+/** Participant's state, falling back to ENV.DEFAULT_STATE */
+export const resolveParticipantState = async (participantUserId: any): Promise<AustralianState> => {
+  const p = participantUserId
+    ? await Participant.findOne({ userId: participantUserId }).select("state").lean()
+    : null;
+  const state = (p?.state || ENV.DEFAULT_STATE) as AustralianState;
+  return AUSTRALIAN_STATES.includes(state) ? state : "NSW";
+};
+
+/**
+ * Price a service window: resolve the rate card for the start date, split the window into
+ * NDIS time bands in the participant's state and price each band separately.
+ */
+export const priceShiftWindow = async ({
+  service,
+  trainerId,
+  participantId,
+  start,
+  end,
+}: {
+  service: string;
+  trainerId?: any;
+  participantId?: any;
+  start: Date;
+  end: Date;
+}): Promise<ShiftPricing> => {
+  const rateCard = await resolveRateCard({ serviceCode: service, trainerId, participantId, date: start });
+
+  const state = await resolveParticipantState(participantId);
+  const timeZone = STATE_TIMEZONES[state];
+
+  const publicHolidays = await getHolidayDateKeys(
+    state,
+    getZonedParts(start, timeZone).dateKey,
+    getZonedParts(end, timeZone).dateKey
+  );
+
+  const segments = splitIntoRateBands(start, end, { timeZone, publicHolidays }).map((s) => {
+    const hourlyRateCents = rateForBand(s.band, rateCard.hourlyRateCents, rateCard.bandRates);
+    return { ...s, hourlyRateCents, amountCents: Math.round((s.minutes / 60) * hourlyRateCents) };
+  });
+
+  return {
+    rateCard,
+    state,
+    timeZone,
+    segments,
+    billableMinutes: segments.reduce((acc, s) => acc + s.minutes, 0),
+    amountCents: segments.reduce((acc, s) => acc + s.amountCents, 0),
+    hourlyRateCents: rateCard.hourlyRateCents,
+    kmRateCents: rateCard.kmRateCents ?? 0,
+  };
+};
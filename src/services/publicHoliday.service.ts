@@ -0,0 +1,42 @@
+// services/publicHoliday.service.ts
+import mongoose from "mongoose";
+import { PublicHoliday, HolidayState } from "../models/publicHoliday.model";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { AustralianState } from "../utils/timezone";
+
+export const listPublicHolidays = async ({ state, year }: { state?: string; year?: number }) => {
+  const q: any = {};
+  if (state) q.state = { $in: [state, "NATIONAL"] };
+  if (year) q.date = { $gte: `${year}-01-01`, $lte: `${year}-12-31` };
+  return PublicHoliday.find(q).sort({ date: 1, state: 1 }).lean();
+};
+
+export const createPublicHoliday = async (input: { date: string; state: HolidayState; name: string }) => {
+  const exists = await PublicHoliday.exists({ date: input.date, state: input.state });
+  if (exists) throw new ConflictError(`${input.state} already has a holiday on ${input.date}`);
+  return PublicHoliday.create(input);
+};
+
+export const deletePublicHoliday = async (id: string) => {
+  if (!mongoose.isValidObjectId(id)) throw new AppError("Invalid holiday id", 400);
+  const deleted = await PublicHoliday.findByIdAndDelete(id).lean();
+  if (!deleted) throw new NotFoundError("PublicHoliday");
+  return deleted;
+};
+
+/**
+ * Holiday date keys (YYYY-MM-DD) for a state between two calendar dates (inclusive).
+ */
+export const getHolidayDateKeys = async (
+  state: AustralianState,
+  fromKey: string,
+  toKey: string
+): Promise<Set<string>> => {
+  const rows = await PublicHoliday.find({
+    state: { $in: [state, "NATIONAL"] },
+    date: { $gte: fromKey, $lte: toKey },
+  })
+    .select("date")
+    .lean();
+  return new Set(rows.map((r) => r.date));
+};
@@ -0,0 +1,266 @@
+// services/rateCard.service.ts
+import mongoose from "mongoose";
+import { RateCard, IRateCard } from "../models/rateCard.model";
+import { Trainer } from "../models/trainer.model";
+import { User } from "../models/user.model";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { BandRates, RateBand } from "../utils/ndis-pricing";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+const toObjectIdOrNull = (id?: string | null) =>
+  id ? new mongoose.Types.ObjectId(id) : null;
+
+export type RateCardInput = {
+  serviceCode: string;
+  name?: string;
+  trainerId?: string | null;
+  participantId?: string | null; // participant User._id
+  hourlyRateCents: number;
+  bandRates?: BandRates;
+  kmRateCents?: number;
+  ndisSupportItemNumber?: string;
+  ndisBandItemNumbers?: IRateCard["ndisBandItemNumbers"];
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  active?: boolean;
+};
+
+/**
+ * Two cards for the same service + override target must not be effective at the same time,
+ * otherwise the price of a shift would depend on which one the query returned first.
+ */
+const ensureNoOverlap = async (card: {
+  _id?: any;
+  serviceCode: string;
+  trainerId?: mongoose.Types.ObjectId | null;
+  participantId?: mongoose.Types.ObjectId | null;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+}) => {
+  const q: any = {
+    serviceCode: card.serviceCode,
+    trainerId: card.trainerId ?? null,
+    participantId: card.participantId ?? null,
+    active: true,
+    // existing.from <= new.to  AND  (existing.to is open OR existing.to >= new.from)
+    $or: [{ effectiveTo: null }, { effectiveTo: { $gte: card.effectiveFrom } }],
+  };
+  if (card.effectiveTo) q.effectiveFrom = { $lte: card.effectiveTo };
+  if (card._id) q._id = { $ne: card._id };
+
+  const clash = await RateCard.findOne(q).select("_id effectiveFrom effectiveTo").lean();
+  if (clash) {
+    throw new ConflictError(
+      `An active rate card for ${card.serviceCode} already covers this period (${clash._id})`
+    );
+  }
+};
+
+const validateWindow = (from: Date, to?: Date | null) => {
+  if (!(from instanceof Date) || isNaN(from.getTime())) {
+    throw new AppError("Invalid effectiveFrom date", 400);
+  }
+  if (to && (isNaN(to.getTime()) || to < from)) {
+    throw new AppError("effectiveTo must be on or after effectiveFrom", 400);
+  }
+};
+
+const ensureTargetsExist = async (trainerId?: string | null, participantId?: string | null) => {
+  if (trainerId) {
+    if (!isObjectId(trainerId)) throw new AppError("Invalid trainerId", 400);
+    const t = await Trainer.exists({ _id: trainerId });
+    if (!t) throw new NotFoundError("Trainer");
+  }
+  if (participantId) {
+    if (!isObjectId(participantId)) throw new AppError("Invalid participantId", 400);
+    const u = await User.exists({ _id: participantId, role: "PARTICIPANT" });
+    if (!u) throw new NotFoundError("Participant");
+  }
+};
+
+export const createRateCard = async (input: RateCardInput, adminUserId: string) => {
+  validateWindow(input.effectiveFrom, input.effectiveTo);
+  await ensureTargetsExist(input.trainerId, input.participantId);
+
+  const doc = {
+    serviceCode: input.serviceCode.trim(),
+    name: input.name,
+    trainerId: toObjectIdOrNull(input.trainerId),
+    participantId: toObjectIdOrNull(input.participantId),
+    hourlyRateCents: input.hourlyRateCents,
+    bandRates: input.bandRates ?? {},
+    kmRateCents: input.kmRateCents ?? 0,
+    ndisSupportItemNumber: input.ndisSupportItemNumber,
+    ndisBandItemNumbers: input.ndisBandItemNumbers ?? {},
+    effectiveFrom: input.effectiveFrom,
+    effectiveTo: input.effectiveTo ?? null,
+    active: input.active ?? true,
+    createdBy: toObjectIdOrNull(adminUserId),
+  };
+
+  if (doc.active) await ensureNoOverlap(doc);
+
+  return RateCard.create(doc);
+};
+
+type ListRateCardsParams = {
+  serviceCode?: string;
+  trainerId?: string;
+  participantId?: string;
+  active?: boolean;
+  at?: string; // ISO date: only cards effective on this date
+  page?: number;
+  limit?: number;
+};
+
+export const listRateCards = async (params: ListRateCardsParams) => {
+  const { serviceCode, trainerId, participantId, active, at, page = 1, limit = 20 } = params;
+
+  const q: any = {};
+  if (serviceCode) q.serviceCode = serviceCode;
+  if (trainerId && isObjectId(trainerId)) q.trainerId = trainerId;
+  if (participantId && isObjectId(participantId)) q.participantId = participantId;
+  if (typeof active === "boolean") q.active = active;
+  if (at) {
+    const d = new Date(at);
+    if (isNaN(d.getTime())) throw new AppError("Invalid 'at' date", 400);
+    q.effectiveFrom = { $lte: d };
+    q.$or = [{ effectiveTo: null }, { effectiveTo: { $gte: d } }];
+  }
+
+  const [data, total] = await Promise.all([
+    RateCard.find(q)
+      .sort({ serviceCode: 1, effectiveFrom: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    RateCard.countDocuments(q),
+  ]);
+
+  return {
+    data,
+    pagination: { page, limit, total, pages: Math.ceil(total / Math.max(1, limit)) },
+  };
+};
+
+export const getRateCardById = async (id: string) => {
+  if (!isObjectId(id)) throw new AppError("Invalid rate card id", 400);
+  const card = await RateCard.findById(id).lean();
+  if (!card) throw new NotFoundError("RateCard");
+  return card;
+};
+
+export const updateRateCard = async (
+  id: string,
+  patch: Partial<RateCardInput>,
+  adminUserId: string
+) => {
+  if (!isObjectId(id)) throw new AppError("Invalid rate card id", 400);
+  const card = await RateCard.findById(id);
+  if (!card) throw new NotFoundError("RateCard");
+
+  await ensureTargetsExist(patch.trainerId, patch.participantId);
+
+  if (patch.serviceCode !== undefined) card.serviceCode = patch.serviceCode.trim();
+  if (patch.name !== undefined) card.name = patch.name;
+  if (patch.trainerId !== undefined) card.trainerId = toObjectIdOrNull(patch.trainerId);
+  if (patch.participantId !== undefined) card.participantId = toObjectIdOrNull(patch.participantId);
+  if (patch.hourlyRateCents !== undefined) card.hourlyRateCents = patch.hourlyRateCents;
+  if (patch.bandRates !== undefined) card.bandRates = patch.bandRates;
+  if (patch.kmRateCents !== undefined) card.kmRateCents = patch.kmRateCents;
+  if (patch.ndisSupportItemNumber !== undefined) card.ndisSupportItemNumber = patch.ndisSupportItemNumber;
+  if (patch.ndisBandItemNumbers !== undefined) card.ndisBandItemNumbers = patch.ndisBandItemNumbers;
+  if (patch.effectiveFrom !== undefined) card.effectiveFrom = patch.effectiveFrom;
+  if (patch.effectiveTo !== undefined) card.effectiveTo = patch.effectiveTo;
+  if (patch.active !== undefined) card.active = patch.active;
+
+  validateWindow(card.effectiveFrom, card.effectiveTo);
+  if (card.active) await ensureNoOverlap(card);
+
+  card.updatedBy = toObjectIdOrNull(adminUserId);
+  await card.save();
+  return card.toObject();
+};
+
+/**
+ * Cards are referenced by timesheet items, so they are deactivated instead of deleted.
+ */
+export const deactivateRateCard = async (id: string, adminUserId: string) => {
+  return updateRateCard(id, { active: false }, adminUserId);
+};
+
+/**
+ * Catch-all service code. An active "*" card prices any service that has no card of its own,
+ * so a missing or misspelt service never blocks clock-out while a default is in effect.
+ */
+export const FALLBACK_SERVICE_CODE = "*";
+
+const findBestCard = async ({
+  serviceCode,
+  trainerId,
+  participantId,
+  date,
+}: {
+  serviceCode: string;
+  trainerId?: any;
+  participantId?: any;
+  date: Date;
+}) => {
+  const targets = (id: any) => (id ? [null, id] : [null]);
+
+  const candidates = await RateCard.find({
+    serviceCode,
+    active: true,
+    effectiveFrom: { $lte: date },
+    $or: [{ effectiveTo: null }, { effectiveTo: { $gte: date } }],
+    trainerId: { $in: targets(trainerId) },
+    participantId: { $in: targets(participantId) },
+  }).sort({ effectiveFrom: -1 });
+
+  const specificity = (c: IRateCard) => (c.participantId ? 2 : 0) + (c.trainerId ? 1 : 0);
+
+  return candidates.reduce<IRateCard | null>(
+    (acc, c) => (!acc || specificity(c) > specificity(acc) ? c : acc),
+    null
+  );
+};
+
+/**
+ * Resolve the rate card that applied to a shift on a given date.
+ * Precedence: trainer + participant > participant > trainer > service default.
+ * Within the same precedence the most recently effective card wins. Services without a card
+ * fall back to an active "*" card in effect on the date; with neither, pricing is refused.
+ */
+export const resolveRateCard = async ({
+  serviceCode,
+  trainerId,
+  participantId,
+  date,
+}: {
+  serviceCode: string;
+  trainerId?: any;
+  participantId?: any;
+  date: Date;
+}): Promise<IRateCard> => {
+  const best = await findBestCard({ serviceCode, trainerId, participantId, date });
+  if (best) return best;
+
+  const day = date.toISOString().slice(0, 10);
+  const fallback = await findBestCard({ serviceCode: FALLBACK_SERVICE_CODE, trainerId, participantId, date });
+  if (!fallback) {
+    throw new ConflictError(
+      `No active rate card for service "${serviceCode}" or default "${FALLBACK_SERVICE_CODE}" card is in effect on ${day}; add one before pricing this shift`
+    );
+  }
+
+  console.warn(`⚠️ No rate card for service "${serviceCode}" on ${day}; using the "${FALLBACK_SERVICE_CODE}" card`);
+  return fallback;
+};
+
+/** NDIS support item for a band: the band's own item if set, else the card's default item */
+export const supportItemForBand = (
+  card: Pick<IRateCard, "ndisSupportItemNumber" | "ndisBandItemNumbers"> | null | undefined,
+  band: RateBand
+): string | undefined =>
+  (band !== "DAYTIME" && card?.ndisBandItemNumbers?.[band]) || card?.ndisSupportItemNumber;
@@ -0,0 +1,188 @@
+// services/session.service.ts
+import mongoose from "mongoose";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Session, SessionRevokeReason } from "../models/session.model";
+import { IUser, User } from "../models/user.model";
+import { AppError, AuthError, NotFoundError } from "../utils/errors";
+import { ENV } from "../config/env";
+
+const JWT_SECRET = process.env.JWT_SECRET || "super-secret-key";
+
+const isObjectId = (id: string) => mongoose.isValidObjectId(id);
+
+const sha256 = (text: string) => crypto.createHash("sha256").update(text).digest("hex");
+
+export type SessionContext = { ip?: string | null; userAgent?: string | null };
+
+type SessionUser = Pick<IUser, "_id" | "role" | "tokenVersion">;
+
+// Rotated-out refresh token hashes kept per session for reuse detection
+const MAX_PREVIOUS_REFRESH_HASHES = 50;
+
+/** Refresh tokens are "<sessionId>.<secret>" so the session can be found without the secret */
+const newRefreshSecret = () => crypto.randomBytes(32).toString("hex");
+
+const parseRefreshToken = (refreshToken: string) => {
+  const [sessionId, secret, ...rest] = String(refreshToken || "").split(".");
+  if (!sessionId || !secret || rest.length || !isObjectId(sessionId)) return null;
+  return { sessionId, secret };
+};
+
+const refreshExpiry = (from: Date) =>
+  new Date(from.getTime() + ENV.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const issueTokens = (user: SessionUser, sessionId: string, secret: string, refreshExpiresAt: Date) => {
+  const expiresIn = ENV.ACCESS_TOKEN_TTL_MINUTES * 60;
+  const token = jwt.sign(
+    { userId: user._id, role: user.role, tv: user.tokenVersion || 0, sid: sessionId },
+    JWT_SECRET,
+    { expiresIn }
+  );
+
+  return {
+    token,
+    tokenExpiresAt: new Date(Date.now() + expiresIn * 1000),
+    refreshToken: `${sessionId}.${secret}`,
+    refreshTokenExpiresAt: refreshExpiresAt,
+    sessionId,
+  };
+};
+
+export type SessionTokens = ReturnType<typeof issueTokens>;
+
+/** Start a session at login */
+export const createSession = async (user: SessionUser, ctx: SessionContext = {}) => {
+  const secret = newRefreshSecret();
+  const now = new Date();
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: sha256(secret),
+    expiresAt: refreshExpiry(now),
+    lastUsedAt: now,
+    ip: ctx.ip ?? null,
+    userAgent: ctx.userAgent ?? null,
+  });
+
+  return issueTokens(user, String(session._id), secret, session.expiresAt);
+};
+
+/**
+ * Swap a refresh token for a new access + refresh token pair. Each refresh token works once:
+ * presenting one that has already been rotated means it was copied, so the session is revoked.
+ * The new refresh token is returned for the controller to put in the httpOnly cookie.
+ */
+export const refreshSession = async (refreshToken: string, ctx: SessionContext = {}) => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) throw new AuthError("Invalid refresh token");
+
+  const session = await Session.findById(parsed.sessionId);
+  const now = new Date();
+  if (!session || session.revokedAt || session.expiresAt <= now) {
+    throw new AuthError("Session has expired, please log in again");
+  }
+
+  const presentedHash = sha256(parsed.secret);
+  if (presentedHash !== session.refreshTokenHash) {
+    // Only a token this session actually issued counts as reuse; a made-up secret for a known
+    // session id is just rejected, so it can't be used to log someone out
+    if ((session.previousRefreshTokenHashes || []).includes(presentedHash)) {
+      await revokeSession(String(session._id), "REFRESH_TOKEN_REUSE");
+      console.warn(`⚠️ Refresh token reuse on session ${session._id}, session revoked`);
+    }
+    throw new AuthError("Session has expired, please log in again");
+  }
+
+  const user = await User.findById(session.userId).select("_id role status tokenVersion");
+  if (!user || user.status !== "ACTIVE") {
+    await revokeSession(
+      String(session._id),
+      user?.status === "DELETED" ? "ACCOUNT_DELETED" : "ACCOUNT_BLOCKED"
+    );
+    throw new AuthError("Session has expired, please log in again");
+  }
+
+  // Only one concurrent refresh can win the swap
+  const secret = newRefreshSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+    {
+      $set: {
+        refreshTokenHash: sha256(secret),
+        expiresAt: refreshExpiry(now),
+        lastUsedAt: now,
+        ...(ctx.ip ? { ip: ctx.ip } : {}),
+        ...(ctx.userAgent ? { userAgent: ctx.userAgent } : {}),
+      },
+      $push: {
+        previousRefreshTokenHashes: { $each: [presentedHash], $slice: -MAX_PREVIOUS_REFRESH_HASHES },
+      },
+      $inc: { rotationCount: 1 },
+    },
+    { new: true }
+  );
+  if (!rotated) throw new AuthError("Session has expired, please log in again");
+
+  return {
+    ...issueTokens(user, String(rotated._id), secret, rotated.expiresAt),
+    user: { id: user._id, role: user.role, status: user.status },
+  };
+};
+
+/** Access tokens are honoured only while their session is live */
+export const isSessionActive = async (sessionId: string, userId: string) => {
+  if (!isObjectId(sessionId)) return false;
+  return !!(await Session.exists({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }));
+};
+
+export const revokeSession = async (sessionId: string, reason: SessionRevokeReason) => {
+  if (!isObjectId(sessionId)) return;
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+};
+
+/** End every live session of a user (optionally keeping one, e.g. the caller's) */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  { exceptSessionId }: { exceptSessionId?: string } = {}
+) => {
+  const q: any = { userId, revokedAt: null };
+  if (exceptSessionId && isObjectId(exceptSessionId)) q._id = { $ne: exceptSessionId };
+
+  const result = await Session.updateMany(q, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.modifiedCount;
+};
+
+/** Live sessions of a user, newest activity first; `current` marks the caller's */
+export const listSessions = async (userId: string, currentSessionId?: string) => {
+  const sessions = await Session.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  })
+    .select("-refreshTokenHash -previousRefreshTokenHashes")
+    .sort({ lastUsedAt: -1 })
+    .lean();
+
+  return sessions.map((s) => ({ ...s, current: String(s._id) === currentSessionId }));
+};
+
+/** Sign out one of the caller's own sessions */
+export const revokeOwnSession = async (userId: string, sessionId: string) => {
+  if (!isObjectId(sessionId)) throw new AppError("Invalid session id", 400);
+  const session = await Session.findOne({ _id: sessionId, userId }).select("_id revokedAt");
+  if (!session) throw new NotFoundError("Session");
+
+  await revokeSession(sessionId, "REVOKED_BY_USER");
+  return { sessionId, revoked: true };
+};
@@ -0,0 +1,211 @@
+// services/shiftOffer.service.ts
+import mongoose from "mongoose";
+import { format } from "date-fns";
+import { AppError, NotFoundError } from "../utils/errors";
+import { ShiftRequest } from "../models/shiftRequest.model";
+import { Trainer } from "../models/trainer.model";
+import { Participant } from "../models/participant.model";
+import { sendEmail } from "../utils/email";
+import { ENV } from "../config/env";
+import { approveAndAssign, recordTransition, TransitionActor } from "./shiftRequest.service";
+import { getTrainerCandidates } from "./trainerMatching.service";
+import { notifyAdmins } from "./notification.service";
+
+const shiftInfoHtml = (reqDoc: any) => {
+  const start = new Date(reqDoc.start);
+  const end = new Date(reqDoc.end);
+  return `
+    <p><b>Service:</b> ${reqDoc.service || "N/A"}</p>
+    <p><b>Date:</b> ${format(start, "EEEE, MMM d yyyy")}</p>
+    <p><b>Time:</b> ${format(start, "hh:mm a")} – ${format(end, "hh:mm a")}</p>
+  `;
+};
+
+/** Load an OFFERED request and check it is offered to the trainer behind `trainerUserId` */
+const loadOfferForTrainer = async (requestId: string, trainerUserId: string) => {
+  if (!mongoose.isValidObjectId(requestId)) throw new AppError("Invalid requestId", 400);
+
+  const trainer = await Trainer.findOne({ userId: trainerUserId }).select("_id fullName").lean();
+  if (!trainer) throw new AppError("Trainer profile not found for this user", 404);
+
+  const reqDoc = await ShiftRequest.findById(requestId);
+  if (!reqDoc) throw new NotFoundError("ShiftRequest");
+
+  if (
+    reqDoc.status !== "OFFERED" ||
+    !reqDoc.offer ||
+    String(reqDoc.offer.trainerId) !== String(trainer._id)
+  ) {
+    throw new AppError("There is no open offer for you on this shift", 409);
+  }
+
+  return { reqDoc, trainer };
+};
+
+/**
+ * Take the offer away from its trainer and put the request back in the admin queue.
+ * The trainer is remembered in declinedTrainerIds so auto re-offers skip them.
+ */
+const releaseOffer = (reqDoc: any, actor: TransitionActor) => {
+  const trainerId = reqDoc.offer?.trainerId ?? reqDoc.assignedTrainerId;
+  reqDoc.declinedTrainerIds = [...(reqDoc.declinedTrainerIds || []), trainerId];
+  recordTransition(reqDoc, "PENDING_ADMIN", { ...actor, trainerId });
+  reqDoc.assignedTrainerId = null;
+  reqDoc.offer = null;
+};
+
+/**
+ * After a decline/expiry: with ENV.OFFER_AUTO_REASSIGN, offer to the best-ranked trainer who
+ * has not declined, is free and can be assigned (next one down if an assignment is refused);
+ * otherwise (or if nobody fits) tell the admins.
+ */
+const reofferOrQueue = async (reqDoc: any, offeredBy: any, why: string) => {
+  if (ENV.OFFER_AUTO_REASSIGN && new Date(reqDoc.start) > new Date()) {
+    try {
+      const candidates = await getTrainerCandidates(String(reqDoc._id), {
+        limit: 5,
+        excludeTrainerIds: reqDoc.declinedTrainerIds || [],
+      });
+      // Work down the ranking until one assignment goes through
+      for (const next of candidates.filter((c) => !c.conflictingRequestIds.length)) {
+        try {
+          return await approveAndAssign({
+            requestId: String(reqDoc._id),
+            trainerId: next.trainerId,
+            adminUserId: String(offeredBy),
+            byRole: "SYSTEM",
+            note: `Auto-offered to next ranked trainer (score ${next.score})`,
+          });
+        } catch (err) {
+          console.error(
+            `❌ Auto re-offer to trainer ${next.trainerId} failed for request ${reqDoc._id}:`,
+            err
+          );
+        }
+      }
+    } catch (err) {
+      console.error(`❌ Auto re-offer failed for request ${reqDoc._id}:`, err);
+    }
+  }
+
+  await notifyAdmins(
+    "Shift Needs a Trainer ⚠️",
+    `
+      <p>A shift offer was <b>${why}</b> and the request is back in the approval queue.</p>
+      ${shiftInfoHtml(reqDoc)}
+      <p><b>Request ID:</b> ${reqDoc._id}</p>
+    `
+  );
+  return reqDoc;
+};
+
+/**
+ * Trainer: accept an open offer (OFFERED → APPROVED)
+ */
+export const acceptShiftOffer = async ({
+  requestId,
+  trainerUserId,
+}: {
+  requestId: string;
+  trainerUserId: string;
+}) => {
+  const { reqDoc, trainer } = await loadOfferForTrainer(requestId, trainerUserId);
+
+  if (new Date(reqDoc.offer.expiresAt) <= new Date()) {
+    throw new AppError("This offer has expired", 409);
+  }
+
+  recordTransition(reqDoc, "APPROVED", { by: trainerUserId, byRole: "TRAINER", trainerId: trainer._id });
+  await reqDoc.save();
+
+  // ✅ Email participant: shift is now confirmed
+  try {
+    const participant = await Participant.findOne({ userId: reqDoc.participantId })
+      .select("fullName email")
+      .lean();
+    if (participant?.email) {
+      await sendEmail(
+        participant.email,
+        "Your Shift Has Been Confirmed ✅",
+        `
+          <p>Hello ${participant.fullName || "Participant"},</p>
+          <p>Your shift request has been <b>approved</b> and confirmed by trainer <b>${
+            trainer.fullName || "your trainer"
+          }</b>.</p>
+          ${shiftInfoHtml(reqDoc)}
+          <p>Thank you for using CareLink!</p>
+          <p>Best regards,<br/>CareLink Team</p>
+        `
+      );
+    }
+  } catch (err) {
+    console.error("❌ Failed to send offer accepted email:", err);
+  }
+
+  return reqDoc;
+};
+
+/**
+ * Trainer: decline an open offer (OFFERED → PENDING_ADMIN, then maybe auto re-offer)
+ */
+export const declineShiftOffer = async ({
+  requestId,
+  trainerUserId,
+  reason,
+}: {
+  requestId: string;
+  trainerUserId: string;
+  reason?: string;
+}) => {
+  const { reqDoc } = await loadOfferForTrainer(requestId, trainerUserId);
+  const offeredBy = reqDoc.offer.offeredBy;
+
+  releaseOffer(reqDoc, {
+    by: trainerUserId,
+    byRole: "TRAINER",
+    note: reason ? `Declined: ${String(reason).trim()}` : "Declined",
+  });
+  await reqDoc.save();
+
+  return reofferOrQueue(reqDoc, offeredBy, "declined");
+};
+
+/**
+ * Expire one offer whose deadline has passed. Returns null if it was already handled.
+ */
+export const expireShiftOffer = async (requestId: any) => {
+  const reqDoc = await ShiftRequest.findOne({
+    _id: requestId,
+    status: "OFFERED",
+    "offer.expiresAt": { $lte: new Date() },
+  });
+  if (!reqDoc) return null;
+
+  const { trainerId, offeredBy } = reqDoc.offer;
+  releaseOffer(reqDoc, { byRole: "SYSTEM", note: "Offer expired" });
+  await reqDoc.save();
+
+  try {
+    const trainer = await Trainer.findById(trainerId)
+      .select("fullName userId")
+      .populate({ path: "userId", select: "email", model: "User" })
+      .lean();
+    const email = (trainer as any)?.userId?.email;
+    if (email) {
+      await sendEmail(
+        email,
+        "Shift Offer Expired ⌛",
+        `
+          <p>Hello ${trainer?.fullName || "Trainer"},</p>
+          <p>The shift offer below was not accepted in time and has been <b>withdrawn</b>.</p>
+          ${shiftInfoHtml(reqDoc)}
+          <p>Best regards,<br/>CareLink Team</p>
+        `
+      );
+    }
+  } catch (err) {
+    console.error("❌ Failed to send offer expired email:", err);
+  }
+
+  return reofferOrQueue(reqDoc, offeredBy, "not accepted in time");
+};
@@ -1,19 +1,30 @@
-import { AppError, NotFoundError } from "../utils/errors";
-import { ShiftRequest, IShiftRequest } from "../models/shiftRequest.model";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { ShiftRequest, IShiftRequest, ShiftRequestStatus } from "../models/shiftRequest.model";
 import { Participant } from "../models/participant.model";
 import mongoose from "mongoose";
 import { User } from "../models/user.model";
 import { Trainer } from "../models/trainer.model";
-import { sendEmail } from "../utils/email";
+import { escapeHtml, sendEmail } from "../utils/email";
 import { format } from "date-fns";
-import { Shift } from "../models/shift.model";
+import { Shift, IShift } from "../models/shift.model";
 import { Timesheet } from "../models/timesheet.model";
 import { endOfWeekUTC, startOfWeekUTC } from "../utils/time-money";
+import { priceShiftWindow } from "./pricing.service";
+import { RateBand } from "../utils/ndis-pricing";
+import { ENV } from "../config/env";
+import {
+  auditSnapshot,
+  recordTimesheetAudit,
+  TimesheetAuditActor,
+  transitionTimesheet,
+} from "./timesheets.service";
+import { checkPlanBudget, drawDownForShift } from "./ndisPlan.service";
+import { assertTrainerCompliant } from "./compliance.service";
 
 /**
  * Business validation for a new Shift Request
  */
-const validateRequestWindow = (start: Date, end: Date) => {
+export const validateRequestWindow = (start: Date, end: Date) => {
   if (!(start instanceof Date) || isNaN(start.getTime())) {
     throw new AppError("Invalid start date/time", 400);
   }
@@ -35,6 +46,88 @@ const validateRequestWindow = (start: Date, end: Date) => {
   }
 };
 
+/**
+ * Status history
+ * Every status change goes through recordTransition so the request carries a full audit trail.
+ */
+export type TransitionActor = {
+  by?: any; // userId (omit for SYSTEM)
+  byRole: "PARTICIPANT" | "TRAINER" | "ADMIN" | "SYSTEM";
+  trainerId?: any;
+  note?: string;
+};
+
+export const recordTransition = (reqDoc: any, to: ShiftRequestStatus, actor: TransitionActor) => {
+  const from = reqDoc.isNew ? null : reqDoc.status ?? null;
+  reqDoc.history = [
+    ...(reqDoc.history || []),
+    {
+      from,
+      to,
+      at: new Date(),
+      by: actor.by ? new mongoose.Types.ObjectId(String(actor.by)) : null,
+      byRole: actor.byRole,
+      trainerId: actor.trainerId ?? null,
+      note: actor.note,
+    },
+  ];
+  reqDoc.status = to;
+};
+
+/**
+ * Conflict detection
+ * A trainer is double-booked when another OFFERED/APPROVED/IN_PROGRESS request assigned to them overlaps;
+ * a participant overlaps when another of their open requests does.
+ */
+export const TRAINER_BUSY_STATUSES = ["OFFERED", "APPROVED", "IN_PROGRESS"];
+const PARTICIPANT_OPEN_STATUSES = ["PENDING_ADMIN", "OFFERED", "APPROVED", "IN_PROGRESS"];
+
+export type ShiftConflict = {
+  requestId: string;
+  status: string;
+  service: string;
+  start: Date;
+  end: Date;
+};
+
+const findOverlapping = async (match: Record<string, any>, start: Date, end: Date, excludeIds: any[] = []) => {
+  const docs = await ShiftRequest.find({
+    ...match,
+    start: { $lt: end },
+    end: { $gt: start },
+    ...(excludeIds.length ? { _id: { $nin: excludeIds } } : {}),
+  })
+    .select("_id status service start end")
+    .sort({ start: 1 })
+    .lean();
+
+  return docs.map(
+    (d: any): ShiftConflict => ({
+      requestId: String(d._id),
+      status: d.status,
+      service: d.service,
+      start: d.start,
+      end: d.end,
+    })
+  );
+};
+
+export const findTrainerConflicts = (trainerId: any, start: Date, end: Date, excludeIds: any[] = []) =>
+  findOverlapping(
+    { assignedTrainerId: trainerId, status: { $in: TRAINER_BUSY_STATUSES } },
+    start,
+    end,
+    excludeIds
+  );
+
+export const findParticipantConflicts = (participantId: any, start: Date, end: Date, excludeIds: any[] = []) =>
+  findOverlapping(
+    { participantId, status: { $in: PARTICIPANT_OPEN_STATUSES } },
+    start,
+    end,
+    excludeIds
+  );
+
 export interface CreateShiftRequestInput {
   participantId: string; // ObjectId
   requestedBy: string; // userId from token
@@ -43,13 +136,14 @@ export interface CreateShiftRequestInput {
   end: string | Date;
   notes?: string;
   preferredTrainerIds?: string[];
+  allowConflicts?: boolean; // admin only: create even if the participant has an overlapping request
 }
 
 /**
  * Ensure the participant belongs to the logged-in user (role: PARTICIPANT).
  * Admins can create on behalf of participants.
  */
-const ensureParticipantOwnership = async (
+export const ensureParticipantOwnership = async (
   participantId: string,
   userId: string,
   role?: string
@@ -78,6 +172,7 @@ export const createShiftRequest = async (
     end,
     notes,
     preferredTrainerIds = [],
+    allowConflicts = false,
   } = payload;
 
   if (!participantId || !requestedBy || !service || !start || !end) {
@@ -95,6 +190,14 @@ export const createShiftRequest = async (
   // Validate participant ownership
   await ensureParticipantOwnership(participantId, requestedBy, role);
 
+  // Overlapping requests for the same participant (admins may override)
+  const conflicts = await findParticipantConflicts(participantId, startDt, endDt);
+  if (conflicts.length && !(role === "ADMIN" && allowConflicts)) {
+    throw new ConflictError("This participant already has a shift request in this time window", {
+      conflicts,
+    });
+  }
+
   // Sanitize trainer ids
   const trainerIds: mongoose.Types.ObjectId[] = (preferredTrainerIds || [])
     .filter(Boolean)
@@ -109,6 +212,25 @@ export const createShiftRequest = async (
     notes,
     preferredTrainerIds: trainerIds,
     status: "PENDING_ADMIN",
+    conflictOverrides: conflicts.length
+      ? [
+          {
+            kind: "PARTICIPANT",
+            by: new mongoose.Types.ObjectId(requestedBy),
+            at: new Date(),
+            conflictingRequestIds: conflicts.map((c) => new mongoose.Types.ObjectId(c.requestId)),
+          },
+        ]
+      : [],
+    history: [
+      {
+        from: null,
+        to: "PENDING_ADMIN",
+        at: new Date(),
+        by: new mongoose.Types.ObjectId(requestedBy),
+        byRole: role === "ADMIN" ? "ADMIN" : "PARTICIPANT",
+      },
+    ],
   };
 
   const created = await ShiftRequest.create(doc);
@@ -120,7 +242,7 @@ type ObjectId = mongoose.Types.ObjectId;
 export type ListAdminShiftRequestsParams = {
   page?: number; // 1-based
   limit?: number; // default 20
-  status?: ("PENDING_ADMIN" | "APPROVED" | "DECLINED")[];
+  status?: ShiftRequestStatus[];
   q?: string; // search across participant name / email / service
   dateFrom?: string; // ISO
   dateTo?: string; // ISO (exclusive)
@@ -264,17 +386,27 @@ export type ApproveAssignInput = {
   requestId: string;
   trainerId: string; // the selected trainer
   adminUserId: string;
+  notify?: boolean; // false when the caller sends its own (e.g. series) summary
+  allowConflicts?: boolean; // assign even if the trainer is already booked in this window
+  byRole?: "ADMIN" | "SYSTEM"; // SYSTEM when re-offered automatically after a decline/expiry
+  note?: string;
 };
 
+/**
+ * Approve a PENDING_ADMIN request and offer it to a trainer.
+ * The request stays OFFERED until the trainer accepts (→ APPROVED) or declines / lets the
+ * offer expire after ENV.OFFER_EXPIRY_HOURS (see shiftOffer.service).
+ */
+
 export const approveAndAssign = async ({
   requestId,
   trainerId,
   adminUserId,
-}: {
-  requestId: string;
-  trainerId: string;
-  adminUserId: string;
-}) => {
+  notify = true,
+  allowConflicts = false,
+  byRole = "ADMIN",
+  note,
+}: ApproveAssignInput) => {
   if (!mongoose.isValidObjectId(requestId))
     throw new AppError("Invalid requestId", 400);
   if (!mongoose.isValidObjectId(trainerId))
@@ -311,20 +443,66 @@ export const approveAndAssign = async ({
     throw new AppError("Trainer is not eligible for assignment", 400);
   }
 
+  // Mandatory checks (NDIS worker screening, WWCC, ...) must still be current when the shift starts
+  assertTrainerCompliant(trainer, new Date(reqDoc.start));
+
   // ✅ Get participant info from Participant model
   const participant = await Participant.findOne({
     userId: reqDoc.participantId,
   });
   if (!participant) throw new NotFoundError("Participant");
 
-  // Approve & assign
-  reqDoc.status = "APPROVED";
+  // Trainer double-booking
+  const conflicts = await findTrainerConflicts(trainer._id, new Date(reqDoc.start), new Date(reqDoc.end), [
+    reqDoc._id,
+  ]);
+  if (conflicts.length) {
+    if (!allowConflicts) {
+      throw new ConflictError("Trainer is already booked during this shift", { conflicts });
+    }
+    reqDoc.conflictOverrides = [
+      ...(reqDoc.conflictOverrides || []),
+      {
+        kind: "TRAINER",
+        by: new mongoose.Types.ObjectId(adminUserId),
+        at: new Date(),
+        conflictingRequestIds: conflicts.map((c) => new mongoose.Types.ObjectId(c.requestId)),
+      },
+    ];
+  }
+
+  // NDIS plan end date / remaining budget: surfaced to the admin, never blocks the approval
+  reqDoc.budgetWarnings = await checkPlanBudget({
+    participantId: reqDoc.participantId,
+    trainerId: trainer._id,
+    service: reqDoc.service,
+    start: new Date(reqDoc.start),
+    end: new Date(reqDoc.end),
+  });
+
+  // Approve & offer
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ENV.OFFER_EXPIRY_HOURS * 3600000);
+  recordTransition(reqDoc, "OFFERED", {
+    by: byRole === "SYSTEM" ? null : adminUserId,
+    byRole,
+    trainerId: trainer._id,
+    note,
+  });
   (reqDoc as any).assignedTrainerId = new mongoose.Types.ObjectId(trainerId);
   (reqDoc as any).approvedBy = new mongoose.Types.ObjectId(adminUserId);
-  (reqDoc as any).approvedAt = new Date();
+  (reqDoc as any).approvedAt = now;
+  reqDoc.offer = {
+    trainerId: trainer._id,
+    offeredBy: new mongoose.Types.ObjectId(adminUserId),
+    offeredAt: now,
+    expiresAt,
+  };
 
   await reqDoc.save();
 
+  if (!notify) return reqDoc;
+
   // ✅ Email notifications
   try {
     const startTime = reqDoc.start ? new Date(reqDoc.start) : null;
@@ -343,31 +521,19 @@ export const approveAndAssign = async ({
       ${start && end ? `<p><b>Time:</b> ${start} – ${end}</p>` : ""}
     `;
 
-    // ---- Trainer email ----
+    // ---- Trainer email (participant is emailed once the trainer accepts) ----
     await sendEmail(
       trainerUser.email,
-      "New Shift Assigned 📅",
+      "New Shift Offer 📅",
       `
         <p>Hello ${trainerUser.fullName || "Trainer"},</p>
-        <p>You’ve been <b>assigned</b> to a new participant shift!</p>
+        <p>You’ve been <b>offered</b> a new participant shift!</p>
         ${shiftInfo}
         <p>Participant: <b>${participant.fullName}</b></p>
-        <p>Please review full details in your CareLink dashboard.</p>
-        <p>Best regards,<br/>CareLink Team</p>
-      `
-    );
-
-    // ---- Participant email ----
-    await sendEmail(
-      participant.email,
-      "Your Shift Request Has Been Approved ✅",
-      `
-        <p>Hello ${participant.fullName || "Participant"},</p>
-        <p>Your shift request has been <b>approved</b> and assigned to trainer <b>${
-          trainerUser.fullName || "your trainer"
-        }</b>.</p>
-        ${shiftInfo}
-        <p>Thank you for using CareLink!</p>
+        <p>Please <b>accept or decline</b> from your CareLink dashboard by <b>${format(
+          expiresAt,
+          "EEEE, MMM d yyyy hh:mm a"
+        )}</b>, after which the offer expires.</p>
         <p>Best regards,<br/>CareLink Team</p>
       `
     );
@@ -392,7 +558,7 @@ export const decline = async (
     throw new AppError("Only PENDING_ADMIN requests can be declined", 409);
   }
 
-  reqDoc.status = "DECLINED";
+  recordTransition(reqDoc, "DECLINED", { by: adminUserId, byRole: "ADMIN", note: reason });
   (reqDoc as any).approvedBy = new mongoose.Types.ObjectId(adminUserId);
   (reqDoc as any).approvedAt = new Date();
   (reqDoc as any).declinedReason = reason || null;
@@ -408,7 +574,7 @@ type SortKey = "createdAt:desc" | "createdAt:asc" | "start:asc" | "start:desc";
 export type ListRoleShiftRequestsParams = {
   page?: number; // 1-based
   limit?: number; // default 20
-  status?: ("PENDING_ADMIN" | "APPROVED" | "DECLINED")[];
+  status?: ShiftRequestStatus[];
   dateFrom?: string; // ISO
   dateTo?: string; // ISO (exclusive)
   sort?: SortKey;
@@ -630,6 +796,7 @@ export const listForTrainer = async (
               end: 1,
               notes: 1,
               createdAt: 1,
+              offerExpiresAt: "$offer.expiresAt", // set while OFFERED
 
               // Participant display
               participant: {
@@ -730,6 +897,8 @@ export const clockInShiftAsTrainer = async ({
     throw new AppError("Only approved shift requests can be started", 409);
   }
 
+  assertTrainerCompliant(trainer);
+
   // 🔹 Prevent duplicate clock-in
   const existingActive = await Shift.findOne({
     shiftRequestId: reqDoc._id,
@@ -803,11 +972,24 @@ const endOfWeekUTC = (ws: Date) => {
 
 const roundCents = (n: number) => Math.round(n);
 
-// (Optional) Plug your real pricing resolver here.
-const getPricingSnapshotForShift = async (shift: any) => {
+// Price a shift from the rate card that applied on the shift date, split into NDIS time bands
+const getPricingSnapshotForShift = async (
+  shift: any,
+  window: { start: Date; end: Date }
+) => {
+  const pricing = await priceShiftWindow({
+    service: shift.service,
+    trainerId: shift.trainerId,
+    participantId: shift.participantId,
+    start: window.start,
+    end: window.end,
+  });
   return {
-    hourlyRateCents: 6500, // $65.00/h
-    kmRateCents: 85,       // $0.85/km
+    hourlyRateCents: pricing.hourlyRateCents,
+    kmRateCents: pricing.kmRateCents,
+    rateCardId: pricing.rateCard._id as mongoose.Types.ObjectId,
+    segments: pricing.segments,
+    state: pricing.state,
   };
 };
 
@@ -843,18 +1025,72 @@ export const clockOutShiftAsTrainer = async ({
 
   const shift = await Shift.findById(reqDoc.linkedShiftId);
   if (!shift) throw new NotFoundError("Shift");
-  // if (shift.status !== "IN_PROGRESS") throw new AppError("Shift is not in progress", 409);
+  if (shift.status !== "IN_PROGRESS") throw new ConflictError("Shift is not in progress");
 
   // --- AUDIT actuals only (not for billing) ---
   const now = new Date();
   // cap to scheduledEnd (NOT plannedClockOut)
   const auditOut = shift.scheduledEnd && now > shift.scheduledEnd ? shift.scheduledEnd : now;
-  (shift as any).actualClockOut = auditOut;
-  shift.status = "COMPLETED";
+
+  const result = await completeShift({
+    reqDoc,
+    shift,
+    report,
+    clockOutAt: auditOut,
+    actorUserId: trainerUserId,
+  });
+  // Auto clock-out (or another request) completed it while we were pricing
+  if (!result) throw new ConflictError("Shift is not in progress");
+  return result;
+};
+
+/**
+ * Cron completion for a shift the trainer never clocked out of.
+ * Goes through the same billing/timesheet path as a trainer clock-out and flags the shift as auto-closed.
+ * Returns null when the shift was already completed in the meantime.
+ */
+export const autoClockOutShift = async (shiftId: any) => {
+  const shift = await Shift.findById(shiftId);
+  if (!shift || shift.status !== "IN_PROGRESS") return null;
+
+  const reqDoc = await ShiftRequest.findById(shift.shiftRequestId);
+  if (!reqDoc) throw new NotFoundError("ShiftRequest");
+
+  return completeShift({
+    reqDoc,
+    shift,
+    clockOutAt: shift.plannedClockOut,
+    autoClosed: true,
+  });
+};
+
+// Shared tail of trainer clock-out and auto clock-out: report, billing, timesheet.
+// The shift is only completed if it is still IN_PROGRESS at write time; returns null otherwise.
+const completeShift = async ({
+  reqDoc,
+  shift,
+  report,
+  clockOutAt,
+  autoClosed = false,
+  actorUserId,
+}: {
+  reqDoc: any;
+  shift: IShift;
+  report?: ReportInput;
+  clockOutAt: Date;
+  autoClosed?: boolean;
+  actorUserId?: string; // trainer user; omitted for auto clock-out
+}) => {
+  const actor: TimesheetAuditActor = autoClosed
+    ? { byRole: "SYSTEM" }
+    : { by: actorUserId, byRole: "TRAINER" };
+
+  // Fail before touching the shift if the week has already gone through payroll
+  await assertTimesheetWeekOpen(shift.trainerId, new Date(reqDoc.end));
 
   // trainer report
   const kmNum = report?.km != null ? Number(report.km) : undefined;
-  shift.report = {
+  const shiftReport = {
     activities: report?.activities || "",
     progress: report?.progress || "",
     incidents: report?.incidents || "",
@@ -864,73 +1100,126 @@ export const clockOutShiftAsTrainer = async ({
   // --- BILLING from scheduled request window ---
   const scheduledStart = new Date(reqDoc.start);
   const scheduledEnd = new Date(reqDoc.end);
-  const billableMinutes = minutesBetween(scheduledStart, scheduledEnd);
-
-  const { hourlyRateCents, kmRateCents } = await getPricingSnapshotForShift(shift);
 
-  (shift as any).billing = {
-    billableMinutes,
-    hourlyRateCents,
-    kmRateCents,
-    source: "ShiftRequest",
-    scheduledStart,
-    scheduledEnd,
-  };
+  const { hourlyRateCents, kmRateCents, rateCardId, segments, state } =
+    await getPricingSnapshotForShift(shift, { start: scheduledStart, end: scheduledEnd });
+  const billableMinutes = segments.reduce((acc, s) => acc + s.minutes, 0);
 
-  await shift.save();
+  // Claim the shift: a concurrent clock-out / auto clock-out finds it no longer IN_PROGRESS
+  const completed = await Shift.findOneAndUpdate(
+    { _id: shift._id, status: "IN_PROGRESS" },
+    {
+      $set: {
+        status: "COMPLETED",
+        actualClockOut: clockOutAt,
+        report: shiftReport,
+        billing: {
+          billableMinutes,
+          hourlyRateCents,
+          kmRateCents,
+          rateCardId,
+          state,
+          segments,
+          source: "ShiftRequest",
+          scheduledStart,
+          scheduledEnd,
+        },
+        ...(autoClosed ? { autoClosed: true, autoClosedAt: new Date() } : {}),
+      },
+    },
+    { new: true }
+  );
+  if (!completed) return null;
 
-  (reqDoc as any).status = "COMPLETED";
+  recordTransition(reqDoc, "COMPLETED", {
+    ...actor,
+    trainerId: shift.trainerId,
+    note: autoClosed ? "Auto clock-out" : undefined,
+  });
   await reqDoc.save();
 
   const timesheet = await upsertTimesheetForShift({
     trainerId: shift.trainerId,
     participantId: shift.participantId,
     shiftId: shift._id,
+    shiftRequestId: reqDoc._id,
     service: shift.service,
     date: scheduledEnd,           // anchor to day of service
-    minutes: billableMinutes,     // scheduled minutes only
+    segments,                     // scheduled minutes only, one line per rate band
     km: kmNum ?? 0,
-    hourlyRateCents,
     kmRateCents,
+    rateCardId,
+    actor,
   });
 
-  return { shift: shift.toObject(), timesheet };
+  try {
+    await drawDownForShift(completed);
+  } catch (err) {
+    console.error(`❌ Plan drawdown failed for shift ${shift._id}:`, err);
+  }
+
+  return { shift: completed.toObject(), timesheet };
 };
 
 // ===================== TIMESHEET UPSERT =====================
+type UpsertSegment = {
+  band: RateBand;
+  start: Date;
+  end: Date;
+  minutes: number;          // billable minutes in this band
+  hourlyRateCents: number;  // band rate (loadings applied)
+};
+
 type UpsertArgs = {
   trainerId: any;
   participantId: any;
   shiftId: any;
+  shiftRequestId?: any;
   service: string;
-  date: Date;
-  minutes: number;        // billable minutes
+  date: Date;               // anchors the timesheet week
+  segments: UpsertSegment[]; // one timesheet line per rate band
   km?: number;
-  hourlyRateCents: number;
   kmRateCents?: number;
+  rateCardId?: any;         // RateCard used for hourly/km rates
+  actor?: TimesheetAuditActor; // who triggered the write (audit trail)
 };
 
-export const upsertTimesheetForShift = async ({
+/** PAID timesheets belong to a finalised pay run and must not change */
+const assertTimesheetWeekOpen = async (trainerId: any, date: Date) => {
+  const paid = await Timesheet.exists({
+    trainerId,
+    weekStart: startOfWeekUTC(date),
+    status: "PAID",
+  });
+  if (paid) {
+    throw new ConflictError("The timesheet for this week has been paid and is locked");
+  }
+};
+
+/**
+ * Load (or create) the trainer's weekly timesheet for `date`, swap the lines matched by
+ * `isReplaced` for `lines`, then recompute totals. Each step lands in the timesheet history.
+ * A SUBMITTED/APPROVED week is REOPENED first so the changed lines go back through approval.
+ */
+const replaceTimesheetLines = async ({
   trainerId,
-  participantId,
-  shiftId,
-  service,
   date,
-  minutes,
-  km = 0,
-  hourlyRateCents,
-  kmRateCents = 0,
-}: UpsertArgs) => {
+  isReplaced,
+  lines,
+  actor,
+  reason,
+}: {
+  trainerId: any;
+  date: Date;
+  isReplaced: (item: any) => boolean;
+  lines: any[];
+  actor: TimesheetAuditActor;
+  reason: string;
+}) => {
   const weekStart = startOfWeekUTC(date);
   const weekEnd = endOfWeekUTC(weekStart);
 
-  const hours = minutes / 60; // 👈 required by your schema
-
-  const amountCents = Math.round(hours * hourlyRateCents);
-  const mileageCents = Math.round(km * kmRateCents);
-  const totalCents = amountCents + mileageCents;
-
-  const ts = await Timesheet.findOneAndUpdate(
+  const result = await Timesheet.findOneAndUpdate(
     { trainerId, weekStart },
     {
       $setOnInsert: {
@@ -942,34 +1231,42 @@ export const upsertTimesheetForShift = async ({
         totals: { hours: 0, km: 0, amountCents: 0, mileageCents: 0, totalCents: 0 },
       },
     },
-    { upsert: true, new: true, setDefaultsOnInsert: true }
+    { upsert: true, new: true, setDefaultsOnInsert: true, includeResultMetadata: true }
   );
+  let ts = result.value!;
+  if (ts.status === "PAID") {
+    throw new ConflictError("The timesheet for this week has been paid and is locked");
+  }
+  if (ts.status === "SUBMITTED" || ts.status === "APPROVED") {
+    ts = await transitionTimesheet({
+      id: String(ts._id),
+      action: "REOPEN",
+      actor: { role: "SYSTEM" },
+      reason: `Lines changed after ${ts.status.toLowerCase()}: ${reason}`,
+    });
+  }
 
-  // Build/replace item shape INCLUDING hours
-  const item = {
-    shiftId,
-    participantId,
-    date,
-    service,
-    minutes,            // keep for precision / audits
-    hours,              // 👈 required by schema
-    km,
-    hourlyRateCents,
-    kmRateCents,
-    amountCents,
-    mileageCents,
-    totalCents,
-  };
+  if (!result.lastErrorObject?.updatedExisting) {
+    recordTimesheetAudit(ts, "CREATED", actor, {
+      after: { status: ts.status, weekStart, weekEnd },
+      reason,
+    });
+  }
 
-  const idx = ts.items.findIndex((i: any) => String(i.shiftId) === String(shiftId));
-  if (idx >= 0) ts.items[idx] = item as any;
-  else ts.items.push(item as any);
+  const removed = ts.items.filter((i: any) => isReplaced(i));
+  const kept = ts.items.filter((i: any) => !isReplaced(i));
+  ts.items = [...kept, ...lines] as any;
+  recordTimesheetAudit(ts, "ITEMS_REPLACED", actor, {
+    before: { items: removed },
+    after: { items: lines },
+    reason,
+  });
+  const totalsBefore = auditSnapshot(ts.totals);
 
   // Defensive backfill: ensure any legacy items have hours
-  ts.items = ts.items.map((i: any) => ({
-    ...i,
-    hours: typeof i.hours === "number" ? i.hours : (i.minutes ?? 0) / 60,
-  }));
+  for (const i of ts.items as any[]) {
+    if (typeof i.hours !== "number") i.hours = (i.minutes ?? 0) / 60;
+  }
 
   // Recompute totals (use hours to match your schema)
   const sum = ts.items.reduce(
@@ -990,11 +1287,273 @@ export const upsertTimesheetForShift = async ({
   ts.totals.amountCents = sum.amountCents;
   ts.totals.mileageCents = sum.mileageCents;
   ts.totals.totalCents = sum.amountCents + sum.mileageCents;
+  recordTimesheetAudit(ts, "TOTALS_RECALCULATED", actor, {
+    before: totalsBefore,
+    after: ts.totals,
+    reason,
+  });
 
   await ts.save();
   return ts.toObject();
 };
 
+export const upsertTimesheetForShift = async ({
+  trainerId,
+  participantId,
+  shiftId,
+  shiftRequestId = null,
+  service,
+  date,
+  segments,
+  km = 0,
+  kmRateCents = 0,
+  rateCardId = null,
+  actor = { byRole: "SYSTEM" },
+}: UpsertArgs) => {
+  // Build one line per band; mileage is carried on the first line only
+  const lines = segments.map((seg, idx) => {
+    const hours = seg.minutes / 60; // 👈 required by schema
+    const lineKm = idx === 0 ? km : 0;
+    const amountCents = roundCents(hours * seg.hourlyRateCents);
+    const mileageCents = roundCents(lineKm * kmRateCents);
+    return {
+      kind: "SHIFT",
+      shiftId,
+      shiftRequestId,
+      participantId,
+      date: seg.start,
+      service,
+      rateBand: seg.band,
+      startAt: seg.start,
+      endAt: seg.end,
+      minutes: seg.minutes, // keep for precision / audits
+      hours,
+      km: lineKm,
+      hourlyRateCents: seg.hourlyRateCents,
+      kmRateCents,
+      rateCardId,
+      amountCents,
+      mileageCents,
+      totalCents: amountCents + mileageCents,
+    };
+  });
+
+  // Replace every line previously written for this shift
+  return replaceTimesheetLines({
+    trainerId,
+    date,
+    isReplaced: (i) => i.shiftId != null && String(i.shiftId) === String(shiftId),
+    lines,
+    actor,
+    reason: `Shift ${shiftId} completed`,
+  });
+};
+
+/**
+ * Bill a short-notice cancellation to the assigned trainer's timesheet.
+ * Lines mirror the booked rate bands, scaled by `feePercent`.
+ */
+const addCancellationFeeToTimesheet = async ({
+  reqDoc,
+  segments,
+  feePercent,
+  rateCardId,
+  actor,
+}: {
+  reqDoc: any;
+  segments: UpsertSegment[];
+  feePercent: number;
+  rateCardId: any;
+  actor: TimesheetAuditActor;
+}) => {
+  const lines = segments.map((seg) => {
+    // Fee-scaled hours, so units × rate in payroll exports (Xero/MYOB) equals the fee paid
+    const hours = (seg.minutes / 60) * (feePercent / 100);
+    const amountCents = roundCents(hours * seg.hourlyRateCents);
+    return {
+      kind: "CANCELLATION_FEE",
+      shiftId: null,
+      shiftRequestId: reqDoc._id,
+      participantId: reqDoc.participantId,
+      date: seg.start,
+      service: reqDoc.service,
+      rateBand: seg.band,
+      startAt: seg.start,
+      endAt: seg.end,
+      minutes: seg.minutes,
+      hours,
+      km: 0,
+      hourlyRateCents: seg.hourlyRateCents,
+      kmRateCents: 0,
+      rateCardId,
+      amountCents,
+      mileageCents: 0,
+      totalCents: amountCents,
+    };
+  });
+
+  return replaceTimesheetLines({
+    trainerId: reqDoc.assignedTrainerId,
+    date: new Date(reqDoc.end),
+    isReplaced: (i) =>
+      i.kind === "CANCELLATION_FEE" && String(i.shiftRequestId) === String(reqDoc._id),
+    lines,
+    actor,
+    reason: `Short-notice cancellation of request ${reqDoc._id} (${feePercent}%)`,
+  });
+};
+
+// ===================== CANCELLATION =====================
+const CANCELLABLE_STATUSES = ["PENDING_ADMIN", "OFFERED", "APPROVED"];
+
+export type CancelShiftRequestInput = {
+  requestId: string;
+  actor: { id: string; role: "PARTICIPANT" | "TRAINER" | "ADMIN" };
+  reason: string;
+  chargeFee?: boolean; // admin only: bill the short-notice fee (participants are always charged)
+  notify?: boolean;
+};
+
+/**
+ * Cancel a shift request.
+ * - Participants: own PENDING_ADMIN/OFFERED/APPROVED requests.
+ * - Admins: any PENDING_ADMIN/OFFERED/APPROVED request.
+ * An APPROVED request cancelled inside the short-notice window can bill a cancellation fee
+ * to the assigned trainer's timesheet (ENV.CANCELLATION_FEE_PERCENT of the booked price).
+ */
+export const cancelShiftRequest = async ({
+  requestId,
+  actor,
+  reason,
+  chargeFee,
+  notify = true,
+}: CancelShiftRequestInput) => {
+  if (!isObjectId(requestId)) throw new AppError("Invalid requestId", 400);
+  if (!reason || !String(reason).trim()) {
+    throw new AppError("A cancellation reason is required", 400);
+  }
+  if (actor.role !== "PARTICIPANT" && actor.role !== "ADMIN") {
+    throw new AppError("Forbidden", 403);
+  }
+
+  const reqDoc = await ShiftRequest.findById(requestId);
+  if (!reqDoc) throw new NotFoundError("ShiftRequest");
+
+  if (actor.role === "PARTICIPANT" && String(reqDoc.participantId) !== String(actor.id)) {
+    throw new AppError("You can only cancel your own shift requests", 403);
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(reqDoc.status)) {
+    throw new AppError(`Only ${CANCELLABLE_STATUSES.join("/")} requests can be cancelled`, 409);
+  }
+
+  if (reqDoc.linkedShiftId) {
+    const started = await Shift.exists({ _id: reqDoc.linkedShiftId, status: { $ne: "CANCELLED" } });
+    if (started) throw new AppError("This shift has already started and cannot be cancelled", 409);
+  }
+
+  const now = new Date();
+  const start = new Date(reqDoc.start);
+  const end = new Date(reqDoc.end);
+  const hoursUntilStart = (start.getTime() - now.getTime()) / 3600000;
+  const shortNotice = hoursUntilStart < ENV.CANCELLATION_SHORT_NOTICE_HOURS;
+
+  const feeApplies =
+    shortNotice &&
+    reqDoc.status === "APPROVED" &&
+    !!reqDoc.assignedTrainerId &&
+    ENV.CANCELLATION_FEE_PERCENT > 0 &&
+    (actor.role === "PARTICIPANT" || !!chargeFee);
+
+  let feeCents = 0;
+  if (feeApplies) {
+    const pricing = await priceShiftWindow({
+      service: reqDoc.service,
+      trainerId: reqDoc.assignedTrainerId,
+      participantId: reqDoc.participantId,
+      start,
+      end,
+    });
+    await addCancellationFeeToTimesheet({
+      reqDoc,
+      segments: pricing.segments,
+      feePercent: ENV.CANCELLATION_FEE_PERCENT,
+      rateCardId: pricing.rateCard._id,
+      actor: { by: actor.id, byRole: actor.role },
+    });
+    feeCents = roundCents(pricing.amountCents * (ENV.CANCELLATION_FEE_PERCENT / 100));
+  }
+
+  const previousStatus = reqDoc.status;
+  recordTransition(reqDoc, "CANCELLED", { by: actor.id, byRole: actor.role, note: String(reason).trim() });
+  reqDoc.cancellation = {
+    by: new mongoose.Types.ObjectId(actor.id),
+    byRole: actor.role,
+    at: now,
+    reason: String(reason).trim(),
+    shortNotice,
+    feeApplied: feeApplies,
+    feeCents,
+  };
+  await reqDoc.save();
+
+  if (!notify) return reqDoc;
+
+  // ✅ Email notifications
+  try {
+    const shiftDate = format(start, "EEEE, MMM d yyyy");
+    const shiftInfo = `
+      <p><b>Service:</b> ${escapeHtml(reqDoc.service || "N/A")}</p>
+      <p><b>Date:</b> ${shiftDate}</p>
+      <p><b>Time:</b> ${format(start, "hh:mm a")} – ${format(end, "hh:mm a")}</p>
+      <p><b>Reason:</b> ${escapeHtml(reqDoc.cancellation.reason)}</p>
+    `;
+
+    const participant = await Participant.findOne({ userId: reqDoc.participantId })
+      .select("fullName email")
+      .lean();
+
+    if (["OFFERED", "APPROVED"].includes(previousStatus) && reqDoc.assignedTrainerId) {
+      const trainer = await Trainer.findById(reqDoc.assignedTrainerId)
+        .select("fullName userId")
+        .populate({ path: "userId", select: "email", model: "User" })
+        .lean();
+      const trainerEmail = (trainer as any)?.userId?.email;
+
+      if (trainerEmail) {
+        await sendEmail(
+          trainerEmail,
+          "Shift Cancelled ❌",
+          `
+            <p>Hello ${escapeHtml(trainer?.fullName || "Trainer")},</p>
+            <p>The following shift with <b>${escapeHtml(participant?.fullName || "your participant")}</b> has been <b>cancelled</b>.</p>
+            ${shiftInfo}
+            ${feeApplies ? "<p>This was a short-notice cancellation and has been added to your timesheet.</p>" : ""}
+            <p>Best regards,<br/>CareLink Team</p>
+          `
+        );
+      }
+    }
+
+    if (actor.role === "ADMIN" && participant?.email) {
+      await sendEmail(
+        participant.email,
+        "Your Shift Has Been Cancelled",
+        `
+          <p>Hello ${escapeHtml(participant.fullName || "Participant")},</p>
+          <p>Your shift request has been <b>cancelled</b> by our team.</p>
+          ${shiftInfo}
+          <p>Best regards,<br/>CareLink Team</p>
+        `
+      );
+    }
+  } catch (err) {
+    console.error("❌ Failed to send cancellation emails:", err);
+  }
+
+  return reqDoc;
+};
+
 
 export const listPastShiftsWithTimesheets = async ({
   viewer,
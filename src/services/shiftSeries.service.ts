@@ -0,0 +1,660 @@
+// services/shiftSeries.service.ts
+import mongoose from "mongoose";
+import { format } from "date-fns";
+import { AppError, ConflictError, NotFoundError } from "../utils/errors";
+import { ShiftRequest } from "../models/shiftRequest.model";
+import { ShiftRequestSeries } from "../models/shiftRequestSeries.model";
+import { Participant } from "../models/participant.model";
+import { Trainer } from "../models/trainer.model";
+import { escapeHtml, sendEmail } from "../utils/email";
+import { ENV } from "../config/env";
+import { STATE_TIMEZONES } from "../utils/timezone";
+import {
+  expandRecurrence,
+  MAX_SERIES_OCCURRENCES,
+  RecurrenceFrequency,
+} from "../utils/recurrence";
+import { resolveParticipantState } from "./pricing.service";
+import {
+  approveAndAssign,
+  cancelShiftRequest,
+  ensureParticipantOwnership,
+  findParticipantConflicts,
+  findTrainerConflicts,
+  recordTransition,
+  ShiftConflict,
+  validateRequestWindow,
+} from "./shiftRequest.service";
+
+export type SeriesScope = "THIS" | "FOLLOWING";
+
+type Actor = { id: string; role: "PARTICIPANT" | "TRAINER" | "ADMIN" };
+
+const FREQUENCIES: RecurrenceFrequency[] = ["WEEKLY", "FORTNIGHTLY"];
+const EDITABLE_STATUSES = ["PENDING_ADMIN", "OFFERED", "APPROVED"];
+
+export interface CreateShiftSeriesInput {
+  participantId: string;
+  requestedBy: string;
+  service: string;
+  start: string | Date; // first occurrence
+  end: string | Date;
+  notes?: string;
+  preferredTrainerIds?: string[];
+  recurrence: {
+    frequency: RecurrenceFrequency;
+    weekdays?: number[]; // defaults to the weekday of `start`
+    until?: string | Date | null;
+    count?: number | null;
+  };
+  allowConflicts?: boolean; // admin only
+}
+
+const formatWindow = (start: Date, end: Date) =>
+  `${format(start, "EEEE, MMM d yyyy")} ${format(start, "hh:mm a")} – ${format(end, "hh:mm a")}`;
+
+const occurrenceListHtml = (docs: Array<{ start: Date; end: Date }>) =>
+  `<ul>${docs.map((d) => `<li>${formatWindow(new Date(d.start), new Date(d.end))}</li>`).join("")}</ul>`;
+
+const assertSeriesAccess = (series: any, actor: Actor) => {
+  if (actor.role === "ADMIN") return;
+  if (actor.role === "PARTICIPANT" && String(series.participantId) === String(actor.id)) return;
+  throw new AppError("You are not allowed to manage this series", 403);
+};
+
+const loadSeries = async (seriesId: string) => {
+  if (!mongoose.isValidObjectId(seriesId)) throw new AppError("Invalid seriesId", 400);
+  const series = await ShiftRequestSeries.findById(seriesId);
+  if (!series) throw new NotFoundError("Shift series");
+  return series;
+};
+
+const loadOccurrence = async (seriesId: string, requestId: string) => {
+  if (!mongoose.isValidObjectId(requestId)) throw new AppError("Invalid requestId", 400);
+  const occurrence = await ShiftRequest.findOne({ _id: requestId, seriesId });
+  if (!occurrence) throw new NotFoundError("Series occurrence");
+  return occurrence;
+};
+
+/** The target occurrence, plus every later one when scope is FOLLOWING */
+const occurrencesInScope = async (seriesId: string, target: any, scope: SeriesScope) => {
+  if (scope === "THIS") return [target];
+  return ShiftRequest.find({
+    seriesId,
+    occurrenceIndex: { $gte: target.occurrenceIndex },
+  }).sort({ occurrenceIndex: 1 });
+};
+
+const parseScope = (scope?: string): SeriesScope => {
+  const s = String(scope || "THIS").toUpperCase();
+  if (s !== "THIS" && s !== "FOLLOWING") {
+    throw new AppError("scope must be THIS or FOLLOWING", 400);
+  }
+  return s;
+};
+
+/**
+ * Create a recurring series and expand it into individual PENDING_ADMIN shift requests.
+ * Occurrences are generated in the participant's state time zone and capped at
+ * MAX_SERIES_OCCURRENCES; a rule needs either `until` or `count`.
+ */
+export const createShiftSeries = async (payload: CreateShiftSeriesInput, role?: string) => {
+  const {
+    participantId,
+    requestedBy,
+    service,
+    start,
+    end,
+    notes,
+    preferredTrainerIds = [],
+    recurrence,
+    allowConflicts = false,
+  } = payload;
+
+  if (!participantId || !requestedBy || !service || !start || !end || !recurrence) {
+    throw new AppError("participantId, service, start, end and recurrence are required", 400);
+  }
+
+  const startDt = new Date(start);
+  const endDt = new Date(end);
+  validateRequestWindow(startDt, endDt);
+
+  const frequency = String(recurrence.frequency || "").toUpperCase() as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) {
+    throw new AppError(`recurrence.frequency must be one of ${FREQUENCIES.join(", ")}`, 400);
+  }
+
+  const weekdays = Array.from(new Set((recurrence.weekdays || []).map(Number)));
+  if (weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new AppError("recurrence.weekdays must contain numbers 0 (Sun) to 6 (Sat)", 400);
+  }
+
+  const until = recurrence.until ? new Date(recurrence.until) : null;
+  const count = recurrence.count != null ? Number(recurrence.count) : null;
+  if (!until && !count) {
+    throw new AppError("recurrence requires an until date or a count", 400);
+  }
+  if (until && (isNaN(until.getTime()) || until < startDt)) {
+    throw new AppError("recurrence.until must be on or after the first start", 400);
+  }
+  if (count != null && (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES)) {
+    throw new AppError(`recurrence.count must be between 1 and ${MAX_SERIES_OCCURRENCES}`, 400);
+  }
+
+  await ensureParticipantOwnership(participantId, requestedBy, role);
+
+  const state = await resolveParticipantState(participantId);
+  const timeZone = STATE_TIMEZONES[state];
+  const durationMinutes = Math.round((endDt.getTime() - startDt.getTime()) / 60000);
+
+  const windows = expandRecurrence({
+    firstStart: startDt,
+    durationMinutes,
+    timeZone,
+    rule: { frequency, weekdays, until, count },
+  });
+  if (!windows.length) {
+    throw new AppError("The recurrence rule does not produce any occurrences", 400);
+  }
+
+  // Participant overlaps, checked per occurrence
+  const conflictsByIndex: ShiftConflict[][] = [];
+  for (const w of windows) {
+    conflictsByIndex.push(await findParticipantConflicts(participantId, w.start, w.end));
+  }
+  const conflicts = conflictsByIndex.flat();
+  if (conflicts.length && !(role === "ADMIN" && allowConflicts)) {
+    throw new ConflictError("This participant already has shift requests overlapping the series", {
+      conflicts,
+    });
+  }
+
+  const trainerIds = (preferredTrainerIds || [])
+    .filter(Boolean)
+    .map((id) => new mongoose.Types.ObjectId(id));
+
+  const series = await ShiftRequestSeries.create({
+    participantId: new mongoose.Types.ObjectId(participantId),
+    requestedBy: new mongoose.Types.ObjectId(requestedBy),
+    service,
+    notes,
+    preferredTrainerIds: trainerIds,
+    recurrence: { frequency, weekdays, until, count },
+    firstStart: windows[0].start,
+    durationMinutes,
+    timeZone,
+    status: "ACTIVE",
+    occurrenceCount: windows.length,
+  });
+
+  const occurrences = await ShiftRequest.insertMany(
+    windows.map((w, i) => ({
+      participantId: series.participantId,
+      requestedBy: series.requestedBy,
+      service,
+      start: w.start,
+      end: w.end,
+      notes,
+      preferredTrainerIds: trainerIds,
+      status: "PENDING_ADMIN",
+      history: [
+        {
+          from: null,
+          to: "PENDING_ADMIN",
+          at: new Date(),
+          by: series.requestedBy,
+          byRole: role === "ADMIN" ? "ADMIN" : "PARTICIPANT",
+          note: `Series occurrence ${i + 1}/${windows.length}`,
+        },
+      ],
+      seriesId: series._id,
+      occurrenceIndex: i,
+      conflictOverrides: conflictsByIndex[i].length
+        ? [
+            {
+              kind: "PARTICIPANT",
+              by: series.requestedBy,
+              at: new Date(),
+              conflictingRequestIds: conflictsByIndex[i].map(
+                (c) => new mongoose.Types.ObjectId(c.requestId)
+              ),
+            },
+          ]
+        : [],
+    }))
+  );
+
+  return { series, occurrences };
+};
+
+/**
+ * Series with all of its occurrences (participant: own; admin: any)
+ */
+export const getShiftSeries = async (seriesId: string, actor: Actor) => {
+  const series = await loadSeries(seriesId);
+  assertSeriesAccess(series, actor);
+
+  const occurrences = await ShiftRequest.find({ seriesId: series._id })
+    .sort({ occurrenceIndex: 1 })
+    .lean();
+
+  return { series, occurrences };
+};
+
+/**
+ * Admin: approve every upcoming PENDING_ADMIN occurrence and offer it to one trainer
+ * (the trainer then accepts or declines each occurrence).
+ * Occurrences that cannot be approved (e.g. trainer double-booked) are reported in `skipped`
+ * rather than failing the batch.
+ * Trainer and participant get one summary email instead of one per occurrence.
+ */
+export const approveShiftSeries = async ({
+  seriesId,
+  trainerId,
+  adminUserId,
+  allowConflicts = false,
+}: {
+  seriesId: string;
+  trainerId: string;
+  adminUserId: string;
+  allowConflicts?: boolean;
+}) => {
+  const series = await loadSeries(seriesId);
+  if (series.status !== "ACTIVE") throw new AppError("This series has been cancelled", 409);
+
+  const pending = await ShiftRequest.find({
+    seriesId: series._id,
+    status: "PENDING_ADMIN",
+    start: { $gt: new Date() },
+  }).sort({ occurrenceIndex: 1 });
+
+  if (!pending.length) throw new AppError("No pending occurrences to approve", 409);
+
+  const approved: any[] = [];
+  const skipped: Array<{ requestId: string; start: Date; reason: string; conflicts?: ShiftConflict[] }> = [];
+
+  for (const occ of pending) {
+    try {
+      approved.push(
+        await approveAndAssign({
+          requestId: String(occ._id),
+          trainerId,
+          adminUserId,
+          notify: false,
+          allowConflicts,
+        })
+      );
+    } catch (err: any) {
+      // Trainer-level problems apply to every occurrence: surface them instead of skipping all
+      if (!approved.length && !skipped.length && err instanceof AppError && err.statusCode !== 409) {
+        throw err;
+      }
+      skipped.push({
+        requestId: String(occ._id),
+        start: occ.start,
+        reason: err?.message || "Failed",
+        conflicts: err?.errors?.conflicts,
+      });
+    }
+  }
+
+  if (approved.length) {
+    try {
+      const [trainer, participant] = await Promise.all([
+        Trainer.findById(trainerId)
+          .select("fullName userId")
+          .populate({ path: "userId", select: "email", model: "User" })
+          .lean(),
+        Participant.findOne({ userId: series.participantId }).select("fullName email").lean(),
+      ]);
+      const trainerEmail = (trainer as any)?.userId?.email;
+      const list = occurrenceListHtml(approved);
+
+      if (trainerEmail) {
+        await sendEmail(
+          trainerEmail,
+          "New Recurring Shift Offers 📅",
+          `
+            <p>Hello ${escapeHtml(trainer?.fullName || "Trainer")},</p>
+            <p>You’ve been <b>offered</b> ${approved.length} recurring shift(s) with <b>${escapeHtml(participant?.fullName || "a participant")}</b>.</p>
+            <p><b>Service:</b> ${escapeHtml(series.service)}</p>
+            ${list}
+            <p>Please <b>accept or decline</b> them from your CareLink dashboard within ${ENV.OFFER_EXPIRY_HOURS} hours, after which the offers expire.</p>
+            <p>Best regards,<br/>CareLink Team</p>
+          `
+        );
+      }
+
+      if (participant?.email) {
+        await sendEmail(
+          participant.email,
+          "Your Recurring Shifts Have Been Approved ✅",
+          `
+            <p>Hello ${escapeHtml(participant.fullName || "Participant")},</p>
+            <p>${approved.length} shift(s) in your recurring request have been <b>approved</b> and offered to trainer <b>${escapeHtml(
+              trainer?.fullName || "your trainer"
+            )}</b>. We’ll confirm each shift once they accept.</p>
+            <p><b>Service:</b> ${escapeHtml(series.service)}</p>
+            ${list}
+            <p>Best regards,<br/>CareLink Team</p>
+          `
+        );
+      }
+    } catch (err) {
+      console.error("❌ Failed to send series approval emails:", err);
+    }
+  }
+
+  return { series, approved, skipped };
+};
+
+export type UpdateSeriesOccurrenceInput = {
+  seriesId: string;
+  requestId: string;
+  scope?: string;
+  actor: Actor;
+  changes: {
+    start?: string | Date;
+    end?: string | Date;
+    service?: string;
+    notes?: string;
+  };
+  allowConflicts?: boolean; // admin only
+};
+
+/**
+ * Edit one occurrence or this-and-following.
+ * New times go through the participant-overlap check and, for occurrences an admin moves while
+ * assigned, the trainer double-booking check (admins may override with allowConflicts).
+ * For FOLLOWING, the start-time shift and the new duration of the target are applied to every
+ * later editable occurrence (so "move to 10am" moves them all by the same amount).
+ * Time changes made by a participant to an OFFERED/APPROVED occurrence send it back to PENDING_ADMIN.
+ */
+export const updateSeriesOccurrence = async ({
+  seriesId,
+  requestId,
+  scope: rawScope,
+  actor,
+  changes,
+  allowConflicts = false,
+}: UpdateSeriesOccurrenceInput) => {
+  const scope = parseScope(rawScope);
+  const series = await loadSeries(seriesId);
+  assertSeriesAccess(series, actor);
+
+  const target = await loadOccurrence(String(series._id), requestId);
+  if (!EDITABLE_STATUSES.includes(target.status) || target.linkedShiftId) {
+    throw new AppError(`Only ${EDITABLE_STATUSES.join("/")} occurrences that have not started can be edited`, 409);
+  }
+
+  const newStart = changes.start ? new Date(changes.start) : new Date(target.start);
+  const newEnd = changes.end ? new Date(changes.end) : new Date(target.end);
+  validateRequestWindow(newStart, newEnd);
+
+  const timeChanged = !!changes.start || !!changes.end;
+  const deltaMs = newStart.getTime() - new Date(target.start).getTime();
+  const durationMs = newEnd.getTime() - newStart.getTime();
+
+  const updated: any[] = [];
+  const skipped: Array<{ requestId: string; start: Date; reason: string }> = [];
+  const unassigned = new Map<string, any[]>(); // trainerId -> occurrences sent back to PENDING_ADMIN
+  const retimed = new Map<string, any[]>(); // trainerId -> assigned occurrences an admin moved
+
+  const inScope = await occurrencesInScope(String(series._id), target, scope);
+  const scopeIds = inScope.map((occ) => occ._id);
+
+  // New windows, then the same overlap checks as a new request / assignment (admins may override)
+  const windows = new Map<string, { start: Date; end: Date }>();
+  const overrides = new Map<string, Array<{ kind: "TRAINER" | "PARTICIPANT"; conflicts: ShiftConflict[] }>>();
+  const allConflicts: ShiftConflict[] = [];
+  for (const occ of inScope) {
+    if (!timeChanged || !EDITABLE_STATUSES.includes(occ.status) || occ.linkedShiftId) continue;
+
+    const start = new Date(new Date(occ.start).getTime() + deltaMs);
+    const end = new Date(start.getTime() + durationMs);
+    try {
+      validateRequestWindow(start, end);
+    } catch (err: any) {
+      skipped.push({ requestId: String(occ._id), start: occ.start, reason: err.message });
+      continue;
+    }
+    windows.set(String(occ._id), { start, end });
+
+    const found: Array<{ kind: "TRAINER" | "PARTICIPANT"; conflicts: ShiftConflict[] }> = [
+      {
+        kind: "PARTICIPANT",
+        conflicts: await findParticipantConflicts(occ.participantId, start, end, scopeIds),
+      },
+    ];
+    // Assigned occurrences keep their trainer only when an admin moves them
+    if (["OFFERED", "APPROVED"].includes(occ.status) && actor.role === "ADMIN" && occ.assignedTrainerId) {
+      found.push({
+        kind: "TRAINER",
+        conflicts: await findTrainerConflicts(occ.assignedTrainerId, start, end, scopeIds),
+      });
+    }
+    const withConflicts = found.filter((f) => f.conflicts.length);
+    if (withConflicts.length) {
+      overrides.set(String(occ._id), withConflicts);
+      allConflicts.push(...withConflicts.flatMap((f) => f.conflicts));
+    }
+  }
+  if (allConflicts.length && !(actor.role === "ADMIN" && allowConflicts)) {
+    throw new ConflictError("The new time overlaps other shift requests", {
+      conflicts: allConflicts,
+    });
+  }
+
+  for (const occ of inScope) {
+    if (!EDITABLE_STATUSES.includes(occ.status) || occ.linkedShiftId) {
+      skipped.push({ requestId: String(occ._id), start: occ.start, reason: `Status ${occ.status}` });
+      continue;
+    }
+
+    if (timeChanged) {
+      const window = windows.get(String(occ._id));
+      if (!window) continue; // invalid window, already in skipped
+      occ.start = window.start;
+      occ.end = window.end;
+
+      for (const { kind, conflicts } of overrides.get(String(occ._id)) || []) {
+        occ.conflictOverrides = [
+          ...(occ.conflictOverrides || []),
+          {
+            kind,
+            by: new mongoose.Types.ObjectId(actor.id),
+            at: new Date(),
+            conflictingRequestIds: conflicts.map((c) => new mongoose.Types.ObjectId(c.requestId)),
+          },
+        ];
+      }
+
+      if (["OFFERED", "APPROVED"].includes(occ.status) && actor.role === "ADMIN" && occ.assignedTrainerId) {
+        const key = String(occ.assignedTrainerId);
+        retimed.set(key, [...(retimed.get(key) || []), occ]);
+      }
+
+      if (["OFFERED", "APPROVED"].includes(occ.status) && actor.role !== "ADMIN") {
+        const key = String(occ.assignedTrainerId);
+        unassigned.set(key, [...(unassigned.get(key) || []), occ]);
+        recordTransition(occ, "PENDING_ADMIN", {
+          by: actor.id,
+          byRole: actor.role,
+          trainerId: occ.assignedTrainerId,
+          note: "Rescheduled by participant",
+        });
+        occ.assignedTrainerId = null;
+        occ.offer = null;
+      }
+    }
+    if (changes.service) occ.service = changes.service;
+    if (changes.notes !== undefined) occ.notes = changes.notes;
+
+    await occ.save();
+    updated.push(occ);
+  }
+
+  if (scope === "FOLLOWING" && updated.length) {
+    if (timeChanged) series.durationMinutes = Math.round(durationMs / 60000);
+    if (changes.service) series.service = changes.service;
+    if (changes.notes !== undefined) series.notes = changes.notes;
+    await series.save();
+  }
+
+  for (const [trainerId, docs] of unassigned) {
+    await notifyTrainerOfSeriesChange(
+      trainerId,
+      "Recurring Shifts Rescheduled 🔁",
+      "The participant has rescheduled the following shift(s). They have been <b>removed from your roster</b> until an admin re-approves them:",
+      docs
+    );
+  }
+  for (const [trainerId, docs] of retimed) {
+    await notifyTrainerOfSeriesChange(
+      trainerId,
+      "Shift Times Changed 🕒",
+      "An admin has changed the time of the following shift(s) on your roster. The new times are:",
+      docs
+    );
+  }
+
+  return { series, updated, skipped };
+};
+
+export type CancelSeriesOccurrenceInput = {
+  seriesId: string;
+  requestId: string;
+  scope?: string;
+  actor: Actor;
+  reason: string;
+  chargeFee?: boolean;
+};
+
+/**
+ * Cancel one occurrence or this-and-following.
+ * Each occurrence goes through cancelShiftRequest (same short-notice fee rules); occurrences
+ * that cannot be cancelled are skipped. The series is marked CANCELLED once nothing is left.
+ */
+export const cancelSeriesOccurrence = async ({
+  seriesId,
+  requestId,
+  scope: rawScope,
+  actor,
+  reason,
+  chargeFee,
+}: CancelSeriesOccurrenceInput) => {
+  const scope = parseScope(rawScope);
+  const series = await loadSeries(seriesId);
+  assertSeriesAccess(series, actor);
+
+  const target = await loadOccurrence(String(series._id), requestId);
+  if (!EDITABLE_STATUSES.includes(target.status)) {
+    throw new AppError(`Only ${EDITABLE_STATUSES.join("/")} occurrences can be cancelled`, 409);
+  }
+
+  const cancelled: any[] = [];
+  const skipped: Array<{ requestId: string; start: Date; reason: string }> = [];
+  const byTrainer = new Map<string, any[]>();
+
+  for (const occ of await occurrencesInScope(String(series._id), target, scope)) {
+    if (!EDITABLE_STATUSES.includes(occ.status)) continue;
+
+    const trainerId =
+      ["OFFERED", "APPROVED"].includes(occ.status) && occ.assignedTrainerId
+        ? String(occ.assignedTrainerId)
+        : null;
+    try {
+      const doc = await cancelShiftRequest({
+        requestId: String(occ._id),
+        actor,
+        reason,
+        chargeFee,
+        notify: false,
+      });
+      cancelled.push(doc);
+      if (trainerId) byTrainer.set(trainerId, [...(byTrainer.get(trainerId) || []), doc]);
+    } catch (err: any) {
+      // Validation problems (missing reason, wrong owner) apply to every occurrence
+      if (occ._id.equals(target._id)) throw err;
+      skipped.push({ requestId: String(occ._id), start: occ.start, reason: err?.message || "Failed" });
+    }
+  }
+
+  const remaining = await ShiftRequest.countDocuments({
+    seriesId: series._id,
+    status: { $in: [...EDITABLE_STATUSES, "IN_PROGRESS"] },
+  });
+  if (!remaining && series.status !== "CANCELLED") {
+    series.status = "CANCELLED";
+    await series.save();
+  }
+
+  for (const [trainerId, docs] of byTrainer) {
+    const feeNote = docs.some((d) => d.cancellation?.feeApplied)
+      ? "<p>Short-notice cancellations have been added to your timesheet.</p>"
+      : "";
+    await notifyTrainerOfSeriesChange(
+      trainerId,
+      "Recurring Shifts Cancelled ❌",
+      "The following shift(s) have been <b>cancelled</b>.",
+      docs,
+      `<p><b>Reason:</b> ${escapeHtml(String(reason).trim())}</p>${feeNote}`
+    );
+  }
+
+  if (actor.role === "ADMIN" && cancelled.length) {
+    try {
+      const participant = await Participant.findOne({ userId: series.participantId })
+        .select("fullName email")
+        .lean();
+      if (participant?.email) {
+        await sendEmail(
+          participant.email,
+          "Your Recurring Shifts Have Been Cancelled",
+          `
+            <p>Hello ${escapeHtml(participant.fullName || "Participant")},</p>
+            <p>The following shift(s) have been <b>cancelled</b> by our team.</p>
+            <p><b>Reason:</b> ${escapeHtml(String(reason).trim())}</p>
+            ${occurrenceListHtml(cancelled)}
+            <p>Best regards,<br/>CareLink Team</p>
+          `
+        );
+      }
+    } catch (err) {
+      console.error("❌ Failed to send series cancellation email:", err);
+    }
+  }
+
+  return { series, cancelled, skipped };
+};
+
+const notifyTrainerOfSeriesChange = async (
+  trainerId: string,
+  subject: string,
+  intro: string,
+  docs: Array<{ start: Date; end: Date }>,
+  footer = ""
+) => {
+  try {
+    const trainer = await Trainer.findById(trainerId)
+      .select("fullName userId")
+      .populate({ path: "userId", select: "email", model: "User" })
+      .lean();
+    const email = (trainer as any)?.userId?.email;
+    if (!email) return;
+
+    await sendEmail(
+      email,
+      subject,
+      `
+        <p>Hello ${escapeHtml(trainer?.fullName || "Trainer")},</p>
+        <p>${intro}</p>
+        ${occurrenceListHtml(docs)}
+        ${footer}
+        <p>Best regards,<br/>CareLink Team</p>
+      `
+    );
+  } catch (err) {
+    console.error("❌ Failed to send series update email:", err);
+  }
+};
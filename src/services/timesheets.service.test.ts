@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { ConflictError, ForbiddenError } from "../utils/errors";
+import { TIMESHEET_TRANSITIONS, transitionTimesheet } from "./timesheets.service";
+
+const id = () => String(new mongoose.Types.ObjectId());
+
+describe("TIMESHEET_TRANSITIONS", () => {
+  it("only pays APPROVED timesheets", () => {
+    assert.deepEqual(TIMESHEET_TRANSITIONS.MARK_PAID.from, ["APPROVED"]);
+    assert.equal(TIMESHEET_TRANSITIONS.MARK_PAID.to, "PAID");
+  });
+
+  it("never moves a timesheet out of PAID", () => {
+    for (const rule of Object.values(TIMESHEET_TRANSITIONS)) {
+      assert.ok(!rule.from.includes("PAID"));
+    }
+  });
+
+  it("lets trainers submit but not approve, reopen or pay", () => {
+    const trainerActions = Object.entries(TIMESHEET_TRANSITIONS)
+      .filter(([, rule]) => rule.roles.includes("TRAINER"))
+      .map(([action]) => action);
+    assert.deepEqual(trainerActions, ["SUBMIT"]);
+  });
+
+  it("only lets the system reopen", () => {
+    const systemActions = Object.entries(TIMESHEET_TRANSITIONS)
+      .filter(([, rule]) => rule.roles.includes("SYSTEM"))
+      .map(([action]) => action);
+    assert.deepEqual(systemActions, ["REOPEN"]);
+  });
+
+  it("sends reopened timesheets back through submit / approve", () => {
+    assert.deepEqual(TIMESHEET_TRANSITIONS.REOPEN.from, ["SUBMITTED", "APPROVED"]);
+    assert.ok(TIMESHEET_TRANSITIONS.SUBMIT.from.includes("REOPENED"));
+    assert.ok(TIMESHEET_TRANSITIONS.APPROVE.from.includes("REOPENED"));
+  });
+});
+
+describe("transitionTimesheet", () => {
+  // These checks run before the timesheet is loaded, so no database is needed
+
+  it("refuses an action the role may not take", async () => {
+    await assert.rejects(
+      transitionTimesheet({ id: id(), action: "APPROVE", actor: { id: id(), role: "TRAINER" } }),
+      ForbiddenError
+    );
+    await assert.rejects(
+      transitionTimesheet({ id: id(), action: "SUBMIT", actor: { id: id(), role: "PARTICIPANT" } }),
+      ForbiddenError
+    );
+  });
+
+  it("refuses MARK_PAID outside a pay run", async () => {
+    await assert.rejects(
+      transitionTimesheet({ id: id(), action: "MARK_PAID", actor: { id: id(), role: "ADMIN" } }),
+      ConflictError
+    );
+  });
+
+  it("refuses an invalid timesheet id", async () => {
+    await assert.rejects(
+      transitionTimesheet({ id: "nope", action: "SUBMIT", actor: { id: id(), role: "ADMIN" } }),
+      /Invalid timesheet id/
+    );
+  });
+});
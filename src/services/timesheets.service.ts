@@ -1,7 +1,7 @@
 // services/timesheets.service.ts
 import mongoose from "mongoose";
-import { Timesheet } from "../models/timesheet.model";
-import { AppError, NotFoundError } from "../utils/errors";
+import { Timesheet, TimesheetAuditAction, TimesheetStatus } from "../models/timesheet.model";
+import { AppError, ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
 import { Trainer } from "../models/trainer.model";
 import { Participant } from "../models/participant.model"; // ✅ add this
 import { createPdfBuffer } from "../utils/pdf";
@@ -10,8 +10,132 @@ import { createCsvBuffer, TimesheetCsvPayload } from "../utils/csv";
 
 const isObjectId = (id: string) => mongoose.isValidObjectId(id);
 
+type Role = "PARTICIPANT" | "TRAINER" | "ADMIN";
+type Viewer = { id: string; role: Role };
+/** Transitions can also be driven by the system (e.g. new lines landing on an approved week) */
+type TransitionActor = Viewer | { id?: undefined; role: "SYSTEM" };
+
+/**
+ * Timesheet state machine — the only place allowed transitions are defined.
+ *   DRAFT → SUBMITTED → APPROVED → PAID (PAID only through a pay run)
+ *   SUBMITTED/APPROVED → REOPENED (admin sends back, or SYSTEM when lines change) → SUBMITTED (or APPROVED by admin)
+ * Trainers may only act on their own timesheets; participants have no access.
+ */
+export type TimesheetAction = "SUBMIT" | "APPROVE" | "REOPEN" | "MARK_PAID";
+
+export const TIMESHEET_TRANSITIONS: Record<
+  TimesheetAction,
+  { from: TimesheetStatus[]; to: TimesheetStatus; roles: TransitionActor["role"][] }
+> = {
+  SUBMIT: { from: ["DRAFT", "REOPENED"], to: "SUBMITTED", roles: ["TRAINER", "ADMIN"] },
+  APPROVE: { from: ["SUBMITTED", "REOPENED"], to: "APPROVED", roles: ["ADMIN"] },
+  REOPEN: { from: ["SUBMITTED", "APPROVED"], to: "REOPENED", roles: ["ADMIN", "SYSTEM"] },
+  MARK_PAID: { from: ["APPROVED"], to: "PAID", roles: ["ADMIN"] },
+};
+
+export type TimesheetAuditActor = {
+  by?: any; // userId (omit for SYSTEM)
+  byRole: "PARTICIPANT" | "TRAINER" | "ADMIN" | "SYSTEM";
+};
+
+/** Plain-object snapshot for audit before/after (subdocs → objects) */
+export const auditSnapshot = (v: any) => JSON.parse(JSON.stringify(v ?? null));
+
+/**
+ * Append an entry to the timesheet's audit trail (caller saves the document).
+ */
+export const recordTimesheetAudit = (
+  ts: any,
+  action: TimesheetAuditAction,
+  actor: TimesheetAuditActor,
+  { before, after, reason }: { before?: any; after?: any; reason?: string } = {}
+) => {
+  ts.history = [
+    ...(ts.history || []),
+    {
+      action,
+      at: new Date(),
+      by: actor.by ? new mongoose.Types.ObjectId(String(actor.by)) : null,
+      byRole: actor.byRole,
+      reason,
+      before: auditSnapshot(before),
+      after: auditSnapshot(after),
+    },
+  ];
+};
+
+/** Trainer._id for a trainer user (null for other roles) */
+const trainerIdForViewer = async (viewer: Viewer) => {
+  if (viewer.role !== "TRAINER") return null;
+  const trainer = await Trainer.findOne({ userId: viewer.id }).select("_id").lean();
+  if (!trainer) throw new NotFoundError("Trainer");
+  return String(trainer._id);
+};
+
+/** Admin: any timesheet. Trainer: own only. Participant: none. */
+const assertCanAccess = async (viewer: Viewer, ts: any) => {
+  if (viewer.role === "ADMIN") return;
+  if (viewer.role !== "TRAINER") throw new ForbiddenError("You do not have access to timesheets");
+
+  const ownerId = String(ts.trainerId?._id ?? ts.trainerId);
+  if ((await trainerIdForViewer(viewer)) !== ownerId) {
+    throw new ForbiddenError("You can only access your own timesheets");
+  }
+};
+
+/**
+ * Apply a state machine action: role check → ownership check → allowed-from check → save.
+ */
+export const transitionTimesheet = async ({
+  id,
+  action,
+  actor,
+  reason,
+  payRunId,
+}: {
+  id: string;
+  action: TimesheetAction;
+  actor: TransitionActor;
+  reason?: string;
+  payRunId?: any; // required for MARK_PAID: the pay run paying it, stored in the same write
+}) => {
+  if (!isObjectId(id)) throw new AppError("Invalid timesheet id", 400);
+  const rule = TIMESHEET_TRANSITIONS[action];
+
+  if (!rule.roles.includes(actor.role)) {
+    const roles = rule.roles.filter((r) => r !== "SYSTEM").join("/");
+    throw new ForbiddenError(`Only ${roles} can ${action.toLowerCase().replace("_", " ")} a timesheet`);
+  }
+
+  // PAID is only ever set by finalising a pay run (payRun.service)
+  if (action === "MARK_PAID" && !payRunId) {
+    throw new ConflictError("Timesheets are marked PAID by finalising a pay run");
+  }
+
+  const ts = await Timesheet.findById(id);
+  if (!ts) throw new NotFoundError("Timesheet");
+  if (actor.role !== "SYSTEM") await assertCanAccess(actor, ts);
+
+  if (!rule.from.includes(ts.status)) {
+    throw new ConflictError(
+      `Cannot ${action.toLowerCase().replace("_", " ")} a ${ts.status} timesheet (allowed from ${rule.from.join("/")})`
+    );
+  }
+
+  const before = { status: ts.status };
+  ts.status = rule.to;
+  if (action === "MARK_PAID") ts.payRunId = payRunId;
+  recordTimesheetAudit(ts, action, { by: actor.id, byRole: actor.role }, {
+    before,
+    after: { status: ts.status },
+    reason: reason ? String(reason).trim() : undefined,
+  });
+  await ts.save();
+  return ts;
+};
+
 type ListArgs = {
-  viewer: { id: string; role: "TRAINER" | "ADMIN" };
+  viewer: Viewer;
   status?: string;
   weekStart?: string;
   trainerId?: string; // may be Trainer._id OR User._id (admin only)
@@ -27,6 +151,10 @@ export const listTimesheets = async ({
   page,
   pageSize,
 }: ListArgs) => {
+  if (viewer.role !== "TRAINER" && viewer.role !== "ADMIN") {
+    throw new ForbiddenError("You do not have access to timesheets");
+  }
+
   const q: any = {};
   if (status) q.status = status;
   if (weekStart) q.weekStart = new Date(weekStart);
@@ -139,59 +267,54 @@ export const listTimesheets = async ({
   return { data, pagination: { page, pageSize, total } };
 };
 
-export const getTimesheetById = async ({ id, viewer }: any) => {
+export const getTimesheetById = async ({ id, viewer }: { id: string; viewer: Viewer }) => {
   if (!isObjectId(id)) throw new AppError("Invalid timesheet id", 400);
   const ts = await Timesheet.findById(id)
+    .select("-history")
     .populate("trainerId", "id userId")
     .lean();
   if (!ts) throw new NotFoundError("Timesheet");
-  // if (!canView(viewer, ts)) throw new AppError("Forbidden", 403);
+  await assertCanAccess(viewer, ts);
   return ts;
 };
 
-export const submitTimesheet = async ({ id, trainerUserId }: any) => {
-  if (!isObjectId(id)) throw new AppError("Invalid id", 400);
-  const ts = await Timesheet.findById(id).populate("trainerId", "userId");
+/**
+ * Audit trail for one timesheet (trainer own / admin any), newest first
+ */
+export const getTimesheetHistory = async ({ id, viewer }: { id: string; viewer: Viewer }) => {
+  if (!isObjectId(id)) throw new AppError("Invalid timesheet id", 400);
+  const ts = await Timesheet.findById(id)
+    .select("trainerId status history")
+    .populate("history.by", "email role")
+    .lean();
   if (!ts) throw new NotFoundError("Timesheet");
-  // if (!canSubmit(trainerUserId, ts)) throw new AppError("Forbidden", 403);
-  // if (ts.status !== "DRAFT")
-  //   throw new AppError("Only DRAFT can be submitted", 409);
-  ts.status = "SUBMITTED";
-  await ts.save();
+  await assertCanAccess(viewer, ts);
+
+  return {
+    timesheetId: String(ts._id),
+    status: ts.status,
+    history: [...(ts.history ?? [])].reverse(),
+  };
+};
+
+export const submitTimesheet = async ({ id, actor }: { id: string; actor: Viewer }) => {
+  const ts = await transitionTimesheet({ id, action: "SUBMIT", actor });
   return ts.toObject();
 };
 
-export const approveTimesheet = async ({ id, adminUserId }: any) => {
-  if (!isObjectId(id)) throw new AppError("Invalid id", 400);
-  // (optional) verify adminUserId belongs to an Admin model
-  const ts = await Timesheet.findById(id);
-  if (!ts) throw new NotFoundError("Timesheet");
-  if (!["SUBMITTED", "REOPENED"].includes(ts.status))
-    throw new AppError("Only SUBMITTED/REOPENED can be approved", 409);
-  ts.status = "APPROVED";
-  await ts.save();
+export const approveTimesheet = async ({ id, actor }: { id: string; actor: Viewer }) => {
+  const ts = await transitionTimesheet({ id, action: "APPROVE", actor });
   return ts.toObject();
 };
 
-export const reopenTimesheet = async ({ id, adminUserId, reason }: any) => {
-  if (!isObjectId(id)) throw new AppError("Invalid id", 400);
-  const ts = await Timesheet.findById(id);
-  if (!ts) throw new NotFoundError("Timesheet");
-  if (!["SUBMITTED", "APPROVED"].includes(ts.status))
-    throw new AppError("Only SUBMITTED/APPROVED can be reopened", 409);
-  ts.status = "REOPENED";
-  // (optional) push an audit note
-  (ts as any).audit = [
-    ...((ts as any).audit ?? []),
-    { by: adminUserId, at: new Date(), reason },
-  ];
-  await ts.save();
+export const reopenTimesheet = async ({ id, actor, reason }: { id: string; actor: Viewer; reason?: string }) => {
+  const ts = await transitionTimesheet({ id, action: "REOPEN", actor, reason });
   return ts.toObject();
 };
 
 type ExportArgs = {
   id: string;
-  viewer: { id: string; role: "TRAINER" | "ADMIN" };
+  viewer: Viewer;
   format: "csv" | "pdf";
 };
 
@@ -1,27 +1,25 @@
 import { User } from "../models/user.model";
 import { Trainer } from "../models/trainer.model";
 import { NotFoundError } from "../utils/errors";
-import fs from "fs";
-import path from "path";
+import { saveUpload } from "../utils/storage";
 import { sendEmail } from "../utils/email";
 import { PipelineStage } from "mongoose";
+import { generateSignedAgreement } from "./agreement.service";
+import { applyCurrentTemplate } from "./agreementTemplate.service";
+import { assertMandatoryDocumentsVerified } from "./compliance.service";
+import { sendSetPasswordInvite } from "./auth.service";
+import { revokeAllSessions } from "./session.service";
+import { AgreementAcceptInput } from "../validators/agreementTemplate.validators";
 
 // helper to save signature PNG
-const saveSignature = (userId: string, dataUrl: string) => {
+const saveSignature = async (userId: string, dataUrl: string) => {
   const base64Data = dataUrl.replace(/^data:image\/png;base64,/, "");
   const buffer = Buffer.from(base64Data, "base64");
 
   const fileName = `${userId}-trainer-signature-${Date.now()}.png`;
-  const dirPath = path.join(__dirname, "../../uploads/signatures");
-  if (!fs.existsSync(dirPath)) {
-    fs.mkdirSync(dirPath, { recursive: true });
-  }
-  const filePath = path.join(dirPath, fileName);
-
-  fs.writeFileSync(filePath, buffer);
 
-  // return relative path for client
-  return `/uploads/signatures/${fileName}`;
+  // returns the stored path (/uploads/signatures/...) kept on the profile
+  return saveUpload("signatures", fileName, buffer, "image/png");
 };
 
 // Create / update trainer profile
@@ -68,10 +66,11 @@ export const upsertTrainerProfile = async (
   }
 
   // ✅ Handle agreement + signature if provided
-  // ✅ Handle agreement + signature if provided
+  const agreementSubmitted = !!data.agreement;
   if (data.agreement) {
+    await applyCurrentTemplate("TRAINER", data.agreement);
     if (data.agreement.signature?.dataUrl) {
-      const url = saveSignature(
+      const url = await saveSignature(
         trainer.userId.toString(),
         data.agreement.signature.dataUrl
       );
@@ -94,6 +93,11 @@ export const upsertTrainerProfile = async (
   trainer.onboardingStep = (trainer.onboardingStep || 0) + 1;
   await trainer.save();
 
+  // agreement step: store the signed PDF once everything is accepted
+  if (agreementSubmitted) {
+    await generateSignedAgreement(trainer.userId.toString(), "TRAINER");
+  }
+
   const user = await User.findById(trainer.userId).select(
     "id email role status"
   );
@@ -101,6 +105,29 @@ export const upsertTrainerProfile = async (
   return { user, trainer };
 };
 
+// Re-accept the current agreement version (e.g. after the terms change)
+export const acceptTrainerAgreement = async (userId: string, data: AgreementAcceptInput) => {
+  const trainer = await Trainer.findOne({ userId });
+  if (!trainer) throw new NotFoundError("Trainer");
+
+  const agreement = await applyCurrentTemplate("TRAINER", { version: data.version });
+  const url = await saveSignature(userId, data.signature.dataUrl);
+
+  trainer.set("agreement", {
+    ...agreement,
+    tos: data.tos,
+    privacy: data.privacy,
+    consent: data.consent,
+    signature: { dataUrl: url, date: data.signature.date ?? new Date() },
+  });
+  await trainer.save();
+
+  await generateSignedAgreement(userId, "TRAINER");
+
+  const updated = await Trainer.findOne({ userId }).select("agreement").lean();
+  return updated?.agreement;
+};
+
 // Get trainer by userId (manual join with User)
 export const getTrainerByUserId = async (userId: string) => {
   const trainer = await Trainer.findOne({ userId }).populate(
@@ -115,6 +142,24 @@ export const getTrainerByUserId = async (userId: string) => {
   return trainer;
 };
 
+// Trainer: set the bank account pay runs are paid into
+export const updateBankDetails = async (
+  userId: string,
+  details: { accountName: string; bsb: string; accountNumber: string }
+) => {
+  const trainer = await Trainer.findOneAndUpdate(
+    { userId },
+    { $set: { bankDetails: details } },
+    { new: true }
+  ).select("bankDetails");
+
+  if (!trainer) {
+    throw new NotFoundError("Trainer");
+  }
+
+  return trainer;
+};
+
 type QueryParams = {
   page?: number;
   limit?: number;
@@ -158,6 +203,8 @@ export const getAllTrainers = async (params: QueryParams) => {
       },
     },
     { $unwind: { path: "$trainer", preserveNullAndEmptyArrays: true } },
+    // $lookup ignores select: false, so drop bank details explicitly
+    { $unset: "trainer.bankDetails" },
     {
       $project: {
         _id: 1,
@@ -209,10 +256,25 @@ export const updateTrainerStatus = async (id: string, status: "PENDING" | "ACTIV
     throw new NotFoundError("User");
   }
 
+  // Activation needs every mandatory document checked by an admin
+  if (status === "ACTIVE" && user.status !== "ACTIVE") {
+    const trainer = await Trainer.findOne({ userId: user._id }).select("fullName documents").lean();
+    if (!trainer) throw new NotFoundError("Trainer");
+    assertMandatoryDocumentsVerified(trainer);
+  }
+
   // update status
   user.status = status;
   await user.save();
 
+  // A blocked or deleted account is signed out everywhere straight away
+  if (status === "BLOCKED" || status === "DELETED") {
+    await revokeAllSessions(
+      String(user._id),
+      status === "BLOCKED" ? "ACCOUNT_BLOCKED" : "ACCOUNT_DELETED"
+    );
+  }
+
   // ✅ Email content mapping
   const subjects: Record<string, string> = {
     ACTIVE: "Your Trainer Account Has Been Activated 🎉",
@@ -250,20 +312,10 @@ export const updateTrainerStatus = async (id: string, status: "PENDING" | "ACTIV
 
   // ✅ Special case: ACTIVE but no password → send create-login link
   if (status === "ACTIVE" && !user.password) {
-    const createLoginUrl = `${process.env.FRONTEND_URL}/auth/register/trainer/create-login?email=${encodeURIComponent(
-      user.email
-    )}`;
-
-    await sendEmail(
-      user.email,
+    await sendSetPasswordInvite(
+      user,
       "Activate Your CareLink Account 🎉",
-      `
-        <p>Hello,</p>
-        <p>Your trainer account has been <b>activated</b>, but you still need to create your login.</p>
-        <p><a href="${createLoginUrl}" style="padding:10px 16px; background:#1976d2; color:#fff; text-decoration:none; border-radius:6px;">Create Login</a></p>
-        <p>If you did not request this, please ignore this email.</p>
-        <p>Best regards,<br/>CareLink Team</p>
-      `
+      "<p>Your trainer account has been <b>activated</b>, but you still need to create your login.</p>"
     );
     return user;
   }
@@ -0,0 +1,261 @@
+// services/trainerMatching.service.ts
+import mongoose from "mongoose";
+import { AppError, NotFoundError } from "../utils/errors";
+import { ShiftRequest } from "../models/shiftRequest.model";
+import { Shift } from "../models/shift.model";
+import { Trainer } from "../models/trainer.model";
+import { Participant } from "../models/participant.model";
+import { STATE_TIMEZONES, getZonedParts } from "../utils/timezone";
+import { endOfWeekUTC, startOfWeekUTC } from "../utils/time-money";
+import { resolveParticipantState } from "./pricing.service";
+import { TRAINER_BUSY_STATUSES } from "./shiftRequest.service";
+import { evaluateTrainerCompliance } from "./compliance.service";
+
+/**
+ * Points per signal. A trainer with an overlapping booking is still listed (admins can
+ * override conflicts) but drops to the bottom via the CONFLICT penalty.
+ */
+const WEIGHTS = {
+  PREFERRED: 30,
+  AVAILABILITY_FULL: 25,
+  AVAILABILITY_PARTIAL: 10,
+  SPECIALISATION: 15,
+  TRAVEL_AREA: 15,
+  CONTINUITY_PER_SHIFT: 3,
+  CONTINUITY_MAX: 15,
+  WORKLOAD_MAX: 10,
+  WORKLOAD_PER_BOOKING: 2,
+  CONFLICT: -100,
+};
+
+type ScorePart = { points: number; detail: string };
+
+export type TrainerCandidate = {
+  trainerId: string;
+  userId: string;
+  fullName?: string;
+  email?: string;
+  score: number;
+  breakdown: {
+    preferred: ScorePart;
+    availability: ScorePart;
+    specialisation: ScorePart;
+    travelArea: ScorePart;
+    continuity: ScorePart;
+    workload: ScorePart;
+    conflicts: ScorePart;
+  };
+  conflictingRequestIds: string[];
+};
+
+const DAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const normalise = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/** "HH:mm" (or "9am"/"12pm") → minutes since midnight */
+const parseClock = (raw: string): number | null => {
+  const m = String(raw).trim().toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = Number(m[2] || 0);
+  if (m[3] === "pm" && h < 12) h += 12;
+  if (m[3] === "am" && h === 12) h = 0;
+  return h * 60 + min;
+};
+
+/** Accepts { start, end } objects (onboarding) or "09:00-12:00" / "9am–12pm" strings */
+const parseSlot = (slot: any): { from: number; to: number } | null => {
+  const [a, b] =
+    typeof slot === "string" ? slot.split(/\s*[-–]\s*/) : [slot?.start, slot?.end];
+  if (!a || !b) return null;
+  const from = parseClock(a);
+  const to = parseClock(b);
+  if (from == null || to == null) return null;
+  return { from, to: to === 0 ? 24 * 60 : to };
+};
+
+const slotsForWeekday = (availability: Record<string, any> | undefined, weekday: number) => {
+  if (!availability) return [];
+  const key = Object.keys(availability).find(
+    (k) => k.slice(0, 3).toLowerCase() === DAY_KEYS[weekday]
+  );
+  const raw = key ? availability[key] : [];
+  return (Array.isArray(raw) ? raw : []).map(parseSlot).filter(Boolean) as Array<{
+    from: number;
+    to: number;
+  }>;
+};
+
+const scoreAvailability = (
+  availability: Record<string, any> | undefined,
+  start: Date,
+  end: Date,
+  timeZone: string
+): ScorePart => {
+  const s = getZonedParts(start, timeZone);
+  const e = getZonedParts(end, timeZone);
+  const slots = slotsForWeekday(availability, s.weekday);
+  if (!slots.length) return { points: 0, detail: `No availability on ${DAY_KEYS[s.weekday]}` };
+
+  const from = s.hour * 60 + s.minute;
+  const to = e.dateKey === s.dateKey ? e.hour * 60 + e.minute : 24 * 60;
+
+  if (slots.some((sl) => sl.from <= from && sl.to >= to)) {
+    return { points: WEIGHTS.AVAILABILITY_FULL, detail: "Available for the whole shift" };
+  }
+  if (slots.some((sl) => sl.from < to && sl.to > from)) {
+    return { points: WEIGHTS.AVAILABILITY_PARTIAL, detail: "Available for part of the shift" };
+  }
+  return { points: 0, detail: "Not available at this time" };
+};
+
+const scoreSpecialisation = (specialisations: string[] = [], service: string): ScorePart => {
+  const svc = normalise(service);
+  const match = specialisations.find((sp) => {
+    const n = normalise(sp);
+    return n && (svc.includes(n) || n.includes(svc));
+  });
+  return match
+    ? { points: WEIGHTS.SPECIALISATION, detail: `Specialises in ${match}` }
+    : { points: 0, detail: "No matching specialisation" };
+};
+
+const scoreTravelArea = (travelAreas: string[] = [], address?: string): ScorePart => {
+  if (!address) return { points: 0, detail: "Participant address unknown" };
+  const addr = ` ${normalise(address)} `;
+  const match = travelAreas.find((area) => {
+    const n = normalise(area);
+    return n && addr.includes(` ${n} `);
+  });
+  return match
+    ? { points: WEIGHTS.TRAVEL_AREA, detail: `Travels to ${match}` }
+    : { points: 0, detail: "Participant is outside listed travel areas" };
+};
+
+/**
+ * Rank active, compliant trainers for a shift request.
+ * Signals: participant's preferred trainers, weekly availability vs the request window (in the
+ * participant's time zone), specialisations vs service, travel areas vs participant address,
+ * existing bookings (overlaps + weekly load) and completed shifts with the same participant.
+ */
+export const getTrainerCandidates = async (
+  requestId: string,
+  { limit = 10, excludeTrainerIds = [] }: { limit?: number; excludeTrainerIds?: any[] } = {}
+): Promise<TrainerCandidate[]> => {
+  if (!mongoose.isValidObjectId(requestId)) throw new AppError("Invalid requestId", 400);
+
+  const reqDoc: any = await ShiftRequest.findById(requestId).lean();
+  if (!reqDoc) throw new NotFoundError("ShiftRequest");
+
+  const start = new Date(reqDoc.start);
+  const end = new Date(reqDoc.end);
+
+  const [participant, state] = await Promise.all([
+    Participant.findOne({ userId: reqDoc.participantId }).select("address").lean(),
+    resolveParticipantState(reqDoc.participantId),
+  ]);
+  const timeZone = STATE_TIMEZONES[state];
+
+  // Active trainers = Trainer profile whose User is an ACTIVE trainer
+  const trainers = await Trainer.find({
+    ...(excludeTrainerIds.length ? { _id: { $nin: excludeTrainerIds } } : {}),
+  })
+    .select("userId fullName availability travelAreas specialisations documents")
+    .populate({
+      path: "userId",
+      select: "email role status",
+      match: { role: "TRAINER", status: "ACTIVE" },
+      model: "User",
+    })
+    .lean();
+  // Trainers with lapsed mandatory checks on the shift date can't be assigned, so aren't candidates
+  const active = trainers.filter(
+    (t: any) => t.userId && !evaluateTrainerCompliance(t, start).lapsed.length
+  );
+  if (!active.length) return [];
+
+  const trainerIds = active.map((t) => t._id);
+  const weekStart = startOfWeekUTC(start);
+
+  const [overlaps, weekBookings, history] = await Promise.all([
+    ShiftRequest.find({
+      _id: { $ne: reqDoc._id },
+      assignedTrainerId: { $in: trainerIds },
+      status: { $in: TRAINER_BUSY_STATUSES },
+      start: { $lt: end },
+      end: { $gt: start },
+    })
+      .select("_id assignedTrainerId")
+      .lean(),
+    ShiftRequest.aggregate([
+      {
+        $match: {
+          assignedTrainerId: { $in: trainerIds },
+          status: { $in: TRAINER_BUSY_STATUSES },
+          start: { $gte: weekStart, $lte: endOfWeekUTC(weekStart) },
+        },
+      },
+      { $group: { _id: "$assignedTrainerId", count: { $sum: 1 } } },
+    ]),
+    Shift.aggregate([
+      {
+        $match: {
+          trainerId: { $in: trainerIds },
+          participantId: reqDoc.participantId,
+          status: "COMPLETED",
+        },
+      },
+      { $group: { _id: "$trainerId", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const preferred = new Set((reqDoc.preferredTrainerIds || []).map(String));
+  const weekCount = new Map<string, number>(weekBookings.map((b: any) => [String(b._id), b.count]));
+  const pastCount = new Map<string, number>(history.map((h: any) => [String(h._id), h.count]));
+  const conflictsBy = new Map<string, string[]>();
+  for (const o of overlaps as any[]) {
+    const key = String(o.assignedTrainerId);
+    conflictsBy.set(key, [...(conflictsBy.get(key) || []), String(o._id)]);
+  }
+
+  const candidates = active.map((t: any): TrainerCandidate => {
+    const id = String(t._id);
+    const conflictIds = conflictsBy.get(id) || [];
+    const booked = weekCount.get(id) || 0;
+    const past = pastCount.get(id) || 0;
+
+    const breakdown: TrainerCandidate["breakdown"] = {
+      preferred: preferred.has(id)
+        ? { points: WEIGHTS.PREFERRED, detail: "Preferred by participant" }
+        : { points: 0, detail: "Not on the participant's preferred list" },
+      availability: scoreAvailability(t.availability, start, end, timeZone),
+      specialisation: scoreSpecialisation(t.specialisations, reqDoc.service),
+      travelArea: scoreTravelArea(t.travelAreas, participant?.address),
+      continuity: {
+        points: Math.min(past * WEIGHTS.CONTINUITY_PER_SHIFT, WEIGHTS.CONTINUITY_MAX),
+        detail: `${past} completed shift(s) with this participant`,
+      },
+      workload: {
+        points: Math.max(0, WEIGHTS.WORKLOAD_MAX - booked * WEIGHTS.WORKLOAD_PER_BOOKING),
+        detail: `${booked} booking(s) that week`,
+      },
+      conflicts: conflictIds.length
+        ? { points: WEIGHTS.CONFLICT, detail: `${conflictIds.length} overlapping booking(s)` }
+        : { points: 0, detail: "Free during this shift" },
+    };
+
+    return {
+      trainerId: id,
+      userId: String(t.userId._id),
+      fullName: t.fullName,
+      email: t.userId.email,
+      score: Object.values(breakdown).reduce((sum, part) => sum + part.points, 0),
+      breakdown,
+      conflictingRequestIds: conflictIds,
+    };
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score || (a.fullName || "").localeCompare(b.fullName || ""))
+    .slice(0, Math.max(1, limit));
+};
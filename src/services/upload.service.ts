@@ -0,0 +1,119 @@
+// services/upload.service.ts
+import { AppError, ValidationError } from "../utils/errors";
+import { detectFileType } from "../utils/file-type";
+import { malwareScanner } from "../utils/malware-scan";
+import { deleteUpload, saveUpload } from "../utils/storage";
+import { uploadFileName } from "../middleware/upload";
+import { notifyAdmins } from "./notification.service";
+import { escapeHtml } from "../utils/email";
+
+export type IncomingUpload = {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+};
+
+export type StoredUpload = {
+  field: string;
+  originalName: string;
+  mime: string;
+  filePath: string;
+};
+
+const QUARANTINE_FOLDER = "quarantine";
+
+/**
+ * Check, scan and store a batch of uploads all-or-nothing:
+ *  1. every file must be a PDF, JPEG or PNG by content (the client's mimetype is ignored)
+ *  2. every file goes through the malware scanner; infected files are moved to quarantine/
+ *     (no owner, so only admins can fetch them) and admins are alerted
+ *  3. only when the whole batch is clean is it written to `folder`; a failed write removes
+ *     whatever was already stored
+ * Nothing from a rejected batch is left in `folder`.
+ */
+export const storeScannedUploads = async (
+  folder: string,
+  files: IncomingUpload[],
+  ctx: { userId?: string | null } = {}
+): Promise<StoredUpload[]> => {
+  const checked = files.map((file) => ({ file, type: detectFileType(file.buffer) }));
+
+  const invalid = checked.filter(({ type }) => !type);
+  if (invalid.length) {
+    throw new ValidationError(
+      invalid.map(({ file }) => ({
+        field: file.fieldname,
+        message: "Only JPG, PNG and PDF files are allowed",
+      })),
+      `Invalid file type for ${invalid.map(({ file }) => file.fieldname).join(", ")}. Only JPG, PNG, PDF allowed.`
+    );
+  }
+
+  const infected: { file: IncomingUpload; signature: string; quarantinedAs: string | null }[] = [];
+  for (const { file, type } of checked) {
+    const result = await malwareScanner().scan(file.buffer);
+    if (result.clean) continue;
+
+    let quarantinedAs: string | null = null;
+    try {
+      quarantinedAs = await saveUpload(
+        QUARANTINE_FOLDER,
+        uploadFileName(file, type!.ext),
+        file.buffer,
+        "application/octet-stream"
+      );
+    } catch (err) {
+      console.error("❌ Failed to quarantine infected upload:", err);
+    }
+    infected.push({ file, signature: result.signature || "unknown", quarantinedAs });
+  }
+
+  if (infected.length) {
+    console.warn(
+      `⚠️ Infected upload(s) from user ${ctx.userId ?? "unknown"}: ` +
+        infected.map((i) => `${i.file.fieldname} (${i.signature})`).join(", ")
+    );
+    await notifyAdmins(
+      "Infected upload quarantined",
+      `
+        <p>Hello Admin,</p>
+        <p>The following file(s) uploaded by user <b>${ctx.userId ?? "unknown"}</b> were flagged by the malware scanner and have not been attached:</p>
+        <ul>
+          ${infected
+            .map(
+              (i) =>
+                `<li><b>${escapeHtml(i.file.fieldname)}</b> (${escapeHtml(i.file.originalname)}): ${escapeHtml(
+                  i.signature
+                )}${i.quarantinedAs ? ` — quarantined as ${escapeHtml(i.quarantinedAs)}` : ""}</li>`
+            )
+            .join("")}
+        </ul>
+        <br/>
+        <p>Best regards,<br/>CareLink Team</p>
+      `
+    );
+    throw new AppError(
+      "One or more files failed the malware scan and were rejected",
+      422,
+      infected.map((i) => ({ field: i.file.fieldname, message: "File failed the malware scan" }))
+    );
+  }
+
+  const stored: StoredUpload[] = [];
+  try {
+    for (const { file, type } of checked) {
+      stored.push({
+        field: file.fieldname,
+        originalName: file.originalname,
+        mime: type!.mime,
+        filePath: await saveUpload(folder, uploadFileName(file, type!.ext), file.buffer, type!.mime),
+      });
+    }
+  } catch (err) {
+    await Promise.allSettled(stored.map((s) => deleteUpload(s.filePath)));
+    throw err;
+  }
+  return stored;
+};
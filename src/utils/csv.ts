@@ -172,3 +172,22 @@ export const createCsvBuffer = (data: TimesheetCsvPayload, opts: CsvOptions = {}
   const withBomPrefix = withBOM ? "\uFEFF" : "";
   return Buffer.from(withBomPrefix + csvString, "utf8");
 };
+
+/**
+ * Plain table CSV: one header row + data rows (reports, pay run summaries, imports).
+ */
+export const createTableCsvBuffer = (
+  columns: string[],
+  rows: Array<Array<string | number | null | undefined>>,
+  opts: Pick<CsvOptions, "delimiter" | "eol" | "withBOM"> = {}
+): Buffer => {
+  const delimiter = opts.delimiter ?? ",";
+  const eol = opts.eol ?? "\r\n";
+  const withBOM = opts.withBOM ?? true;
+
+  const lines = [columns, ...rows].map((row) =>
+    row.map((v) => csvEscape(v, delimiter)).join(delimiter)
+  );
+
+  return Buffer.from((withBOM ? "\uFEFF" : "") + lines.join(eol), "utf8");
+};
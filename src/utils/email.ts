@@ -10,12 +10,33 @@ const transporter = nodemailer.createTransport({
   },
 });
 
-export const sendEmail = async (to: string, subject: string, html: string) => {
+/** Escape user-supplied text before putting it in an email's HTML */
+export const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export type EmailAttachment = {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+};
+
+export const sendEmail = async (
+  to: string,
+  subject: string,
+  html: string,
+  attachments?: EmailAttachment[]
+) => {
   await transporter.sendMail({
     from: `"CareLink Support" <${process.env.SMTP_FROM || process.env.SMTP_USER}>`,
     to,
     subject,
     html,
+    ...(attachments?.length ? { attachments } : {}),
   });
   console.log("EMAIL ENT TO ", to)
 };
@@ -25,6 +25,12 @@ export class AuthError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden") {
+    super(message, 403);
+  }
+}
+
 export class NotFoundError extends AppError {
   constructor(resource = "Resource", message?: string) {
     super(message ?? `${resource} not found`, 404);
@@ -32,7 +38,7 @@ export class NotFoundError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message = "Conflict") {
-    super(message, 409);
+  constructor(message = "Conflict", errors?: any) {
+    super(message, 409, errors);
   }
 }
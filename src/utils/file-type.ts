@@ -0,0 +1,21 @@
+// utils/file-type.ts
+
+/**
+ * File types we accept as uploads, identified by their leading bytes rather than the
+ * client-reported mimetype or extension.
+ */
+const SIGNATURES: { mime: string; ext: string; magic: number[] }[] = [
+  { mime: "application/pdf", ext: ".pdf", magic: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // "%PDF-"
+  { mime: "image/jpeg", ext: ".jpg", magic: [0xff, 0xd8, 0xff] },
+  { mime: "image/png", ext: ".png", magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+];
+
+export type DetectedFileType = { mime: string; ext: string };
+
+/** Type of the file from its content (null when it is not a PDF, JPEG or PNG) */
+export const detectFileType = (buffer: Buffer): DetectedFileType | null => {
+  const match = SIGNATURES.find(
+    ({ magic }) => buffer.length >= magic.length && magic.every((byte, i) => buffer[i] === byte)
+  );
+  return match ? { mime: match.mime, ext: match.ext } : null;
+};
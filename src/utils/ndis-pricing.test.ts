@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mergeSegmentsByBand, rateForBand, splitIntoRateBands } from "./ndis-pricing";
+import { zonedTimeToUtc } from "./timezone";
+
+const TZ = "Australia/Sydney";
+const local = (y: number, m: number, d: number, h: number, min = 0) => zonedTimeToUtc(y, m, d, h, min, TZ);
+const bands = (segments: Array<{ band: string; minutes: number }>) =>
+  segments.map((s) => [s.band, s.minutes]);
+
+describe("splitIntoRateBands", () => {
+  it("keeps a weekday daytime shift in one segment", () => {
+    const segs = splitIntoRateBands(local(2025, 10, 7, 9), local(2025, 10, 7, 12), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [["DAYTIME", 180]]);
+  });
+
+  it("splits at 20:00 into EVENING", () => {
+    const segs = splitIntoRateBands(local(2025, 10, 7, 18), local(2025, 10, 7, 22), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [
+      ["DAYTIME", 120],
+      ["EVENING", 120],
+    ]);
+    assert.equal(+segs[1].start, +local(2025, 10, 7, 20));
+  });
+
+  it("splits an overnight weekday shift at midnight and 06:00", () => {
+    const segs = splitIntoRateBands(local(2025, 10, 7, 22), local(2025, 10, 8, 7), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [
+      ["EVENING", 120],
+      ["NIGHT", 360],
+      ["DAYTIME", 60],
+    ]);
+  });
+
+  it("moves to SATURDAY at midnight on Friday night", () => {
+    const segs = splitIntoRateBands(local(2025, 10, 10, 22), local(2025, 10, 11, 2), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [
+      ["EVENING", 120],
+      ["SATURDAY", 120],
+    ]);
+  });
+
+  it("merges weekend pieces across the 06:00 boundary", () => {
+    const segs = splitIntoRateBands(local(2025, 10, 11, 5), local(2025, 10, 11, 7), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [["SATURDAY", 120]]);
+  });
+
+  it("prices public holidays as one band for the local day", () => {
+    const segs = splitIntoRateBands(local(2025, 12, 24, 22), local(2025, 12, 25, 10), {
+      timeZone: TZ,
+      publicHolidays: new Set(["2025-12-25"]),
+    });
+    assert.deepEqual(bands(segs), [
+      ["EVENING", 120],
+      ["PUBLIC_HOLIDAY", 600],
+    ]);
+  });
+
+  it("counts real minutes when daylight saving starts mid-shift", () => {
+    // Sydney skips 02:00 → 03:00 on Sunday 5 Oct 2025: 22:00 → 06:00 local is 7 hours
+    const segs = splitIntoRateBands(local(2025, 10, 4, 22), local(2025, 10, 5, 6), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [
+      ["SATURDAY", 120],
+      ["SUNDAY", 300],
+    ]);
+  });
+
+  it("counts real minutes when daylight saving ends mid-shift", () => {
+    // Sydney repeats 02:00 → 03:00 on Sunday 5 Apr 2026: 22:00 → 06:00 local is 9 hours
+    const segs = splitIntoRateBands(local(2026, 4, 4, 22), local(2026, 4, 5, 6), { timeZone: TZ });
+    assert.deepEqual(bands(segs), [
+      ["SATURDAY", 120],
+      ["SUNDAY", 420],
+    ]);
+  });
+
+  it("uses the zone it is given", () => {
+    // 19:00–22:00 in Sydney (AEDT) is 18:00–21:00 in Brisbane (no daylight saving there)
+    const segs = splitIntoRateBands(local(2025, 10, 7, 19), local(2025, 10, 7, 22), {
+      timeZone: "Australia/Brisbane",
+    });
+    assert.deepEqual(bands(segs), [
+      ["DAYTIME", 120],
+      ["EVENING", 60],
+    ]);
+  });
+
+  it("returns nothing for an empty or inverted window", () => {
+    assert.deepEqual(splitIntoRateBands(local(2025, 10, 7, 9), local(2025, 10, 7, 9), { timeZone: TZ }), []);
+    assert.deepEqual(splitIntoRateBands(local(2025, 10, 7, 9), local(2025, 10, 7, 8), { timeZone: TZ }), []);
+  });
+});
+
+describe("mergeSegmentsByBand", () => {
+  it("collapses a band that appears either side of the day", () => {
+    // Mon 05:00 → Tue 02:00: NIGHT, DAYTIME, EVENING, NIGHT
+    const segs = splitIntoRateBands(local(2025, 10, 6, 5), local(2025, 10, 7, 2), { timeZone: TZ }).map((s) => ({
+      ...s,
+      hourlyRateCents: rateForBand(s.band, 6500, { NIGHT: 7500, EVENING: 7000 }),
+    }));
+    assert.deepEqual(bands(segs), [
+      ["NIGHT", 60],
+      ["DAYTIME", 840],
+      ["EVENING", 240],
+      ["NIGHT", 120],
+    ]);
+
+    const merged = mergeSegmentsByBand(segs);
+    assert.deepEqual(Array.from(merged.keys()), ["NIGHT", "DAYTIME", "EVENING"]);
+
+    const night = merged.get("NIGHT")!;
+    assert.equal(night.minutes, 180);
+    assert.equal(+night.start, +local(2025, 10, 6, 5));
+    assert.equal(+night.end, +local(2025, 10, 7, 2));
+    assert.equal(night.hourlyRateCents, 7500);
+    assert.equal(merged.get("DAYTIME")!.hourlyRateCents, 6500);
+  });
+
+  it("returns an empty map for no segments", () => {
+    assert.equal(mergeSegmentsByBand([]).size, 0);
+  });
+});
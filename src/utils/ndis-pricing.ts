@@ -0,0 +1,106 @@
+// utils/ndis-pricing.ts
+import { getZonedParts } from "./timezone";
+
+/**
+ * NDIS time-of-day / day-of-week price bands.
+ * Weekdays: DAYTIME 06:00–20:00, EVENING 20:00–24:00, NIGHT 00:00–06:00.
+ * Saturday, Sunday and public holidays are one band for the whole (local) day.
+ */
+export type RateBand = "DAYTIME" | "EVENING" | "NIGHT" | "SATURDAY" | "SUNDAY" | "PUBLIC_HOLIDAY";
+
+export const RATE_BANDS: RateBand[] = ["DAYTIME", "EVENING", "NIGHT", "SATURDAY", "SUNDAY", "PUBLIC_HOLIDAY"];
+
+export type BandRates = Partial<Record<Exclude<RateBand, "DAYTIME">, number>>;
+
+export type BillingSegment = {
+  band: RateBand;
+  start: Date;
+  end: Date;
+  minutes: number;
+};
+
+const DAYTIME_START_MIN = 6 * 60;
+const EVENING_START_MIN = 20 * 60;
+const DAY_END_MIN = 24 * 60;
+
+const bandAt = (
+  weekday: number,
+  minuteOfDay: number,
+  isPublicHoliday: boolean
+): RateBand => {
+  if (isPublicHoliday) return "PUBLIC_HOLIDAY";
+  if (weekday === 6) return "SATURDAY";
+  if (weekday === 0) return "SUNDAY";
+  if (minuteOfDay < DAYTIME_START_MIN) return "NIGHT";
+  if (minuteOfDay < EVENING_START_MIN) return "DAYTIME";
+  return "EVENING";
+};
+
+const nextBoundaryMin = (minuteOfDay: number) =>
+  [DAYTIME_START_MIN, EVENING_START_MIN, DAY_END_MIN].find((b) => b > minuteOfDay) ?? DAY_END_MIN;
+
+/**
+ * Split [start, end) into consecutive segments at every band boundary (local time in `timeZone`).
+ * Adjacent pieces that fall in the same band (e.g. Saturday 05:00 → 07:00) are merged.
+ */
+export const splitIntoRateBands = (
+  start: Date,
+  end: Date,
+  opts: { timeZone: string; publicHolidays?: Set<string> } // dateKeys YYYY-MM-DD
+): BillingSegment[] => {
+  const holidays = opts.publicHolidays ?? new Set<string>();
+  const segments: BillingSegment[] = [];
+
+  let cursor = new Date(start);
+  while (cursor < end) {
+    const p = getZonedParts(cursor, opts.timeZone);
+    const minuteOfDay = p.hour * 60 + p.minute + p.second / 60;
+    const band = bandAt(p.weekday, minuteOfDay, holidays.has(p.dateKey));
+
+    const msToBoundary = (nextBoundaryMin(minuteOfDay) - minuteOfDay) * 60000;
+    const segEnd = new Date(Math.min(end.getTime(), cursor.getTime() + Math.max(1000, msToBoundary)));
+
+    const last = segments[segments.length - 1];
+    if (last && last.band === band) {
+      last.end = segEnd;
+    } else {
+      segments.push({ band, start: cursor, end: segEnd, minutes: 0 });
+    }
+    cursor = segEnd;
+  }
+
+  for (const s of segments) {
+    s.minutes = Math.max(0, Math.round((+s.end - +s.start) / 60000));
+  }
+  return segments.filter((s) => s.minutes > 0);
+};
+
+/** Hourly rate for a band; bands without a configured loading fall back to the base rate */
+export const rateForBand = (band: RateBand, baseHourlyCents: number, bandRates?: BandRates | null) =>
+  band === "DAYTIME" ? baseHourlyCents : bandRates?.[band] ?? baseHourlyCents;
+
+/**
+ * Collapse priced segments to one entry per band (a band can appear twice in a shift,
+ * e.g. NIGHT either side of midnight). Keeps the earliest start, latest end and first rate.
+ */
+export const mergeSegmentsByBand = <T extends BillingSegment & { hourlyRateCents: number }>(
+  segments: T[]
+) => {
+  const byBand = new Map<RateBand, { minutes: number; start: Date; end: Date; hourlyRateCents: number }>();
+  for (const seg of segments) {
+    const row = byBand.get(seg.band);
+    if (row) {
+      row.minutes += seg.minutes;
+      if (seg.start < row.start) row.start = seg.start;
+      if (seg.end > row.end) row.end = seg.end;
+    } else {
+      byBand.set(seg.band, {
+        minutes: seg.minutes,
+        start: seg.start,
+        end: seg.end,
+        hourlyRateCents: seg.hourlyRateCents,
+      });
+    }
+  }
+  return byBand;
+};
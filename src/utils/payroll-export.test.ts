@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AbaConfig, PayrollEmployee, buildAbaFile } from "./payroll-export";
+
+const config = (overrides: Partial<AbaConfig> = {}): AbaConfig => ({
+  bankCode: "CBA",
+  userName: "CareLink Pty Ltd",
+  userId: "301500",
+  description: "PAYROLL",
+  traceBsb: "062-111",
+  traceAccount: "10203040",
+  remitterName: "CareLink",
+  reference: "PAY 2025-10-06",
+  processDate: new Date("2025-10-09T23:00:00Z"), // Fri 10 Oct in Sydney
+  timeZone: "Australia/Sydney",
+  selfBalancing: true,
+  ...overrides,
+});
+
+const employee = (overrides: Partial<PayrollEmployee> = {}): PayrollEmployee => ({
+  trainerId: "t1",
+  fullName: "Alex Smith",
+  totalCents: 123456,
+  lines: [],
+  bankDetails: { accountName: "Alex Smith", bsb: "062-000", accountNumber: "12345678" },
+  ...overrides,
+});
+
+const records = (buffer: Buffer | null) => {
+  assert.ok(buffer);
+  const text = buffer.toString("ascii");
+  assert.ok(text.endsWith("\r\n"));
+  return text.slice(0, -2).split("\r\n");
+};
+
+describe("buildAbaFile", () => {
+  it("writes 120-character records: header, credits, balancing debit, total", () => {
+    const result = buildAbaFile(
+      [employee(), employee({ trainerId: "t2", fullName: "Sam Lee", totalCents: 5000 })],
+      config()
+    );
+    assert.deepEqual(result.errors, []);
+
+    const lines = records(result.buffer);
+    assert.deepEqual(
+      lines.map((r) => r[0]),
+      ["0", "1", "1", "1", "7"]
+    );
+    for (const r of lines) assert.equal(r.length, 120);
+  });
+
+  it("writes the descriptive record fields in place", () => {
+    const [header] = records(buildAbaFile([employee()], config()).buffer);
+    assert.equal(header.slice(18, 20), "01");
+    assert.equal(header.slice(20, 23), "CBA");
+    assert.equal(header.slice(30, 56), "CARELINK PTY LTD".padEnd(26));
+    assert.equal(header.slice(56, 62), "301500");
+    assert.equal(header.slice(62, 74), "PAYROLL".padEnd(12));
+    assert.equal(header.slice(74, 80), "101025");
+  });
+
+  it("writes each credit to the trainer's account with transaction code 53", () => {
+    const [, credit] = records(buildAbaFile([employee()], config()).buffer);
+    assert.equal(credit.slice(1, 8), "062-000");
+    assert.equal(credit.slice(8, 17), " 12345678");
+    assert.equal(credit.slice(18, 20), "53");
+    assert.equal(credit.slice(20, 30), "0000123456");
+    assert.equal(credit.slice(30, 62), "ALEX SMITH".padEnd(32));
+    assert.equal(credit.slice(62, 80), "PAY 2025-10-06".padEnd(18));
+    assert.equal(credit.slice(80, 87), "062-111");
+    assert.equal(credit.slice(87, 96), " 10203040");
+    assert.equal(credit.slice(96, 112), "CARELINK".padEnd(16));
+    assert.equal(credit.slice(112, 120), "00000000");
+  });
+
+  it("strips hyphens and spaces from account numbers and normalises the BSB", () => {
+    const [, credit] = records(
+      buildAbaFile(
+        [employee({ bankDetails: { accountName: "Alex Smith", bsb: "062000", accountNumber: "1234-5 678" } })],
+        config({ traceAccount: "10-203-040" })
+      ).buffer
+    );
+    assert.equal(credit.slice(1, 8), "062-000");
+    assert.equal(credit.slice(8, 17), " 12345678");
+    assert.equal(credit.slice(87, 96), " 10203040");
+  });
+
+  it("balances the credits with one debit from the trace account", () => {
+    const lines = records(
+      buildAbaFile([employee(), employee({ trainerId: "t2", totalCents: 5000 })], config()).buffer
+    );
+    const debit = lines[3];
+    assert.equal(debit.slice(1, 8), "062-111");
+    assert.equal(debit.slice(8, 17), " 10203040");
+    assert.equal(debit.slice(18, 20), "13");
+    assert.equal(debit.slice(20, 30), "0000128456");
+
+    const total = lines[4];
+    assert.equal(total.slice(1, 8), "999-999");
+    assert.equal(total.slice(20, 30), "0000000000"); // net
+    assert.equal(total.slice(30, 40), "0000128456"); // credits
+    assert.equal(total.slice(40, 50), "0000128456"); // debits
+    assert.equal(total.slice(74, 80), "000003");
+  });
+
+  it("leaves out the debit when self-balancing is off", () => {
+    const lines = records(buildAbaFile([employee()], config({ selfBalancing: false })).buffer);
+    assert.equal(lines.length, 3);
+
+    const total = lines[2];
+    assert.equal(total.slice(20, 30), "0000123456");
+    assert.equal(total.slice(30, 40), "0000123456");
+    assert.equal(total.slice(40, 50), "0000000000");
+    assert.equal(total.slice(74, 80), "000001");
+  });
+
+  it("skips trainers with nothing to pay", () => {
+    const lines = records(buildAbaFile([employee(), employee({ trainerId: "t2", totalCents: 0 })], config()).buffer);
+    assert.equal(lines.filter((r) => r.slice(18, 20) === "53").length, 1);
+  });
+
+  it("reports every bad bank detail instead of writing a file", () => {
+    const result = buildAbaFile(
+      [
+        employee({ trainerId: "a", bankDetails: { accountName: "", bsb: "06200", accountNumber: "12345678" } }),
+        employee({ trainerId: "b", bankDetails: { accountName: "B", bsb: "062-000", accountNumber: "1234567890" } }),
+        employee({ trainerId: "c", bankDetails: { accountName: "C", bsb: "062-000", accountNumber: "---" } }),
+        employee({ trainerId: "d", bankDetails: null }),
+      ],
+      config()
+    );
+    assert.equal(result.buffer, null);
+    assert.deepEqual(
+      result.errors.map((e) => `${e.trainerId}:${e.field}`),
+      [
+        "a:bankDetails.accountName",
+        "a:bankDetails.bsb",
+        "b:bankDetails.accountNumber",
+        "c:bankDetails.accountNumber",
+        "d:bankDetails.accountName",
+        "d:bankDetails.bsb",
+        "d:bankDetails.accountNumber",
+      ]
+    );
+  });
+
+  it("reports missing APCA configuration", () => {
+    const result = buildAbaFile(
+      [employee()],
+      config({ bankCode: "", userId: "12", traceBsb: "", traceAccount: "", remitterName: " " })
+    );
+    assert.equal(result.buffer, null);
+    assert.deepEqual(
+      result.errors.map((e) => e.field),
+      ["ABA_BANK_CODE", "ABA_USER_ID", "ABA_TRACE_BSB", "ABA_TRACE_ACCOUNT", "ABA_REMITTER_NAME"]
+    );
+  });
+
+  it("refuses an empty pay run", () => {
+    const result = buildAbaFile([employee({ totalCents: 0 })], config());
+    assert.equal(result.buffer, null);
+    assert.deepEqual(result.errors, [{ field: "totalCents", message: "Nothing to pay" }]);
+  });
+});
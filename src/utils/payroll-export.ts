@@ -0,0 +1,304 @@
+// utils/payroll-export.ts
+import { createTableCsvBuffer } from "./csv";
+import { getZonedParts } from "./timezone";
+import { RateBand } from "./ndis-pricing";
+
+/**
+ * Payroll exports for a set of approved timesheets:
+ *  - Xero payroll timesheet import CSV (one row per employee / earnings rate / day)
+ *  - MYOB AccountRight-style timesheet CSV (same grouping, MYOB column names)
+ *  - ABA (Cemtex) direct-entry file paying each trainer's total into their bank account
+ *
+ * Builders never throw on bad data: they return every problem in `errors` so finance can fix
+ * all missing details in one go. `buffer` is null whenever errors were found.
+ */
+
+export type PayrollLine = {
+  date: Date;
+  kind?: "SHIFT" | "CANCELLATION_FEE";
+  rateBand?: RateBand;
+  hours: number;
+  km: number;
+};
+
+export type PayrollEmployee = {
+  trainerId: string;
+  fullName?: string;
+  email?: string;
+  bankDetails?: { accountName?: string; bsb?: string; accountNumber?: string } | null;
+  totalCents: number;
+  lines: PayrollLine[];
+};
+
+export type PayrollExportError = {
+  trainerId?: string;
+  trainerName?: string;
+  field: string;
+  message: string;
+};
+
+export type PayrollExportResult = {
+  errors: PayrollExportError[];
+  buffer: Buffer | null;
+};
+
+export type AbaConfig = {
+  bankCode: string;        // 3-letter financial institution mnemonic, e.g. "CBA"
+  userName: string;        // name of the user supplying the file (APCA registered)
+  userId: string;          // 6-digit APCA user identification number
+  description: string;     // e.g. "PAYROLL"
+  traceBsb: string;        // our account, for returned payments
+  traceAccount: string;
+  remitterName: string;    // shown on the trainer's statement
+  selfBalancing: boolean;  // add a debit from the trace account for the credit total
+  reference: string;       // lodgement reference on each credit
+  processDate: Date;
+  timeZone: string;        // processDate is written as the local DDMMYY
+};
+
+/** Earnings rate (Xero) / payroll category (MYOB) name per line type */
+export const PAY_ITEM_NAMES: Record<RateBand | "CANCELLATION_FEE" | "KM", string> = {
+  DAYTIME: "Ordinary Hours",
+  EVENING: "Evening Hours",
+  NIGHT: "Night Hours",
+  SATURDAY: "Saturday Hours",
+  SUNDAY: "Sunday Hours",
+  PUBLIC_HOLIDAY: "Public Holiday Hours",
+  CANCELLATION_FEE: "Cancellation Pay",
+  KM: "Kilometre Allowance",
+};
+
+const BSB_RE = /^\d{3}-?\d{3}$/;
+
+/** Up to 9 digits once spaces / hyphens are taken out (they are not written to the file) */
+const accountDigits = (v: string) => v.replace(/[\s-]/g, "");
+const isAccountNumber = (v?: string) => !!v && /^[\d -]+$/.test(v) && /^\d{1,9}$/.test(accountDigits(v));
+
+const splitName = (fullName = "") => {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  const last = parts.length > 1 ? parts.pop()! : "";
+  return { first: parts.join(" "), last };
+};
+
+/** DD/MM/YYYY in the payroll time zone */
+const payrollDate = (d: Date, timeZone: string) => {
+  const [y, m, day] = getZonedParts(d, timeZone).dateKey.split("-");
+  return `${day}/${m}/${y}`;
+};
+
+/**
+ * Sum hours / km per (employee, date, pay item). Returned rows are date-sorted.
+ */
+const groupPayItems = (employee: PayrollEmployee, timeZone: string) => {
+  const byKey = new Map<string, { dateKey: string; date: string; item: string; units: number }>();
+
+  const add = (d: Date, item: string, units: number) => {
+    if (!units) return;
+    const dateKey = getZonedParts(d, timeZone).dateKey;
+    const key = `${dateKey}|${item}`;
+    const row = byKey.get(key) ?? { dateKey, date: payrollDate(d, timeZone), item, units: 0 };
+    row.units += units;
+    byKey.set(key, row);
+  };
+
+  for (const line of employee.lines) {
+    const d = new Date(line.date);
+    const item =
+      line.kind === "CANCELLATION_FEE"
+        ? PAY_ITEM_NAMES.CANCELLATION_FEE
+        : PAY_ITEM_NAMES[line.rateBand ?? "DAYTIME"];
+    add(d, item, line.hours);
+    add(d, PAY_ITEM_NAMES.KM, line.km);
+  }
+
+  return Array.from(byKey.values()).sort(
+    (a, b) => a.dateKey.localeCompare(b.dateKey) || a.item.localeCompare(b.item)
+  );
+};
+
+const checkEmployeeName = (e: PayrollEmployee, errors: PayrollExportError[]) => {
+  const { first, last } = splitName(e.fullName);
+  if (!first || !last) {
+    errors.push({
+      trainerId: e.trainerId,
+      trainerName: e.fullName,
+      field: "fullName",
+      message: "First and last name are required",
+    });
+  }
+};
+
+export const buildXeroTimesheetCsv = (
+  employees: PayrollEmployee[],
+  { timeZone }: { timeZone: string }
+): PayrollExportResult => {
+  const errors: PayrollExportError[] = [];
+  const rows: Array<Array<string | number>> = [];
+
+  for (const e of employees) {
+    checkEmployeeName(e, errors);
+    if (!e.email) {
+      errors.push({
+        trainerId: e.trainerId,
+        trainerName: e.fullName,
+        field: "email",
+        message: "Email is required to match the Xero employee",
+      });
+    }
+
+    const { first, last } = splitName(e.fullName);
+    for (const r of groupPayItems(e, timeZone)) {
+      rows.push([first, last, e.email ?? "", r.item, r.date, r.units.toFixed(2)]);
+    }
+  }
+
+  if (errors.length) return { errors, buffer: null };
+  return {
+    errors,
+    buffer: createTableCsvBuffer(
+      ["FirstName", "LastName", "Email", "EarningsRateName", "Date", "Units"],
+      rows,
+      { withBOM: false }
+    ),
+  };
+};
+
+export const buildMyobTimesheetCsv = (
+  employees: PayrollEmployee[],
+  { timeZone }: { timeZone: string }
+): PayrollExportResult => {
+  const errors: PayrollExportError[] = [];
+  const rows: Array<Array<string | number>> = [];
+
+  for (const e of employees) {
+    checkEmployeeName(e, errors);
+
+    const { first, last } = splitName(e.fullName);
+    for (const r of groupPayItems(e, timeZone)) {
+      rows.push([last, first, r.item, r.date, r.units.toFixed(2), ""]);
+    }
+  }
+
+  if (errors.length) return { errors, buffer: null };
+  return {
+    errors,
+    buffer: createTableCsvBuffer(
+      ["Emp. Co./Last Name", "Emp. First Name", "Payroll Category", "Date", "Units", "Notes"],
+      rows,
+      { withBOM: false }
+    ),
+  };
+};
+
+// --- ABA fixed-width helpers (every record is exactly 120 characters) ---
+
+/** Strip characters the BECS character set does not allow */
+const abaText = (v: string) => v.replace(/[^A-Za-z0-9 &*.\/\-+(),'"]/g, " ").toUpperCase();
+const left = (v: string, len: number) => abaText(v).slice(0, len).padEnd(len, " ");
+const right = (v: string, len: number, pad = " ") => v.slice(-len).padStart(len, pad);
+const cents = (v: number, len = 10) => right(String(Math.round(v)), len, "0");
+const bsb = (v: string) => {
+  const digits = v.replace(/\D/g, "");
+  return `${digits.slice(0, 3)}-${digits.slice(3, 6)}`;
+};
+const account = (v: string) => right(accountDigits(v), 9);
+const ddmmyy = (d: Date, timeZone: string) => {
+  const [y, m, day] = getZonedParts(d, timeZone).dateKey.split("-");
+  return `${day}${m}${y.slice(2)}`;
+};
+
+const checkAbaConfig = (cfg: AbaConfig, errors: PayrollExportError[]) => {
+  const need = (ok: boolean, field: string, message: string) => {
+    if (!ok) errors.push({ field, message });
+  };
+  need(/^[A-Z]{3}$/i.test(cfg.bankCode), "ABA_BANK_CODE", "3-letter bank code is required");
+  need(!!cfg.userName.trim(), "ABA_USER_NAME", "APCA user name is required");
+  need(/^\d{6}$/.test(cfg.userId), "ABA_USER_ID", "6-digit APCA user id is required");
+  need(BSB_RE.test(cfg.traceBsb), "ABA_TRACE_BSB", "Trace BSB must be 6 digits");
+  need(isAccountNumber(cfg.traceAccount), "ABA_TRACE_ACCOUNT", "Trace account number must be up to 9 digits");
+  need(!!cfg.remitterName.trim(), "ABA_REMITTER_NAME", "Remitter name is required");
+};
+
+/**
+ * ABA direct-entry file: descriptive record (0), one credit (1, transaction code 53 "pay")
+ * per trainer, a balancing debit (1, code 13) from the trace account when `selfBalancing`,
+ * and the file total record (7). Amounts are the pay run totals as stored.
+ */
+export const buildAbaFile = (employees: PayrollEmployee[], cfg: AbaConfig): PayrollExportResult => {
+  const errors: PayrollExportError[] = [];
+  checkAbaConfig(cfg, errors);
+
+  const payable = employees.filter((e) => e.totalCents > 0);
+  if (!payable.length) errors.push({ field: "totalCents", message: "Nothing to pay" });
+
+  for (const e of payable) {
+    const bank = e.bankDetails || {};
+    const fail = (field: string, message: string) =>
+      errors.push({ trainerId: e.trainerId, trainerName: e.fullName, field, message });
+
+    if (!bank.accountName?.trim()) fail("bankDetails.accountName", "Account name is required");
+    if (!bank.bsb || !BSB_RE.test(bank.bsb)) fail("bankDetails.bsb", "BSB must be 6 digits");
+    if (!isAccountNumber(bank.accountNumber)) {
+      fail("bankDetails.accountNumber", "Account number must be up to 9 digits");
+    }
+    if (e.totalCents > 9999999999) fail("totalCents", "Amount is too large for an ABA record");
+  }
+
+  const fileTotal = payable.reduce((acc, e) => acc + e.totalCents, 0);
+  if (fileTotal > 9999999999) errors.push({ field: "totalCents", message: "Pay run is too large for one ABA file" });
+
+  if (errors.length) return { errors, buffer: null };
+
+  const records: string[] = [];
+
+  records.push(
+    "0" +
+      " ".repeat(17) +
+      "01" +
+      left(cfg.bankCode, 3) +
+      " ".repeat(7) +
+      left(cfg.userName, 26) +
+      right(cfg.userId, 6, "0") +
+      left(cfg.description, 12) +
+      ddmmyy(cfg.processDate, cfg.timeZone) +
+      " ".repeat(40)
+  );
+
+  const detail = (code: "13" | "53", amount: number, to: { bsb: string; account: string; name: string }) =>
+    "1" +
+    bsb(to.bsb) +
+    account(to.account) +
+    " " +
+    code +
+    cents(amount) +
+    left(to.name, 32) +
+    left(cfg.reference, 18) +
+    bsb(cfg.traceBsb) +
+    account(cfg.traceAccount) +
+    left(cfg.remitterName, 16) +
+    "0".repeat(8);
+
+  for (const e of payable) {
+    const bank = e.bankDetails!;
+    records.push(detail("53", e.totalCents, { bsb: bank.bsb!, account: bank.accountNumber!, name: bank.accountName! }));
+  }
+
+  const debitTotal = cfg.selfBalancing ? fileTotal : 0;
+  if (cfg.selfBalancing) {
+    records.push(detail("13", fileTotal, { bsb: cfg.traceBsb, account: cfg.traceAccount, name: cfg.remitterName }));
+  }
+
+  records.push(
+    "7" +
+      "999-999" +
+      " ".repeat(12) +
+      cents(Math.abs(fileTotal - debitTotal)) +
+      cents(fileTotal) +
+      cents(debitTotal) +
+      " ".repeat(24) +
+      right(String(records.length - 1), 6, "0") +
+      " ".repeat(40)
+  );
+
+  return { errors, buffer: Buffer.from(records.join("\r\n") + "\r\n", "ascii") };
+};
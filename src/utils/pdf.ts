@@ -352,3 +352,347 @@ export const createPdfBuffer = (data: any): Promise<Buffer> =>
 
     doc.end();
   });
+
+export type InvoicePdfPayload = {
+  title?: string; // "Tax Invoice" once issued, "Draft Invoice" before
+  invoiceNumber?: string | null;
+  status?: string;
+  issueDate?: string;
+  dueDate?: string;
+  period?: string;
+  provider?: { name?: string; abn?: string; email?: string };
+  billTo?: { name?: string; email?: string; label?: string };
+  participant?: { name?: string; ndisNumber?: string };
+  lines: Array<{
+    date?: string; // YYYY-MM-DD
+    description?: string;
+    supportItemNumber?: string;
+    quantity?: number;
+    unitPriceCents?: number;
+    gstCents?: number;
+    amountCents?: number;
+  }>;
+  totals: { subtotalCents: number; gstCents: number; totalCents: number };
+  notes?: string;
+};
+
+/**
+ * Participant invoice PDF (same layout language as the timesheet PDF:
+ * header + meta blocks, striped table, totals box, "Page X of Y" footer).
+ */
+export const createInvoicePdfBuffer = (data: InvoicePdfPayload): Promise<Buffer> =>
+  new Promise((resolve) => {
+    const fmtMoney = (cents?: number | null) =>
+      `$${((typeof cents === "number" ? cents : 0) / 100).toFixed(2)}`;
+
+    const PAGE = { width: 612, height: 792 };
+    const MARGIN = 40;
+    const CONTENT_W = PAGE.width - MARGIN * 2;
+    const BODY_FONT = 9;
+    const ROW_H = 20;
+    const HEADER_ROW_H = 22;
+    const ROW_FILL_LIGHT = "#F7F7F7";
+    const BORDER = "#CCCCCC";
+
+    // [Date, Description, Item, Qty, Unit, GST, Amount]
+    const COLS = [
+      { key: "date", label: "Date", width: 62, align: "left" as const },
+      { key: "description", label: "Description", width: 170, align: "left" as const },
+      { key: "item", label: "Support item", width: 92, align: "left" as const },
+      { key: "quantity", label: "Qty", width: 40, align: "right" as const },
+      { key: "unit", label: "Unit price", width: 60, align: "right" as const },
+      { key: "gst", label: "GST", width: 50, align: "right" as const },
+      { key: "amount", label: "Amount", width: 58, align: "right" as const },
+    ];
+
+    const doc = new PDFDocument({
+      margin: MARGIN,
+      size: [PAGE.width, PAGE.height],
+      bufferPages: true,
+      autoFirstPage: true,
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (c) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+
+    const drawKV = (x: number, y: number, width: number, pairs: Array<[string, any]>) => {
+      doc.fontSize(BODY_FONT).font("Helvetica");
+      let yy = y;
+      pairs.forEach(([k, v]) => {
+        if (!v) return;
+        doc.fillColor("#555555").text(`${k}:`, x, yy, { width: 80 });
+        doc.fillColor("#000000").text(String(v), x + 85, yy, { width: width - 85 });
+        yy += 13;
+      });
+      return yy;
+    };
+
+    // ---- Header ------------------------------------------------------------
+    const drawHeader = () => {
+      doc
+        .fontSize(16)
+        .font("Helvetica-Bold")
+        .fillColor("#000000")
+        .text(data.title || "Invoice", MARGIN, MARGIN);
+      doc.moveDown(0.5);
+
+      const colW = CONTENT_W / 2 - 6;
+      const yStart = doc.y + 4;
+      const leftEnd = drawKV(MARGIN, yStart, colW, [
+        ["Invoice #", data.invoiceNumber],
+        ["Status", data.status],
+        ["Issued", data.issueDate],
+        ["Due", data.dueDate],
+        ["Period", data.period],
+      ]);
+      const rightEnd = drawKV(MARGIN + colW + 12, yStart, colW, [
+        ["From", data.provider?.name],
+        ["ABN", data.provider?.abn],
+        ["Bill to", data.billTo?.name],
+        [data.billTo?.label || "Email", data.billTo?.email],
+        ["Participant", data.participant?.name],
+        ["NDIS number", data.participant?.ndisNumber],
+      ]);
+      const yEnd = Math.max(leftEnd, rightEnd);
+
+      doc
+        .moveTo(MARGIN, yEnd + 8)
+        .lineTo(PAGE.width - MARGIN, yEnd + 8)
+        .lineWidth(0.5)
+        .strokeColor(BORDER)
+        .stroke();
+      doc.y = yEnd + 16;
+    };
+
+    // ---- Table -------------------------------------------------------------
+    const drawTableHeader = () => {
+      const y = doc.y;
+      let x = MARGIN;
+      doc.rect(MARGIN, y, CONTENT_W, HEADER_ROW_H).fill("#EFEFEF").fillColor("#000000");
+      COLS.forEach((c) => {
+        doc
+          .font("Helvetica-Bold")
+          .fontSize(BODY_FONT)
+          .fillColor("#000000")
+          .text(c.label, x + 4, y + 6, { width: c.width - 8, align: c.align });
+        x += c.width;
+      });
+      doc.y = y + HEADER_ROW_H;
+    };
+
+    const drawRow = (rowIndex: number, line: InvoicePdfPayload["lines"][number]) => {
+      const startY = doc.y;
+      const values: Record<string, string> = {
+        date: line.date || "",
+        description: line.description || "",
+        item: line.supportItemNumber || "",
+        quantity: typeof line.quantity === "number" ? line.quantity.toFixed(2) : "",
+        unit: fmtMoney(line.unitPriceCents),
+        gst: fmtMoney(line.gstCents),
+        amount: fmtMoney(line.amountCents),
+      };
+
+      if (rowIndex % 2 === 1) {
+        doc.rect(MARGIN, startY, CONTENT_W, ROW_H).fill(ROW_FILL_LIGHT).fillColor("#000000");
+      }
+
+      let x = MARGIN;
+      COLS.forEach((c) => {
+        doc
+          .font("Helvetica")
+          .fontSize(BODY_FONT)
+          .fillColor("#111111")
+          .text(values[c.key], x + 4, startY + 5, {
+            width: c.width - 8,
+            align: c.align,
+            ellipsis: true,
+            lineBreak: false,
+          });
+        x += c.width;
+      });
+
+      doc
+        .moveTo(MARGIN, startY + ROW_H)
+        .lineTo(MARGIN + CONTENT_W, startY + ROW_H)
+        .lineWidth(0.3)
+        .strokeColor(BORDER)
+        .stroke();
+      doc.y = startY + ROW_H;
+    };
+
+    const ensureSpace = (needed: number) => {
+      if (doc.y + needed > PAGE.height - MARGIN - 40) {
+        doc.addPage();
+        drawHeader();
+        drawTableHeader();
+      }
+    };
+
+    // ---- Totals ------------------------------------------------------------
+    const drawTotals = () => {
+      ensureSpace(70);
+      const boxW = 200;
+      const x = PAGE.width - MARGIN - boxW;
+      let y = doc.y + 10;
+      const rows: Array<[string, string, boolean]> = [
+        ["Subtotal", fmtMoney(data.totals.subtotalCents), false],
+        ["GST", fmtMoney(data.totals.gstCents), false],
+        ["Total", fmtMoney(data.totals.totalCents), true],
+      ];
+      rows.forEach(([label, value, bold]) => {
+        doc
+          .font(bold ? "Helvetica-Bold" : "Helvetica")
+          .fontSize(bold ? 11 : BODY_FONT + 1)
+          .fillColor("#000000")
+          .text(label, x, y, { width: 100 })
+          .text(value, x + 100, y, { width: boxW - 100, align: "right" });
+        y += 16;
+      });
+      doc.y = y + 8;
+
+      if (data.notes) {
+        ensureSpace(40);
+        doc
+          .font("Helvetica")
+          .fontSize(BODY_FONT)
+          .fillColor("#333333")
+          .text(data.notes, MARGIN, doc.y, { width: CONTENT_W });
+      }
+    };
+
+    // ---- Compose -----------------------------------------------------------
+    drawHeader();
+    drawTableHeader();
+    (data.lines || []).forEach((line, idx) => {
+      ensureSpace(ROW_H);
+      drawRow(idx, line);
+    });
+    drawTotals();
+
+    const range = doc.bufferedPageRange();
+    for (let i = 0; i < range.count; i++) {
+      doc.switchToPage(range.start + i);
+      doc.page.margins.bottom = 0; // footer sits in the margin; don't let it open a new page
+      doc
+        .font("Helvetica")
+        .fontSize(9)
+        .fillColor("#666666")
+        .text(`Page ${i + 1} of ${range.count}`, MARGIN, PAGE.height - MARGIN + 10, {
+          width: CONTENT_W,
+          align: "center",
+          lineBreak: false,
+        });
+    }
+
+    doc.end();
+  });
+
+export type AgreementPdfPayload = {
+  title: string; // e.g. "Participant Service Agreement"
+  signer: { role: string; fullName?: string; email?: string; ndisNumber?: string };
+  version?: string;
+  effectiveDate?: string;
+  termsSha256?: string;           // hash of the agreement template wording that was signed
+  acknowledgements: Array<{ label: string; accepted: boolean }>;
+  signatureImage?: Buffer | null; // PNG
+  signedAt: string;               // ISO timestamp
+  contentHash: string;            // SHA-256 of the signed content (see agreement.service)
+  documentId?: string;
+};
+
+/**
+ * Signed agreement PDF: signer details, agreement version, acknowledgements, the signature
+ * image with its timestamp, and the content hash that makes the copy tamper-evident.
+ */
+export const createAgreementPdfBuffer = (data: AgreementPdfPayload): Promise<Buffer> =>
+  new Promise((resolve) => {
+    const PAGE = { width: 612, height: 792 };
+    const MARGIN = 50;
+    const CONTENT_W = PAGE.width - MARGIN * 2;
+    const BORDER = "#CCCCCC";
+
+    const doc = new PDFDocument({ margin: MARGIN, size: [PAGE.width, PAGE.height] });
+    const chunks: Buffer[] = [];
+    doc.on("data", (c) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+
+    const rule = () => {
+      doc
+        .moveTo(MARGIN, doc.y + 6)
+        .lineTo(PAGE.width - MARGIN, doc.y + 6)
+        .lineWidth(0.5)
+        .strokeColor(BORDER)
+        .stroke();
+      doc.y += 16;
+    };
+
+    const kv = (label: string, value?: string) => {
+      if (!value) return;
+      const y = doc.y;
+      doc.font("Helvetica").fontSize(10).fillColor("#555555").text(`${label}:`, MARGIN, y, { width: 120 });
+      doc.fillColor("#000000").text(value, MARGIN + 125, y, { width: CONTENT_W - 125 });
+      doc.moveDown(0.3);
+    };
+
+    // ---- Header ------------------------------------------------------------
+    doc.font("Helvetica-Bold").fontSize(18).fillColor("#000000").text(data.title, { align: "left" });
+    doc.moveDown(0.3);
+    doc.font("Helvetica").fontSize(10).fillColor("#333333").text("Signed copy generated by CareLink");
+    rule();
+
+    // ---- Signer + agreement ------------------------------------------------
+    kv(data.signer.role, data.signer.fullName);
+    kv("Email", data.signer.email);
+    kv("NDIS number", data.signer.ndisNumber);
+    kv("Agreement version", data.version);
+    kv("Effective date", data.effectiveDate);
+    kv("Terms (SHA-256)", data.termsSha256);
+    rule();
+
+    // ---- Acknowledgements --------------------------------------------------
+    doc.font("Helvetica-Bold").fontSize(12).fillColor("#000000").text("Acknowledgements");
+    doc.moveDown(0.4);
+    data.acknowledgements.forEach((a) => {
+      doc
+        .font("Helvetica")
+        .fontSize(10)
+        .fillColor(a.accepted ? "#000000" : "#AA0000")
+        .text(`${a.accepted ? "[x]" : "[ ]"}  ${a.label}`);
+      doc.moveDown(0.2);
+    });
+    rule();
+
+    // ---- Signature ---------------------------------------------------------
+    doc.font("Helvetica-Bold").fontSize(12).fillColor("#000000").text("Signature");
+    doc.moveDown(0.4);
+    if (data.signatureImage) {
+      const y = doc.y;
+      doc.image(data.signatureImage, MARGIN, y, { fit: [220, 90] });
+      doc.rect(MARGIN, y, 220, 90).lineWidth(0.5).strokeColor(BORDER).stroke();
+      doc.y = y + 98;
+    } else {
+      doc.font("Helvetica-Oblique").fontSize(10).fillColor("#AA0000").text("No signature image on file");
+    }
+    kv("Signed at", data.signedAt);
+    rule();
+
+    // ---- Integrity ---------------------------------------------------------
+    doc.font("Helvetica-Bold").fontSize(10).fillColor("#000000").text("Content hash (SHA-256)");
+    doc.font("Courier").fontSize(9).text(data.contentHash);
+    doc.moveDown(0.4);
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor("#666666")
+      .text(
+        "The hash covers the signer, agreement version and terms, effective date, acknowledgements, signature image and signing time. Any change to those produces a different hash.",
+        { width: CONTENT_W }
+      );
+    if (data.documentId) {
+      doc.moveDown(0.4);
+      doc.text(`Document ID: ${data.documentId}`);
+    }
+
+    doc.end();
+  });
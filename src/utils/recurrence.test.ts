@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandRecurrence, MAX_SERIES_OCCURRENCES } from "./recurrence";
+import { getZonedParts, zonedTimeToUtc } from "./timezone";
+
+const TZ = "Australia/Sydney";
+const local = (y: number, m: number, d: number, h: number, min = 0) => zonedTimeToUtc(y, m, d, h, min, TZ);
+const dateKeys = (windows: Array<{ start: Date }>) => windows.map((w) => getZonedParts(w.start, TZ).dateKey);
+
+describe("expandRecurrence", () => {
+  it("expands weekly weekdays from the first start", () => {
+    // Mon 6 Oct 2025, Mondays and Wednesdays
+    const out = expandRecurrence({
+      firstStart: local(2025, 10, 6, 9),
+      durationMinutes: 90,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [1, 3], count: 4 },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-10-06", "2025-10-08", "2025-10-13", "2025-10-15"]);
+    for (const w of out) assert.equal(+w.end - +w.start, 90 * 60000);
+  });
+
+  it("keeps the local start time across the start of daylight saving", () => {
+    // Fridays at 09:00 around Sun 5 Oct 2025 (AEST +10 → AEDT +11)
+    const out = expandRecurrence({
+      firstStart: local(2025, 9, 26, 9),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [5], count: 3 },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-09-26", "2025-10-03", "2025-10-10"]);
+    for (const w of out) {
+      const p = getZonedParts(w.start, TZ);
+      assert.equal(p.hour, 9);
+      assert.equal(p.minute, 0);
+    }
+    assert.equal(out[0].start.toISOString(), "2025-09-25T23:00:00.000Z");
+    assert.equal(out[2].start.toISOString(), "2025-10-09T22:00:00.000Z");
+  });
+
+  it("keeps the local start time across the end of daylight saving", () => {
+    // Sundays at 08:30 around Sun 5 Apr 2026 (AEDT +11 → AEST +10); the change day itself included
+    const out = expandRecurrence({
+      firstStart: local(2026, 3, 29, 8, 30),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [0], count: 2 },
+    });
+    assert.deepEqual(dateKeys(out), ["2026-03-29", "2026-04-05"]);
+    assert.equal(out[0].start.toISOString(), "2026-03-28T21:30:00.000Z");
+    assert.equal(out[1].start.toISOString(), "2026-04-04T22:30:00.000Z");
+  });
+
+  it("takes every other week for fortnightly rules, counted from the first week's Monday", () => {
+    // First start Wed 8 Oct 2025; Mon + Thu fortnightly → Thu 9th, then the week of 20 Oct
+    const out = expandRecurrence({
+      firstStart: local(2025, 10, 8, 10),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "FORTNIGHTLY", weekdays: [1, 4], count: 5 },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-10-09", "2025-10-20", "2025-10-23", "2025-11-03", "2025-11-06"]);
+  });
+
+  it("never returns occurrences before the first start", () => {
+    // Wed 8 Oct at 10:00; a Monday/Wednesday rule starts on that Wednesday
+    const firstStart = local(2025, 10, 8, 10);
+    const out = expandRecurrence({
+      firstStart,
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [1, 3], count: 2 },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-10-08", "2025-10-13"]);
+    assert.ok(out.every((w) => w.start >= firstStart));
+  });
+
+  it("treats until as an inclusive last start", () => {
+    const out = expandRecurrence({
+      firstStart: local(2025, 10, 6, 9),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [1], until: local(2025, 10, 20, 9) },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-10-06", "2025-10-13", "2025-10-20"]);
+  });
+
+  it("defaults to the first start's weekday when none are given", () => {
+    const out = expandRecurrence({
+      firstStart: local(2025, 10, 9, 14),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [], count: 2 },
+    });
+    assert.deepEqual(dateKeys(out), ["2025-10-09", "2025-10-16"]);
+  });
+
+  it("caps the series at the maximum number of occurrences", () => {
+    const out = expandRecurrence({
+      firstStart: local(2025, 10, 6, 9),
+      durationMinutes: 60,
+      timeZone: TZ,
+      rule: { frequency: "WEEKLY", weekdays: [1, 2, 3, 4, 5], count: 500 },
+    });
+    assert.equal(out.length, MAX_SERIES_OCCURRENCES);
+  });
+});
@@ -0,0 +1,72 @@
+// utils/recurrence.ts
+import { getZonedParts, zonedTimeToUtc } from "./timezone";
+
+export type RecurrenceFrequency = "WEEKLY" | "FORTNIGHTLY";
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  weekdays: number[];   // 0=Sun .. 6=Sat (local to timeZone)
+  until?: Date | null;  // last possible start (inclusive)
+  count?: number | null;
+};
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expand a recurrence rule into concrete windows.
+ * Occurrences keep the wall-clock start time of `firstStart` in `timeZone` (so 9am stays 9am
+ * across daylight saving) and start on or after `firstStart`. Fortnightly rules count weeks
+ * from the Monday of the first occurrence's week.
+ */
+export const expandRecurrence = ({
+  firstStart,
+  durationMinutes,
+  timeZone,
+  rule,
+  max = MAX_SERIES_OCCURRENCES,
+}: {
+  firstStart: Date;
+  durationMinutes: number;
+  timeZone: string;
+  rule: RecurrenceRule;
+  max?: number;
+}): Array<{ start: Date; end: Date }> => {
+  const first = getZonedParts(firstStart, timeZone);
+  const limit = Math.min(rule.count ?? max, max);
+  const weekdays = new Set(rule.weekdays.length ? rule.weekdays : [first.weekday]);
+
+  // Calendar arithmetic on a UTC-midnight date only (no zone maths needed for day stepping)
+  const day0 = Date.UTC(first.year, first.month - 1, first.day);
+  const mondayOffset = (first.weekday + 6) % 7; // days since Monday
+  const anchorMonday = day0 - mondayOffset * DAY_MS;
+
+  const out: Array<{ start: Date; end: Date }> = [];
+  // Hard stop at ~2 years of days so a bad rule can never loop forever
+  for (let i = 0; i < 731 && out.length < limit; i++) {
+    const cal = new Date(day0 + i * DAY_MS);
+    const weekday = cal.getUTCDay();
+    if (!weekdays.has(weekday)) continue;
+
+    if (rule.frequency === "FORTNIGHTLY") {
+      const weekIndex = Math.floor((cal.getTime() - anchorMonday) / (7 * DAY_MS));
+      if (weekIndex % 2 !== 0) continue;
+    }
+
+    const start = zonedTimeToUtc(
+      cal.getUTCFullYear(),
+      cal.getUTCMonth() + 1,
+      cal.getUTCDate(),
+      first.hour,
+      first.minute,
+      timeZone
+    );
+    if (start < firstStart) continue;
+    if (rule.until && start > rule.until) break;
+
+    out.push({ start, end: new Date(start.getTime() + durationMinutes * 60000) });
+  }
+
+  return out;
+};
@@ -0,0 +1,184 @@
+// utils/storage.ts
+import fs from "fs";
+import path from "path";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { ENV } from "../config/env";
+import { AppError } from "./errors";
+
+/**
+ * Upload storage.
+ * Files are always referenced by their stored path ("/uploads/documents/x.pdf"), which is what the
+ * database keeps; the driver maps it to a key ("documents/x.pdf") on local disk or in a bucket.
+ *  - local: UPLOAD_DIR (default <project>/uploads)
+ *  - s3:    S3_BUCKET on AWS or any S3-compatible endpoint (MinIO for local testing)
+ */
+export interface StorageDriver {
+  name: "local" | "s3";
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when the object does not exist
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+const STORED_PREFIX = "/uploads/";
+
+export const DEFAULT_UPLOAD_DIR = path.join(__dirname, "../../uploads");
+
+/** "/uploads/documents/x.pdf" → "documents/x.pdf"; rejects anything that could escape the root */
+export const storedPathToKey = (storedPath: string) => {
+  if (typeof storedPath !== "string" || !storedPath.startsWith(STORED_PREFIX)) {
+    throw new AppError("Invalid file path", 400);
+  }
+  const key = path.posix.normalize(storedPath.slice(STORED_PREFIX.length));
+  if (!key || key.startsWith("..") || key.startsWith("/") || key.includes("\0")) {
+    throw new AppError("Invalid file path", 400);
+  }
+  return key;
+};
+
+export const keyToStoredPath = (key: string) => `${STORED_PREFIX}${key}`;
+
+export const createLocalDriver = (root: string): StorageDriver => {
+  const resolve = (key: string) => {
+    const absolute = path.resolve(root, key);
+    if (!absolute.startsWith(path.resolve(root) + path.sep)) {
+      throw new AppError("Invalid file path", 400);
+    }
+    return absolute;
+  };
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const absolute = resolve(key);
+      await fs.promises.mkdir(path.dirname(absolute), { recursive: true });
+      await fs.promises.writeFile(absolute, body);
+    },
+    async get(key) {
+      try {
+        return await fs.promises.readFile(resolve(key));
+      } catch (err: any) {
+        if (err.code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async exists(key) {
+      return fs.existsSync(resolve(key));
+    },
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+export const createS3Driver = (cfg: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}): StorageDriver => {
+  if (!cfg.bucket) throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+
+  const client = new S3Client({
+    region: cfg.region,
+    ...(cfg.endpoint ? { endpoint: cfg.endpoint } : {}),
+    forcePathStyle: !!cfg.forcePathStyle,
+    // Without explicit keys the SDK's default chain (env, profile, instance role) is used
+    ...(cfg.accessKeyId && cfg.secretAccessKey
+      ? { credentials: { accessKeyId: cfg.accessKeyId, secretAccessKey: cfg.secretAccessKey } }
+      : {}),
+  });
+  const objectKey = (key: string) =>
+    cfg.prefix ? `${cfg.prefix.replace(/\/+$/, "")}/${key}` : key;
+  const isMissing = (err: any) =>
+    err?.name === "NoSuchKey" || err?.name === "NotFound" || err?.$metadata?.httpStatusCode === 404;
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: cfg.bucket,
+          Key: objectKey(key),
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+    async get(key) {
+      try {
+        const out = await client.send(
+          new GetObjectCommand({ Bucket: cfg.bucket, Key: objectKey(key) })
+        );
+        return out.Body ? Buffer.from(await out.Body.transformToByteArray()) : null;
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: cfg.bucket, Key: objectKey(key) }));
+        return true;
+      } catch (err) {
+        if (isMissing(err)) return false;
+        throw err;
+      }
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: cfg.bucket, Key: objectKey(key) }));
+    },
+  };
+};
+
+/** Driver selected by STORAGE_DRIVER */
+export const createStorageDriver = (
+  driver: "local" | "s3" = ENV.STORAGE_DRIVER as "local" | "s3"
+) =>
+  driver === "s3"
+    ? createS3Driver({
+        bucket: ENV.S3_BUCKET,
+        region: ENV.S3_REGION,
+        endpoint: ENV.S3_ENDPOINT || undefined,
+        accessKeyId: ENV.S3_ACCESS_KEY_ID,
+        secretAccessKey: ENV.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: ENV.S3_FORCE_PATH_STYLE,
+        prefix: ENV.S3_PREFIX,
+      })
+    : createLocalDriver(ENV.UPLOAD_DIR || DEFAULT_UPLOAD_DIR);
+
+let active: StorageDriver | null = null;
+export const storage = () => (active ??= createStorageDriver());
+
+/** Store a file under `folder` and return the path to keep in the database */
+export const saveUpload = async (
+  folder: string,
+  fileName: string,
+  body: Buffer,
+  contentType?: string
+) => {
+  const key = `${folder}/${path.basename(fileName)}`;
+  await storage().put(key, body, contentType);
+  return keyToStoredPath(key);
+};
+
+/** Contents of a stored file (null when missing or not an /uploads/ path) */
+export const readUpload = async (storedPath?: string | null) => {
+  if (!storedPath || !storedPath.startsWith(STORED_PREFIX)) return null;
+  return storage().get(storedPathToKey(storedPath));
+};
+
+/** Remove a stored file (no-op when it is already gone) */
+export const deleteUpload = async (storedPath?: string | null) => {
+  if (!storedPath || !storedPath.startsWith(STORED_PREFIX)) return;
+  await storage().delete(storedPathToKey(storedPath));
+};
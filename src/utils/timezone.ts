@@ -0,0 +1,94 @@
+// utils/timezone.ts
+export type AustralianState = "NSW" | "VIC" | "QLD" | "SA" | "WA" | "TAS" | "ACT" | "NT";
+
+export const AUSTRALIAN_STATES: AustralianState[] = ["NSW", "VIC", "QLD", "SA", "WA", "TAS", "ACT", "NT"];
+
+export const STATE_TIMEZONES: Record<AustralianState, string> = {
+  NSW: "Australia/Sydney",
+  VIC: "Australia/Melbourne",
+  QLD: "Australia/Brisbane",
+  SA: "Australia/Adelaide",
+  WA: "Australia/Perth",
+  TAS: "Australia/Hobart",
+  ACT: "Australia/Sydney",
+  NT: "Australia/Darwin",
+};
+
+export type ZonedParts = {
+  year: number;
+  month: number;    // 1-12
+  day: number;
+  hour: number;     // 0-23
+  minute: number;
+  second: number;
+  weekday: number;  // 0=Sun .. 6=Sat
+  dateKey: string;  // YYYY-MM-DD in the zone
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Intl formatters are expensive to build, keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const getFormatter = (timeZone: string) => {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+};
+
+/** Wall-clock parts of an instant in the given IANA zone */
+export const getZonedParts = (d: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const p of getFormatter(timeZone).formatToParts(d)) parts[p.type] = p.value;
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  return {
+    year,
+    month,
+    day,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+    dateKey: `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`,
+  };
+};
+
+/** Zone offset (ms) at an instant: local wall-clock minus UTC */
+const zoneOffsetMs = (d: Date, timeZone: string) => {
+  const p = getZonedParts(d, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(d.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock time in a zone to the UTC instant.
+ * Two passes so times near a DST change pick up the offset that applies on that side.
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  let ts = guess - zoneOffsetMs(new Date(guess), timeZone);
+  ts = guess - zoneOffsetMs(new Date(ts), timeZone);
+  return new Date(ts);
+};
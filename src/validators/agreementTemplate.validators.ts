@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+/**
+ * Create agreement template
+ */
+export const agreementTemplateCreateSchema = z.object({
+  audience: z.enum(["PARTICIPANT", "TRAINER"]),
+  version: z.string().trim().min(1, "version is required"),
+  title: z.string().trim().min(1, "title is required"),
+  body: z.string().min(1, "body is required"),
+  effectiveFrom: z.coerce.date(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Update agreement template (audience cannot change)
+ */
+export const agreementTemplateUpdateSchema = agreementTemplateCreateSchema
+  .omit({ audience: true })
+  .partial();
+
+/**
+ * Re-accept the current agreement: every acknowledgement plus a fresh signature
+ */
+export const agreementAcceptSchema = z.object({
+  version: z.string().trim().min(1, "version is required"),
+  tos: z.literal(true, { message: "Terms of Service must be accepted" }),
+  privacy: z.literal(true, { message: "Privacy Policy must be accepted" }),
+  consent: z.literal(true, { message: "Consent must be given" }),
+  signature: z.object({
+    dataUrl: z.string().regex(/^data:image\/png;base64,/, "Signature must be a PNG data URL"),
+    date: z.coerce.date().optional(),
+  }),
+});
+
+export type AgreementTemplateCreateInput = z.infer<typeof agreementTemplateCreateSchema>;
+export type AgreementTemplateUpdateInput = z.infer<typeof agreementTemplateUpdateSchema>;
+export type AgreementAcceptInput = z.infer<typeof agreementAcceptSchema>;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+const password = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters");
+
+const token = z.string().trim().regex(/^[a-f0-9]{64}$/, "Invalid or missing token");
+
+/**
+ * Create login from an emailed invite
+ */
+export const setPasswordSchema = z.object({ token, password });
+
+/**
+ * Forgot password: email a reset link
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+});
+
+/**
+ * Choose a new password from a reset link
+ */
+export const resetPasswordSchema = z.object({ token, password });
+
+export type SetPasswordInput = z.infer<typeof setPasswordSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
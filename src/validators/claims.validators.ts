@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+
+/**
+ * Generate DRAFT claim lines from completed shifts
+ */
+export const claimGenerateSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  participantId: objectId.optional(),
+});
+
+/**
+ * Submit DRAFT lines as a bulk payment request file
+ */
+export const claimSubmitSchema = z.object({
+  claimLineIds: z.array(objectId).min(1, "Select at least one claim line"),
+});
+
+/**
+ * Record the NDIA outcome (or reset a rejected line to DRAFT)
+ */
+export const claimStatusSchema = z.object({
+  status: z.enum(["PAID", "REJECTED", "DRAFT"]),
+  reason: z.string().trim().optional(),
+  paidAmountCents: z.coerce.number().int().min(0).optional(),
+});
+
+export type ClaimGenerateInput = z.infer<typeof claimGenerateSchema>;
+export type ClaimSubmitInput = z.infer<typeof claimSubmitSchema>;
+export type ClaimStatusInput = z.infer<typeof claimStatusSchema>;
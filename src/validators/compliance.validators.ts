@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+/**
+ * Review one uploaded trainer document (reason required when rejecting)
+ */
+export const documentReviewSchema = z.object({
+  status: z.enum(["VERIFIED", "REJECTED"]),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type DocumentReviewInput = z.infer<typeof documentReviewSchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+/**
+ * Request a short-lived signed download link for a stored upload
+ */
+export const signedFileUrlSchema = z.object({
+  path: z.string().trim().startsWith("/uploads/", "path must be a stored /uploads/... path"),
+});
+
+export type SignedFileUrlInput = z.infer<typeof signedFileUrlSchema>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+
+/**
+ * Generate DRAFT invoices (one per participant) for a billing period
+ */
+export const invoiceGenerateSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  participantId: objectId.optional(),
+});
+
+/**
+ * Edit a DRAFT invoice
+ */
+export const invoiceUpdateSchema = z.object({
+  notes: z.string().trim().optional(),
+  lines: z.array(z.object({ id: objectId, gstCode: z.enum(["P1", "P2"]) })).optional(),
+});
+
+export const invoicePaidSchema = z.object({
+  paidAt: z.coerce.date().optional(),
+});
+
+export const invoiceVoidSchema = z.object({
+  reason: z.string().trim().min(1, "A void reason is required"),
+});
+
+export type InvoiceGenerateInput = z.infer<typeof invoiceGenerateSchema>;
+export type InvoiceUpdateInput = z.infer<typeof invoiceUpdateSchema>;
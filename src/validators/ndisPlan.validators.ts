@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+
+const budgetSchema = z.object({
+  category: z.string().trim().regex(/^\d{2}$/, "Support category must be two digits (e.g. 01)"),
+  name: z.string().trim().optional(),
+  allocatedCents: z.coerce.number().int("Must be whole cents").min(0),
+});
+
+/**
+ * Create NDIS plan
+ */
+export const ndisPlanCreateSchema = z.object({
+  participantId: objectId,
+  planNumber: z.string().trim().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  budgets: z.array(budgetSchema).min(1, "At least one budget is required"),
+  notes: z.string().trim().optional(),
+});
+
+/**
+ * Update NDIS plan (participant cannot change)
+ */
+export const ndisPlanUpdateSchema = ndisPlanCreateSchema.omit({ participantId: true }).partial();
+
+export type NdisPlanCreateInput = z.infer<typeof ndisPlanCreateSchema>;
+export type NdisPlanUpdateInput = z.infer<typeof ndisPlanUpdateSchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+
+/**
+ * Create pay run (timesheetIds omitted → every APPROVED timesheet in the period)
+ */
+export const payRunCreateSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  timesheetIds: z.array(objectId).optional(),
+  notes: z.string().trim().optional(),
+});
+
+/**
+ * Update a DRAFT pay run
+ */
+export const payRunUpdateSchema = payRunCreateSchema.partial();
+
+export type PayRunCreateInput = z.infer<typeof payRunCreateSchema>;
+export type PayRunUpdateInput = z.infer<typeof payRunUpdateSchema>;
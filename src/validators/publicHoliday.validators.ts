@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const publicHolidayCreateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  state: z.enum(["NATIONAL", "NSW", "VIC", "QLD", "SA", "WA", "TAS", "ACT", "NT"]),
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export type PublicHolidayCreateInput = z.infer<typeof publicHolidayCreateSchema>;
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, "Invalid id");
+const cents = z.coerce.number().int("Must be whole cents").min(0);
+const supportItem = z
+  .string()
+  .trim()
+  .regex(/^\d{2}_\d{3}_\d{4}_\d_\d(_T)?$/, "Invalid NDIS support item number");
+
+/**
+ * Create rate card
+ */
+export const rateCardCreateSchema = z.object({
+  serviceCode: z.string().trim().min(1, "serviceCode is required"),
+  name: z.string().trim().optional(),
+  trainerId: objectId.nullable().optional(),
+  participantId: objectId.nullable().optional(),
+  hourlyRateCents: cents,
+  bandRates: z
+    .object({
+      EVENING: cents.optional(),
+      NIGHT: cents.optional(),
+      SATURDAY: cents.optional(),
+      SUNDAY: cents.optional(),
+      PUBLIC_HOLIDAY: cents.optional(),
+    })
+    .optional(),
+  kmRateCents: cents.optional(),
+  ndisSupportItemNumber: supportItem.optional(),
+  ndisBandItemNumbers: z
+    .object({
+      EVENING: supportItem.optional(),
+      NIGHT: supportItem.optional(),
+      SATURDAY: supportItem.optional(),
+      SUNDAY: supportItem.optional(),
+      PUBLIC_HOLIDAY: supportItem.optional(),
+    })
+    .optional(),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Update rate card (all fields optional)
+ */
+export const rateCardUpdateSchema = rateCardCreateSchema.partial();
+
+export type RateCardCreateInput = z.infer<typeof rateCardCreateSchema>;
+export type RateCardUpdateInput = z.infer<typeof rateCardUpdateSchema>;
@@ -86,10 +86,20 @@ export const trainerOnboardingSchema = z.discriminatedUnion("step", [
   trainerStep5Schema, // 🔹 added
 ]);
 
+/**
+ * Bank details (trainer self-service, used for ABA payroll files)
+ */
+export const trainerBankDetailsSchema = z.object({
+  accountName: z.string().trim().min(1, "Account name is required").max(32),
+  bsb: z.string().trim().regex(/^\d{3}-?\d{3}$/, "BSB must be 6 digits (e.g. 062-000)"),
+  accountNumber: z.string().trim().regex(/^\d{1,9}$/, "Account number must be up to 9 digits"),
+});
+
 // Types
 export type TrainerStep1Input = z.infer<typeof trainerStep1Schema>;
 export type TrainerStep2Input = z.infer<typeof trainerStep2Schema>;
 export type TrainerStep3Input = z.infer<typeof trainerStep3Schema>;
 export type TrainerStep4Input = z.infer<typeof trainerStep4Schema>;
 export type TrainerStep5Input = z.infer<typeof trainerStep5Schema>;
+export type TrainerBankDetailsInput = z.infer<typeof trainerBankDetailsSchema>;
 export type TrainerOnboardingInput = z.infer<typeof trainerOnboardingSchema>;